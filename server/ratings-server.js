@@ -0,0 +1,141 @@
+/*
+ * Stand-in collection endpoint for rating uploads, with no dependencies beyond Node itself.
+ * Appends the ratings it receives to a JSON file, in the [{ rating, params }] format of
+ * sandbox/data.json plus the extra fields sent by the app.
+ *
+ *   yarn serve-ratings
+ *   PORT=8080 RATINGS_FILE=/srv/ratings.json node server/ratings-server.js
+ */
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const PORT = Number(process.env.PORT) || 3001;
+const RATINGS_FILE = path.resolve(process.env.RATINGS_FILE || path.join(__dirname, 'ratings.json'));
+// Origin allowed to upload, the deployed site and the dev server are on different origins
+const ALLOW_ORIGIN = process.env.ALLOW_ORIGIN || '*';
+// Largest request body accepted, a full batch of ratings is around 25kB
+const MAX_BODY_SIZE = 1024 * 1024;
+
+function loadRatings(ratingsFile) {
+  try {
+    const ratings = JSON.parse(fs.readFileSync(ratingsFile, 'utf8'));
+    return Array.isArray(ratings) ? ratings : [];
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      throw e;
+    }
+    return [];
+  }
+}
+
+/**
+ * Writes to a temporary file first, so a crash part way through doesn't lose what was saved
+ */
+function saveRatings(ratingsFile, ratings) {
+  const tempFile = `${ratingsFile}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(ratings, null, 2));
+  fs.renameSync(tempFile, ratingsFile);
+}
+
+function isValidRating(rating) {
+  return (
+    typeof rating === 'object' &&
+    rating !== null &&
+    typeof rating.rating === 'number' &&
+    typeof rating.params === 'object' &&
+    rating.params !== null
+  );
+}
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOW_ORIGIN,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(Object.assign(new Error('Request body too large.'), { status: 413 }));
+        request.destroy();
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Creates a server saving the ratings posted to /ratings in the given file
+ */
+function createServer(ratingsFile) {
+  let ratings = loadRatings(ratingsFile);
+  const uploadIds = new Set(ratings.map(({ uploadId }) => uploadId).filter(Boolean));
+
+  async function handleUpload(request, response) {
+    let data;
+    try {
+      data = JSON.parse(await readBody(request));
+    } catch (e) {
+      return send(response, e.status || 400, { error: e.status ? e.message : 'Invalid JSON.' });
+    }
+    if (!data || !Array.isArray(data.ratings) || !data.ratings.every(isValidRating)) {
+      return send(response, 400, { error: 'Expected { ratings: [{ rating, params }] }.' });
+    }
+
+    // Retried uploads can repeat ratings that were already saved
+    const newRatings = data.ratings.filter(({ uploadId }) => !uploadId || !uploadIds.has(uploadId));
+    if (newRatings.length) {
+      const receivedAt = Date.now();
+      ratings = [...ratings, ...newRatings.map((rating) => ({ ...rating, receivedAt }))];
+      newRatings.forEach(({ uploadId }) => uploadId && uploadIds.add(uploadId));
+      saveRatings(ratingsFile, ratings);
+    }
+    console.log(
+      `Saved ${newRatings.length} of ${data.ratings.length} ratings, ${ratings.length} in total.`
+    );
+    send(response, 200, { saved: newRatings.length, total: ratings.length });
+  }
+
+  return http.createServer((request, response) => {
+    let pathname;
+    try {
+      // Only the path is used, so a fixed base keeps a bad Host header from throwing
+      pathname = new URL(request.url, 'http://localhost').pathname;
+    } catch (e) {
+      // The request target itself can still be malformed, e.g. "//"
+      return send(response, 400, { error: 'Invalid request URL.' });
+    }
+    if (request.method === 'OPTIONS') {
+      return send(response, 204);
+    }
+    if (pathname === '/ratings' && request.method === 'POST') {
+      handleUpload(request, response).catch((e) => {
+        console.error(e);
+        send(response, 500, { error: 'Unable to save ratings.' });
+      });
+      return;
+    }
+    if (pathname === '/ratings' && request.method === 'GET') {
+      return send(response, 200, { total: ratings.length });
+    }
+    send(response, 404, { error: 'Not found.' });
+  });
+}
+
+if (require.main === module) {
+  createServer(RATINGS_FILE).listen(PORT, () => {
+    console.log(`Saving ratings posted to http://localhost:${PORT}/ratings in ${RATINGS_FILE}`);
+  });
+}
+
+module.exports = { createServer };
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer } from './ratings-server';
+
+describe('ratings server', () => {
+  let dir;
+  let file;
+  let server;
+  let url;
+
+  const start = async () => {
+    server = createServer(file);
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}/ratings`;
+  };
+
+  const post = (body) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ratings-'));
+    file = path.join(dir, 'ratings.json');
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true });
+    vi.restoreAllMocks();
+  });
+
+  it('saves the ratings it receives', async () => {
+    const response = await post({ ratings: [{ rating: 7, params: { a: 1 }, uploadId: 'x' }] });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ saved: 1, total: 1 });
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved).toEqual([
+      { rating: 7, params: { a: 1 }, uploadId: 'x', receivedAt: expect.any(Number) },
+    ]);
+  });
+
+  it('skips ratings it already saved, even after a restart', async () => {
+    await post({ ratings: [{ rating: 7, params: {}, uploadId: 'x' }] });
+    await new Promise((resolve) => server.close(resolve));
+    await start();
+    const response = await post({
+      ratings: [
+        { rating: 7, params: {}, uploadId: 'x' },
+        { rating: 3, params: {}, uploadId: 'y' },
+      ],
+    });
+    expect(await response.json()).toEqual({ saved: 1, total: 2 });
+    expect((await (await fetch(url)).json()).total).toBe(2);
+  });
+
+  it('rejects uploads that are not ratings', async () => {
+    const invalid = await post('{"ratings": [');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'Invalid JSON.' });
+    const wrongShape = await post({ ratings: [{ rating: 'good' }] });
+    expect(wrongShape.status).toBe(400);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('answers preflight requests and nothing else', async () => {
+    const preflight = await fetch(url, { method: 'OPTIONS' });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+    expect((await fetch(url.replace('/ratings', '/other'))).status).toBe(404);
+  });
+
+  it('rejects request targets it is unable to parse', async () => {
+    const { port } = server.address();
+    const reply = await new Promise((resolve, reject) => {
+      let data = '';
+      const socket = net.connect(port, '127.0.0.1', () => {
+        socket.end('GET // HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n');
+      });
+      socket.on('data', (chunk) => (data += chunk));
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+    expect(reply).toMatch(/^HTTP\/1\.1 400 /);
+    expect(reply).toContain('{"error":"Invalid request URL."}');
+  });
+});
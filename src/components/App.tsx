@@ -1,18 +1,22 @@
 import React, { createContext, useEffect, useState } from 'react';
-import ReactPlayer from 'react-player/youtube';
 import { throttle } from 'lodash';
 import { motion } from 'framer-motion';
 import styled from 'styled-components';
 import { OnSettingsChange, OrbitParams, Settings } from '@/types/hopalong';
+import ActiveLearner from '@/util/ActiveLearner';
+import AudioAnalyser from '@/util/AudioAnalyser';
+import AudioReactor from '@/util/AudioReactor';
+import MusicPlayer, { MusicState } from '@/util/MusicPlayer';
+import Recorder from '@/util/Recorder';
+import RatingSession, { RatingSessionState } from '@/util/RatingSession';
+import RatingStore from '@/util/RatingStore';
+import RatingUploader, { UploadStatus } from '@/util/RatingUploader';
+import { applyOverlay, getTheme } from '@/util/themes';
 import Menu from './Menu';
+import RatingHud from './RatingHud';
 import Toolbar from './Toolbar';
 import WebGLStats from './WebGLStats';
 
-export type Rating = {
-  rating: number;
-  params: OrbitParams<number>;
-};
-
 export const RatingContext = createContext({
   // eslint-disable-next-line @typescript-eslint/no-empty-function, @typescript-eslint/no-unused-vars
   addRating: (rating: number) => {},
@@ -21,16 +25,46 @@ export const RatingContext = createContext({
 type PropsType = {
   stats: Stats;
   settings: Settings;
+  ratingStore: RatingStore;
+  ratingUploader: RatingUploader;
+  activeLearner: ActiveLearner;
+  ratingSession: RatingSession;
+  audioAnalyser: AudioAnalyser;
+  audioReactor: AudioReactor;
+  musicPlayer: MusicPlayer;
+  recorder: Recorder;
+  onPlayOrbit: (params: OrbitParams<number>) => unknown;
   onCenter: () => unknown;
+  onNextOrbit: () => unknown;
+  onSaveStill: () => unknown;
   onSettingsChange: OnSettingsChange<Settings>;
   onReset: () => unknown;
 };
 
-export default function App({ stats, settings, onSettingsChange, onCenter, onReset }: PropsType) {
+export default function App({
+  stats,
+  settings,
+  ratingStore,
+  ratingUploader,
+  activeLearner,
+  ratingSession,
+  audioAnalyser,
+  audioReactor,
+  musicPlayer,
+  recorder,
+  onPlayOrbit,
+  onSettingsChange,
+  onCenter,
+  onNextOrbit,
+  onSaveStill,
+  onReset,
+}: PropsType) {
   const [toolbarVisible, updateToolbarVisible] = useState(true);
   const [menuOpen, updateMenuOpen] = useState(false);
   const [statsOpen, updateStatsOpen] = useState(false);
-  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [ratingState, updateRatingState] = useState<RatingSessionState>(ratingSession.state);
+  const [uploadStatus, updateUploadStatus] = useState<UploadStatus>(ratingUploader.state);
+  const [musicState, updateMusicState] = useState<MusicState>(musicPlayer.state);
 
   const invertCurrent = (value) => !value;
   let hideTimeout: number;
@@ -51,42 +85,46 @@ export default function App({ stats, settings, onSettingsChange, onCenter, onRes
     setToolbarTimeout();
   });
 
-  useEffect(() => {
-    console.log(ratings);
-  }, [ratings]);
+  useEffect(() => ratingUploader.subscribe(updateUploadStatus), [ratingUploader]);
+  useEffect(() => ratingSession.subscribe(updateRatingState), [ratingSession]);
+  useEffect(() => musicPlayer.subscribe(updateMusicState), [musicPlayer]);
+  useEffect(() => applyOverlay(getTheme(settings.theme).overlay), [settings.theme]);
 
   const addRating = (rating: number) => {
-    const newRatings = ratings;
-    newRatings.push({
-      rating: rating,//@ts-ignore
-      params: window.hopalong.getCurrentOrbitParams(),
-    } as Rating);
-    setRatings(newRatings);
-    // @ts-ignore
-    window.ratings = newRatings;
+    ratingSession.rate(rating);
   };
 
-  const { mouseLocked, isPlaying, ...menuSettings } = settings;
+  const { mouseLocked, ratingMode, paused, isPlaying, savingStill, stillError, ...menuSettings } =
+    settings;
 
   const toolbar = (
     <Toolbar
       menuOpen={menuOpen}
       statsOpen={statsOpen}
       mouseLocked={mouseLocked}
+      ratingMode={ratingMode}
+      paused={paused}
       isPlaying={isPlaying || false}
+      savingStill={savingStill || false}
+      stillError={stillError}
+      uploadStatus={uploadStatus}
+      nowPlaying={musicState.tracks.find(({ id }) => id === musicState.current)?.name}
       updateMenuOpen={() => updateMenuOpen(invertCurrent)}
       updateStatsOpen={() => updateStatsOpen(invertCurrent)}
       updateMouseLocked={() => onSettingsChange({ mouseLocked: !mouseLocked })}
+      updateRatingMode={() => onSettingsChange({ ratingMode: !ratingMode })}
+      updatePaused={() => onSettingsChange({ paused: !paused })}
       updateIsPlaying={() => onSettingsChange({ isPlaying: !isPlaying })}
+      onNextOrbit={onNextOrbit}
+      onSaveStill={onSaveStill}
+      onPreviousTrack={musicPlayer.previous}
+      onNextTrack={musicPlayer.next}
       onCenter={onCenter}
     />
   );
 
   return (
     <RatingContext.Provider value={{ addRating }}>
-      <PlayerWrap>
-        <ReactPlayer url="https://www.youtube.com/watch?v=tKi9Z-f6qX4" playing={isPlaying} />
-      </PlayerWrap>
       <motion.div
         animate={{
           opacity: toolbarVisible ? 1 : 0,
@@ -94,10 +132,45 @@ export default function App({ stats, settings, onSettingsChange, onCenter, onRes
       >
         {!menuOpen && <ToolbarWrap>{toolbar}</ToolbarWrap>}
       </motion.div>
+      {ratingMode && !menuOpen && (
+        <HudWrap>
+          <RatingHud state={ratingState} />
+        </HudWrap>
+      )}
       {menuOpen && (
         <MenuBg open={menuOpen}>
           {toolbar}
-          <Menu settingsProps={{ settings: menuSettings, onChange: onSettingsChange, onReset }} />
+          <Menu
+            settingsProps={{ settings: menuSettings, onChange: onSettingsChange, onReset }}
+            effectsProps={{
+              effects: settings.effects,
+              warning: settings.effectsWarning,
+              onChange: onSettingsChange,
+            }}
+            cameraProps={{ settings, onChange: onSettingsChange }}
+            recordingProps={{ recorder }}
+            playlistProps={{
+              playlist: settings.playlist,
+              playlistMode: settings.playlistMode,
+              onChange: onSettingsChange,
+            }}
+            ratingsProps={{
+              ratingStore,
+              ratingUploader,
+              activeLearner,
+              ratingCount: ratingState.count,
+              uploadStatus,
+              attractor: settings.attractor,
+              onPlayOrbit: (params) => {
+                // Close the menu so the orbit can be seen
+                updateMenuOpen(false);
+                onPlayOrbit(params);
+              },
+            }}
+            musicProps={{ musicPlayer }}
+            audioProps={{ audioAnalyser, audioReactor, musicPlayer }}
+            infoProps={{ attractor: settings.attractor }}
+          />
         </MenuBg>
       )}
       <StatsBg open={statsOpen}>
@@ -110,6 +183,12 @@ const zIndexMenu = 5;
 const zIndexStats = zIndexMenu + 1;
 const zIndexToolbar = zIndexMenu + 2;
 
+const HudWrap = styled.div`
+  position: absolute;
+  z-index: ${zIndexToolbar};
+  bottom: 8px;
+  left: 8px;
+`;
 const ToolbarWrap = styled.div`
   position: absolute;
   z-index: ${zIndexToolbar};
@@ -135,9 +214,3 @@ const StatsBg = styled.div<{ open: boolean }>`
   right: 4px;
   background-color: rgba(0, 0, 0, 0.5);
 `;
-const PlayerWrap = styled.div`
-  width: 1px;
-  height: 1px;
-  opacity: 0;
-  pointer-events: none;
-`;
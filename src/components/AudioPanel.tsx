@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { AudioMapping, AudioSource, AudioTarget } from '@/types/hopalong';
+import AudioAnalyser, { AudioState } from '@/util/AudioAnalyser';
+import AudioReactor from '@/util/AudioReactor';
+import MusicPlayer from '@/util/MusicPlayer';
+import { Box } from './common/Box';
+import { Button } from './common/Button';
+import FileButton from './common/FileButton';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+const NORMALISE_PERCENT = 100;
+
+const targets: { target: AudioTarget; label: string; amountLabel: string; maxAmount: number }[] = [
+  { target: 'speed', label: 'Speed', amountLabel: 'Strength (%)', maxAmount: 200 },
+  { target: 'rotationSpeed', label: 'Rotation speed', amountLabel: 'Strength (%)', maxAmount: 200 },
+  { target: 'spriteSize', label: 'Sprite size', amountLabel: 'Strength (%)', maxAmount: 200 },
+  { target: 'hueShift', label: 'Hue shift', amountLabel: 'Strength (%)', maxAmount: 200 },
+  {
+    target: 'orbitChange',
+    label: 'Orbit change',
+    amountLabel: 'Chance on each peak (%)',
+    maxAmount: 100,
+  },
+];
+
+const sources: { value: AudioSource; label: string }[] = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'bass', label: 'Bass' },
+  { value: 'mid', label: 'Mids' },
+  { value: 'treble', label: 'Treble' },
+  { value: 'level', label: 'Overall level' },
+  { value: 'onset', label: 'Beats' },
+];
+
+export type AudioPanelProps = {
+  audioAnalyser: AudioAnalyser;
+  audioReactor: AudioReactor;
+  musicPlayer: MusicPlayer;
+};
+export default function AudioPanel({ audioAnalyser, audioReactor, musicPlayer }: AudioPanelProps) {
+  const [audioState, updateAudioState] = useState<AudioState>(audioAnalyser.state);
+  const [mappings, updateMappings] = useState(audioReactor.mappings);
+
+  useEffect(() => audioAnalyser.subscribe(updateAudioState), [audioAnalyser]);
+
+  const setMapping = (target: AudioTarget, mapping: Partial<AudioMapping>) => {
+    audioReactor.setMapping(target, mapping);
+    updateMappings(audioReactor.mappings);
+  };
+  const listenToPlayer = () => audioAnalyser.listenTo(musicPlayer.audio);
+  const playFiles = async (files: File[]) => {
+    const [track] = await musicPlayer.addFiles(files);
+    if (track) {
+      listenToPlayer();
+      musicPlayer.play(track.id);
+    }
+  };
+  const resetMappings = () => {
+    audioReactor.resetMappings();
+    updateMappings(audioReactor.mappings);
+  };
+
+  return (
+    <Root>
+      <InfoBox>
+        {audioState.input === 'none' && (
+          <p>Play some music or use the microphone and the visuals will react to it.</p>
+        )}
+        {audioState.input === 'player' && <p>Reacting to the music player</p>}
+        {audioState.input === 'microphone' && (
+          <p>Listening to {audioState.name || 'the microphone'}</p>
+        )}
+        {audioState.error && <ErrorMessage>{audioState.error}</ErrorMessage>}
+      </InfoBox>
+      <FileButton accept="audio/*" multiple onFiles={playFiles}>
+        Play audio files
+      </FileButton>
+      <Button fullWidth onClick={listenToPlayer} disabled={audioState.input === 'player'}>
+        React to the music player
+      </Button>
+      <Button fullWidth onClick={audioAnalyser.useMicrophone}>
+        Use microphone
+      </Button>
+      <Button fullWidth onClick={audioAnalyser.stop} disabled={audioState.input === 'none'}>
+        Stop reacting
+      </Button>
+      <MappingList>
+        {targets.map(({ target, label, amountLabel, maxAmount }) => (
+          <li key={target}>
+            <Select
+              label={label}
+              value={mappings[target].source}
+              options={sources}
+              onChange={(source) => setMapping(target, { source: source as AudioSource })}
+            />
+            {mappings[target].source !== 'none' && (
+              <Slider
+                min={0}
+                max={maxAmount}
+                label={amountLabel}
+                value={Math.round(mappings[target].amount * NORMALISE_PERCENT)}
+                onChange={(amount) => setMapping(target, { amount: amount / NORMALISE_PERCENT })}
+              />
+            )}
+          </li>
+        ))}
+      </MappingList>
+      <Button fullWidth onClick={resetMappings}>
+        Reset mappings
+      </Button>
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 320px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const ErrorMessage = styled.p`
+  color: #ffdc00;
+`;
+const MappingList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 24px;
+  margin: 16px 0;
+
+  li {
+    display: grid;
+    row-gap: 8px;
+  }
+`;
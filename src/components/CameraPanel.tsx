@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { CameraMode, MenuSettings } from '@/types/hopalong';
+import { validateCameraPath } from '@/util/cameraPaths';
+import { Box } from './common/Box';
+import FileButton from './common/FileButton';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+const NORMALISE_PERCENT = 100;
+
+const cameraModes: { value: CameraMode; label: string }[] = [
+  { value: 'mouse', label: 'Follow the mouse' },
+  { value: 'autopilot', label: 'Autopilot' },
+  { value: 'orbit', label: 'Orbit round the tunnel' },
+  { value: 'keyframes', label: 'Keyframed path' },
+];
+
+export type CameraPanelProps = {
+  settings: Pick<
+    MenuSettings,
+    'cameraMode' | 'cameraBound' | 'cameraEasing' | 'cameraRoll' | 'cameraPath'
+  >;
+  onChange: (settings: Partial<MenuSettings>) => unknown;
+};
+export default function CameraPanel({ settings, onChange }: CameraPanelProps) {
+  const [errors, updateErrors] = useState<string[]>([]);
+  const { cameraMode, cameraBound, cameraEasing, cameraRoll, cameraPath } = settings;
+
+  const importPath = async ([file]: File[]) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (e) {
+      updateErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+    const validation = validateCameraPath(data, file.name.replace(/\.json$/i, ''));
+    updateErrors(validation.errors);
+    if (validation.path) {
+      onChange({ cameraPath: validation.path, cameraMode: 'keyframes' });
+    }
+  };
+
+  return (
+    <Root>
+      <InfoBox>
+        <p>
+          <Code>[M]</Code> switches camera mode. <Code>[L]</Code> holds the camera still in any
+          mode, and <Code>[C]</Code> centres and holds it.
+        </p>
+      </InfoBox>
+      <Select
+        label="Camera mode"
+        value={cameraMode}
+        options={cameraModes}
+        onChange={(mode) => onChange({ cameraMode: mode as CameraMode })}
+      />
+      <Slider
+        min={0}
+        max={1000}
+        label="Bounds"
+        value={cameraBound}
+        onChange={(bound) => onChange({ cameraBound: bound })}
+      />
+      <Slider
+        min={1}
+        max={NORMALISE_PERCENT}
+        label="Easing (%)"
+        value={Math.round(cameraEasing * NORMALISE_PERCENT)}
+        onChange={(easing) => onChange({ cameraEasing: easing / NORMALISE_PERCENT })}
+      />
+      <Slider
+        min={0}
+        max={90}
+        label="Roll (degrees)"
+        value={cameraRoll}
+        onChange={(roll) => onChange({ cameraRoll: roll })}
+      />
+      <FileButton accept=".json,application/json" onFiles={importPath}>
+        Load keyframed path
+      </FileButton>
+      {cameraPath && (
+        <p>
+          Path: {cameraPath.name}, {cameraPath.keyframes.length} keyframes
+          {cameraPath.loop ? ', looping' : ''}
+        </p>
+      )}
+      {errors.length > 0 && (
+        <InfoBox>
+          <p>Some keyframes were left out:</p>
+          <ErrorList>
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ErrorList>
+        </InfoBox>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 320px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const Code = styled.code`
+  background-color: black;
+  padding: 0 4px;
+  border-radius: 4px;
+`;
+const ErrorList = styled(UnstyledUl)`
+  margin-top: 8px;
+  color: #ffdc00;
+`;
@@ -0,0 +1,87 @@
+import React from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { EffectId, EffectSetting, EffectSettings } from '@/types/hopalong';
+import { defaultEffects } from '@/util/EffectPipeline';
+import { Box } from './common/Box';
+import { Button } from './common/Button';
+import Checkbox from './common/Checkbox';
+import Slider from './common/Slider';
+
+const NORMALISE_PERCENT = 100;
+
+const effectLabels: { id: EffectId; label: string }[] = [
+  { id: 'trails', label: 'Motion trails' },
+  { id: 'bloom', label: 'Bloom' },
+  { id: 'pixelate', label: 'Pixelate' },
+  { id: 'chromaticAberration', label: 'Chromatic aberration' },
+  { id: 'vhs', label: 'VHS noise' },
+  { id: 'crt', label: 'CRT scanlines and curvature' },
+];
+
+export type EffectsPanelProps = {
+  effects: EffectSettings;
+  warning?: string;
+  onChange: (settings: { effects: EffectSettings }) => unknown;
+};
+export default function EffectsPanel({ effects, warning, onChange }: EffectsPanelProps) {
+  const setEffect = (id: EffectId, effect: Partial<EffectSetting>) => {
+    onChange({ effects: { ...effects, [id]: { ...effects[id], ...effect } } });
+  };
+
+  return (
+    <Root>
+      <InfoBox>
+        <p>Effects are applied in this order after each frame is drawn.</p>
+        {warning && <ErrorMessage>{warning}</ErrorMessage>}
+      </InfoBox>
+      <EffectList>
+        {effectLabels.map(({ id, label }) => (
+          <li key={id}>
+            <Checkbox
+              checked={effects[id].enabled}
+              onChange={(enabled) => setEffect(id, { enabled })}
+              label={label}
+            />
+            {effects[id].enabled && (
+              <Slider
+                min={0}
+                max={NORMALISE_PERCENT}
+                label="Strength (%)"
+                value={Math.round(effects[id].amount * NORMALISE_PERCENT)}
+                onChange={(amount) => setEffect(id, { amount: amount / NORMALISE_PERCENT })}
+              />
+            )}
+          </li>
+        ))}
+      </EffectList>
+      <Button fullWidth onClick={() => onChange({ effects: defaultEffects })}>
+        Reset effects
+      </Button>
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 320px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const ErrorMessage = styled.p`
+  color: #ffdc00;
+`;
+const EffectList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 24px;
+  margin: 16px 0;
+
+  li {
+    display: grid;
+    row-gap: 8px;
+  }
+`;
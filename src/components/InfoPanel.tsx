@@ -1,9 +1,15 @@
 import React from 'react';
 import styled from 'styled-components';
 import { UnstyledUl } from '@/styles/mixins';
+import { getAttractor } from '@/util/attractors';
 import { Box } from './common/Box';
 
-export default function InfoPanel() {
+export type InfoPanelProps = {
+  attractor: string;
+};
+export default function InfoPanel({ attractor: attractorId }: InfoPanelProps) {
+  const attractor = getAttractor(attractorId);
+  const paramLabels = attractor.params.map(({ key, label }) => label || key).join(', ');
   return (
     <InfoList>
       <InfoBox>
@@ -22,19 +28,32 @@ export default function InfoPanel() {
           <li>
             <Code>[H]</Code> Toggle cursor - <Code>[F11]</Code> Toggle fullscreen
           </li>
+          <li>
+            <Code>[P]</Code> Pause - <Code>[N]</Code> Next orbit - <Code>[M]</Code> Next camera mode
+          </li>
+          <li>
+            <Code>[.]</Code> Step one frame, for the timing that only moves when stepped -{' '}
+            <Code>[K]</Code> Save a still
+          </li>
+          <li>
+            <Code>[V]</Code> Toggle rating mode, then <Code>[0-9]</Code> Rate the orbit -{' '}
+            <Code>[Backspace]</Code> Undo - <Code>[N]</Code> Skip to the next orbit
+          </li>
         </KeyboardList>
       </InfoBox>
 
       <InfoBox>
         <Heading2>About</Heading2>
-        <p>Barry Martin&apos;s Hopalong Orbits Visualizer</p>
+        <p>{attractor.name} Orbits Visualizer</p>
         <br />
         <p>These orbits are generated iterating this simple formula:</p>
+        {attractor.formula.map((line) => (
+          <p key={line}>
+            <CodeRow>{line}</CodeRow>
+          </p>
+        ))}
         <p>
-          <CodeRow>(x, y) -&gt; (y - sign(x)*sqrt(abs(b*x - c)), a -x )</CodeRow>
-        </p>
-        <p>
-          where a, b, c are random parameters. This is known as the &apos;Hopalong Attractor&apos;.
+          where {paramLabels} are random parameters. {attractor.description}
         </p>
         <br />
         <p>
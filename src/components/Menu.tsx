@@ -2,29 +2,92 @@ import React, { useState } from 'react';
 import styled from 'styled-components';
 import { UnstyledButton } from '@/styles/mixins';
 import { classes } from '@/styles/utils';
-import InfoPanel from './InfoPanel';
+import AudioPanel, { AudioPanelProps } from './AudioPanel';
+import CameraPanel, { CameraPanelProps } from './CameraPanel';
+import EffectsPanel, { EffectsPanelProps } from './EffectsPanel';
+import InfoPanel, { InfoPanelProps } from './InfoPanel';
+import MusicPanel, { MusicPanelProps } from './MusicPanel';
+import PlaylistPanel, { PlaylistPanelProps } from './PlaylistPanel';
+import RatingsPanel, { RatingsPanelProps } from './RatingsPanel';
+import RecordingPanel, { RecordingPanelProps } from './RecordingPanel';
 import SettingsPanel, { SettingsPanelProps } from './SettingsPanel';
 
 enum Tabs {
   SETTINGS = 'Settings',
+  EFFECTS = 'Effects',
+  CAMERA = 'Camera',
+  RECORD = 'Record',
+  PLAYLISTS = 'Playlists',
+  RATINGS = 'Ratings',
+  MUSIC = 'Music',
+  AUDIO = 'Audio',
   ABOUT = 'About',
 }
 type PropsType = {
   settingsProps: SettingsPanelProps;
+  effectsProps: EffectsPanelProps;
+  cameraProps: CameraPanelProps;
+  recordingProps: RecordingPanelProps;
+  playlistProps: PlaylistPanelProps;
+  ratingsProps: RatingsPanelProps;
+  musicProps: MusicPanelProps;
+  audioProps: AudioPanelProps;
+  infoProps: InfoPanelProps;
 };
 
-export default function Menu({ settingsProps }: PropsType) {
-  const tabs = [Tabs.SETTINGS, Tabs.ABOUT];
+export default function Menu({
+  settingsProps,
+  effectsProps,
+  cameraProps,
+  recordingProps,
+  playlistProps,
+  ratingsProps,
+  musicProps,
+  audioProps,
+  infoProps,
+}: PropsType) {
+  const tabs = [
+    Tabs.SETTINGS,
+    Tabs.EFFECTS,
+    Tabs.CAMERA,
+    Tabs.RECORD,
+    Tabs.PLAYLISTS,
+    Tabs.RATINGS,
+    Tabs.MUSIC,
+    Tabs.AUDIO,
+    Tabs.ABOUT,
+  ];
   const [currentTab, updateCurrentTab] = useState(Tabs.SETTINGS);
 
   let content;
   switch (currentTab) {
     case Tabs.ABOUT:
-      content = <InfoPanel />;
+      content = <InfoPanel {...infoProps} />;
       break;
     case Tabs.SETTINGS:
       content = <SettingsPanel {...settingsProps} />;
       break;
+    case Tabs.EFFECTS:
+      content = <EffectsPanel {...effectsProps} />;
+      break;
+    case Tabs.CAMERA:
+      content = <CameraPanel {...cameraProps} />;
+      break;
+    case Tabs.RECORD:
+      content = <RecordingPanel {...recordingProps} />;
+      break;
+    case Tabs.PLAYLISTS:
+      content = <PlaylistPanel {...playlistProps} />;
+      break;
+    case Tabs.RATINGS:
+      content = <RatingsPanel {...ratingsProps} />;
+      break;
+    case Tabs.MUSIC:
+      content = <MusicPanel {...musicProps} />;
+      break;
+    case Tabs.AUDIO:
+      content = <AudioPanel {...audioProps} />;
+      break;
   }
   return (
     <Root>
@@ -57,12 +120,12 @@ const TabBar = styled.header`
 const Tab = styled(UnstyledButton)`
   padding: 8px 16px;
   font-size: 16px;
-  border: 1px solid white;
+  border: 1px solid var(--overlay-accent, white);
   color: white;
 
   &:hover,
   &.active {
-    background-color: white;
+    background-color: var(--overlay-accent, white);
     color: black;
   }
 `;
@@ -0,0 +1,178 @@
+import React, { DragEvent, useEffect, useState } from 'react';
+import { FaPause, FaPlay, FaStepBackward, FaStepForward, FaTrash } from 'react-icons/fa';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { classes } from '@/styles/utils';
+import { Track } from '@/types/hopalong';
+import { attractors } from '@/util/attractors';
+import MusicPlayer, { MusicState } from '@/util/MusicPlayer';
+import { CUSTOM_PALETTE, palettes } from '@/util/palettes';
+import { Box } from './common/Box';
+import { IconButton } from './common/Button';
+import Checkbox from './common/Checkbox';
+import FileButton from './common/FileButton';
+
+const paletteOptions = [
+  ...palettes.map(({ id, name }) => ({ value: id, label: name })),
+  { value: CUSTOM_PALETTE, label: 'Custom' },
+];
+const attractorOptions = attractors.map(({ id, name }) => ({ value: id, label: name }));
+
+export type MusicPanelProps = {
+  musicPlayer: MusicPlayer;
+};
+export default function MusicPanel({ musicPlayer }: MusicPanelProps) {
+  const [musicState, updateMusicState] = useState<MusicState>(musicPlayer.state);
+  const [dragging, updateDragging] = useState(false);
+
+  useEffect(() => musicPlayer.subscribe(updateMusicState), [musicPlayer]);
+
+  const { tracks, current, playing, shuffle, error } = musicState;
+
+  const onDragOver = (e: DragEvent) => {
+    e.preventDefault();
+    updateDragging(true);
+  };
+  const onDrop = (e: DragEvent) => {
+    e.preventDefault();
+    updateDragging(false);
+    musicPlayer.addFiles(Array.from(e.dataTransfer.files));
+  };
+  const tagTrack = (track: Track, changes: Partial<Track>) => {
+    if (typeof track.id !== 'undefined') {
+      musicPlayer.updateTrack(track.id, changes);
+    }
+  };
+
+  return (
+    <Root>
+      <DropZone
+        className={classes({ dragging })}
+        onDragOver={onDragOver}
+        onDragLeave={() => updateDragging(false)}
+        onDrop={onDrop}
+      >
+        <p>Drop audio files here to add them to the library</p>
+        <FileButton accept="audio/*" multiple onFiles={musicPlayer.addFiles}>
+          Add audio files
+        </FileButton>
+      </DropZone>
+      <Controls>
+        <IconButton title="Previous track" onClick={musicPlayer.previous}>
+          <FaStepBackward />
+        </IconButton>
+        <IconButton
+          title={playing ? 'Pause' : 'Play'}
+          onClick={() => musicPlayer.setPlaying(!playing)}
+        >
+          {playing ? <FaPause /> : <FaPlay />}
+        </IconButton>
+        <IconButton title="Next track" onClick={musicPlayer.next}>
+          <FaStepForward />
+        </IconButton>
+        <Checkbox checked={shuffle} onChange={musicPlayer.setShuffle} label="Shuffle" />
+      </Controls>
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      <TrackList>
+        {tracks.map((track) => (
+          <TrackItem key={track.id} className={classes({ active: track.id === current })}>
+            <TrackName title={track.name}>{track.name}</TrackName>
+            <SmallButton title="Play this track" onClick={() => musicPlayer.play(track.id)}>
+              <FaPlay />
+            </SmallButton>
+            <SmallButton
+              title="Remove from the library"
+              onClick={() => typeof track.id !== 'undefined' && musicPlayer.removeTrack(track.id)}
+            >
+              <FaTrash />
+            </SmallButton>
+            <TagSelect
+              aria-label={`Palette for ${track.name}`}
+              value={track.palette || ''}
+              onChange={(e) => tagTrack(track, { palette: e.currentTarget.value || undefined })}
+            >
+              <option value="">Keep palette</option>
+              {paletteOptions.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </TagSelect>
+            <TagSelect
+              aria-label={`Attractor for ${track.name}`}
+              value={track.attractor || ''}
+              onChange={(e) => tagTrack(track, { attractor: e.currentTarget.value || undefined })}
+            >
+              <option value="">Keep attractor</option>
+              {attractorOptions.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </TagSelect>
+          </TrackItem>
+        ))}
+      </TrackList>
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 480px;
+  display: grid;
+  grid-template-columns: minmax(0, 1fr);
+  row-gap: 16px;
+`;
+const DropZone = styled(Box)`
+  display: grid;
+  row-gap: 8px;
+  text-align: center;
+  border: 2px dashed rgba(255, 255, 255, 0.5);
+
+  &.dragging {
+    border-color: white;
+  }
+`;
+const Controls = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`;
+const ErrorMessage = styled.p`
+  color: #ffdc00;
+`;
+const TrackList = styled(UnstyledUl)`
+  display: grid;
+  row-gap: 4px;
+`;
+const TrackItem = styled.li`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) auto auto;
+  gap: 4px;
+  padding: 4px;
+  border-radius: 4px;
+
+  &.active {
+    background-color: rgba(255, 255, 255, 0.15);
+  }
+`;
+const TrackName = styled.span`
+  align-self: center;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+`;
+const SmallButton = styled(IconButton)`
+  width: 24px;
+  height: 24px;
+  font-size: 12px;
+`;
+const TagSelect = styled.select`
+  grid-column: 1 / -1;
+  padding: 2px;
+  color: white;
+  background-color: black;
+  border: 1px solid rgba(255, 255, 255, 0.5);
+  border-radius: 4px;
+  font-family: 'Roboto Mono', monospace;
+`;
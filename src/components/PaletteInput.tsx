@@ -0,0 +1,86 @@
+import React, { FormEvent, useState } from 'react';
+import styled from 'styled-components';
+import { useId } from '@/util/hooks';
+import { validatePalette } from '@/util/validation';
+import { Button } from './common/Button';
+import Input from './common/Input';
+
+type SwatchProps = {
+  colours: string[];
+};
+/**
+ * The palette as the gradient its colours are picked from
+ */
+export function PaletteSwatch({ colours }: SwatchProps) {
+  return <Swatch style={{ background: `linear-gradient(to right, ${colours.join(', ')})` }} />;
+}
+
+type PropsType = {
+  colours: string[];
+  onChange: (colours: string[]) => unknown;
+};
+/**
+ * Edits the user-defined palette as a list of CSS colours
+ */
+export default function PaletteInput({ colours, onChange }: PropsType) {
+  const id = useId();
+  const [text, updateText] = useState(colours.join(', '));
+  const [error, updateError] = useState<string>();
+
+  const save = (e: FormEvent) => {
+    e.preventDefault();
+    const errors: string[] = [];
+    const palette = validatePalette(
+      text
+        .split(',')
+        .map((colour) => colour.trim())
+        .filter(Boolean),
+      'The palette',
+      errors
+    );
+    updateError(errors[0]);
+    if (palette) {
+      onChange(palette);
+    }
+  };
+
+  return (
+    <Form onSubmit={save}>
+      <Label htmlFor={id}>Custom colours</Label>
+      <TextInput
+        id={id}
+        placeholder="#ff0000, yellow, rgb(0, 0, 255)"
+        value={text}
+        onChange={(e) => updateText(e.currentTarget.value)}
+      />
+      <Button type="submit">Save</Button>
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </Form>
+  );
+}
+const Swatch = styled.div`
+  height: 12px;
+  margin-top: 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const Form = styled.form`
+  display: grid;
+  grid-template-columns: 1fr auto;
+  gap: 8px;
+  color: white;
+`;
+const Label = styled.label`
+  grid-column: 1 / -1;
+  text-align: center;
+  font-size: 18px;
+`;
+const TextInput = styled(Input)`
+  min-width: 0;
+  padding: 4px;
+`;
+const ErrorMessage = styled.p`
+  grid-column: 1 / -1;
+  color: #ffdc00;
+  font-size: 12px;
+`;
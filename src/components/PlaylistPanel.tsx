@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { MenuSettings, PlaylistMode } from '@/types/hopalong';
+import {
+  builtInPlaylists,
+  deletePlaylist,
+  getPlaylists,
+  savePlaylist,
+  validatePlaylist,
+} from '@/util/playlists';
+import { Box } from './common/Box';
+import { Button } from './common/Button';
+import FileButton from './common/FileButton';
+import Select from './common/Select';
+
+const modeOptions: { value: PlaylistMode; label: string }[] = [
+  { value: 'sequential', label: 'In order' },
+  { value: 'shuffle', label: 'Shuffle' },
+  { value: 'weighted', label: 'Rating weighted' },
+];
+
+export type PlaylistPanelProps = {
+  playlist?: string;
+  playlistMode: PlaylistMode;
+  onChange: (settings: Partial<MenuSettings>) => unknown;
+};
+export default function PlaylistPanel({ playlist, playlistMode, onChange }: PlaylistPanelProps) {
+  const [playlists, updatePlaylists] = useState(getPlaylists);
+  const [errors, updateErrors] = useState<string[]>([]);
+  const current = playlists.find(({ id }) => id === playlist);
+
+  const importPlaylist = async ([file]: File[]) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (e) {
+      updateErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+    const validation = validatePlaylist(data, file.name.replace(/\.json$/i, ''));
+    if (validation.playlist && !savePlaylist(validation.playlist)) {
+      updateErrors([...validation.errors, `Unable to save ${validation.playlist.name}`]);
+      return;
+    }
+    updateErrors(validation.errors);
+    if (validation.playlist) {
+      updatePlaylists(getPlaylists());
+      onChange({ playlist: validation.playlist.id });
+    }
+  };
+  const removePlaylist = (id: string) => {
+    if (!deletePlaylist(id)) {
+      updateErrors(['Unable to delete the playlist']);
+      return;
+    }
+    updatePlaylists(getPlaylists());
+    onChange({ playlist: '' });
+  };
+
+  return (
+    <Root>
+      <Select
+        label="Playlist"
+        value={playlist || ''}
+        options={[
+          { value: '', label: 'None (generate orbits)' },
+          ...playlists.map(({ id, name }) => ({ value: id, label: name })),
+        ]}
+        onChange={(id) => onChange({ playlist: id })}
+      />
+      <Select
+        label="Playback"
+        value={playlistMode}
+        options={modeOptions}
+        onChange={(mode) => onChange({ playlistMode: mode as PlaylistMode })}
+      />
+      {current && (
+        <InfoBox>
+          <p>
+            {current.name}: {current.entries.length} orbits
+          </p>
+          <EntryList>
+            {current.entries
+              .filter(({ title }) => !!title)
+              .map(({ title }, i) => (
+                <li key={i}>{title}</li>
+              ))}
+          </EntryList>
+        </InfoBox>
+      )}
+      <FileButton accept=".json,application/json" onFiles={importPlaylist}>
+        Import playlist
+      </FileButton>
+      {current && !builtInPlaylists.includes(current) && (
+        <Button fullWidth onClick={() => removePlaylist(current.id)}>
+          Delete playlist
+        </Button>
+      )}
+      {errors.length > 0 && (
+        <InfoBox>
+          <p>Some entries were left out:</p>
+          <EntryList>
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </EntryList>
+        </InfoBox>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 320px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const EntryList = styled(UnstyledUl)`
+  max-height: 200px;
+  overflow-y: auto;
+  font-weight: normal;
+`;
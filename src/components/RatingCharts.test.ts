@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Rating } from '@/types/hopalong';
+import { attractors, randomParams } from '@/util/attractors';
+import { countRatings, getScatterPoints } from './RatingCharts';
+
+const params = randomParams(attractors[0]);
+const toRatings = (values: number[]): Rating[] =>
+  values.map((rating, i) => ({ id: i + 1, rating, params: { ...params, a: i } }));
+
+describe('countRatings', () => {
+  it('counts the ratings given for each score', () => {
+    expect(countRatings(toRatings([0, 9, 3, 3, 7]))).toEqual([1, 0, 0, 2, 0, 0, 0, 1, 0, 1]);
+    expect(countRatings([])).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('puts ratings between scores or out of range in the nearest one', () => {
+    expect(countRatings(toRatings([2.4, 2.6, -1, 12]))).toEqual([1, 0, 1, 1, 0, 0, 0, 0, 0, 1]);
+  });
+});
+
+describe('getScatterPoints', () => {
+  const ratings = toRatings([0, 9, 9]);
+  const points = getScatterPoints(ratings, ({ params }) => params.a, 0, 2);
+
+  it('spreads the values across the plot', () => {
+    expect(points.map(({ x }) => x)).toEqual([16, 100, 184]);
+  });
+
+  it('plots higher ratings further up, jittered a little', () => {
+    expect(points[0].y).toBeGreaterThan(100);
+    expect(points[1].y).toBeLessThan(20);
+    expect(Math.abs(points[1].y - 16)).toBeLessThanOrEqual(4);
+    expect(points[1].y).not.toBe(points[2].y);
+  });
+
+  it('keeps each point in the same place between renders', () => {
+    expect(getScatterPoints(ratings, ({ params }) => params.a, 0, 2)).toEqual(points);
+    expect(points.map(({ key }) => key)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Rating } from '@/types/hopalong';
+
+// Ratings are given with the keys 0-9
+const RATING_MAX = 9;
+const ratingBins = [...Array(RATING_MAX + 1).keys()];
+
+const WIDTH = 200;
+const HEIGHT = 120;
+const PADDING = 16;
+
+/**
+ * How many ratings were given for each score from 0 to 9, averaged ratings go to the nearest
+ */
+export function countRatings(ratings: Rating[]): number[] {
+  const counts = ratingBins.map(() => 0);
+  for (const { rating } of ratings) {
+    counts[Math.min(RATING_MAX, Math.max(0, Math.round(rating)))]++;
+  }
+  return counts;
+}
+
+/**
+ * Where each rating goes on a scatter plot of `getValue` from `min` to `max` against the rating
+ */
+export function getScatterPoints(
+  ratings: Rating[],
+  getValue: (rating: Rating) => number,
+  min: number,
+  max: number
+): { key: number; x: number; y: number }[] {
+  return ratings.map((rating, i) => {
+    const key = rating.id ?? i;
+    return {
+      key,
+      x: toX(getValue(rating), min, max),
+      // Spread out the whole number ratings a little so the points don't all overlap
+      y: toY(rating.rating) + jitter(key),
+    };
+  });
+}
+
+const toX = (value: number, min: number, max: number) =>
+  PADDING + ((value - min) / (max - min || 1)) * (WIDTH - PADDING * 2);
+const toY = (rating: number) => HEIGHT - PADDING - (rating / RATING_MAX) * (HEIGHT - PADDING * 2);
+
+type HistogramProps = {
+  ratings: Rating[];
+};
+/**
+ * How many ratings were given for each score
+ */
+export function RatingHistogram({ ratings }: HistogramProps) {
+  const counts = countRatings(ratings);
+  const maxCount = Math.max(1, ...counts);
+  const barWidth = (WIDTH - PADDING * 2) / counts.length;
+  return (
+    <Chart viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Histogram of ratings">
+      {counts.map((count, rating) => {
+        const height = ((HEIGHT - PADDING * 2) * count) / maxCount;
+        const x = PADDING + rating * barWidth;
+        return (
+          <g key={rating}>
+            <title>
+              {count} rated {rating}
+            </title>
+            <rect
+              x={x + 1}
+              y={HEIGHT - PADDING - height}
+              width={barWidth - 2}
+              height={height}
+              fill="white"
+            />
+            <AxisLabel x={x + barWidth / 2} y={HEIGHT - 4}>
+              {rating}
+            </AxisLabel>
+          </g>
+        );
+      })}
+      <AxisLabel x={PADDING} y={PADDING - 4} textAnchor="start">
+        {maxCount}
+      </AxisLabel>
+    </Chart>
+  );
+}
+
+type ScatterProps = {
+  ratings: Rating[];
+  label: string;
+  /** Reads the param being plotted */
+  getValue: (rating: Rating) => number;
+  min: number;
+  max: number;
+};
+/**
+ * One param against the rating it got, to show which values people like
+ */
+export function RatingScatter({ ratings, label, getValue, min, max }: ScatterProps) {
+  return (
+    <Chart viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={`${label} against rating`}>
+      {getScatterPoints(ratings, getValue, min, max).map(({ key, x, y }) => (
+        <circle key={key} cx={x} cy={y} r={1.5} fill="white" fillOpacity={0.5} />
+      ))}
+      <AxisLabel x={WIDTH / 2} y={HEIGHT - 2}>
+        {label}
+      </AxisLabel>
+      <AxisLabel x={PADDING} y={HEIGHT - 2} textAnchor="start">
+        {formatAxis(min)}
+      </AxisLabel>
+      <AxisLabel x={WIDTH - PADDING} y={HEIGHT - 2} textAnchor="end">
+        {formatAxis(max)}
+      </AxisLabel>
+      <AxisLabel x={4} y={toY(RATING_MAX) + 3} textAnchor="start">
+        {RATING_MAX}
+      </AxisLabel>
+      <AxisLabel x={4} y={toY(0) + 3} textAnchor="start">
+        0
+      </AxisLabel>
+    </Chart>
+  );
+}
+
+/**
+ * A stable offset of up to ±4 for each point, so the plot doesn't shuffle on every render
+ */
+function jitter(seed: number): number {
+  const value = Math.sin(seed * 12.9898) * 43758.5453;
+  return (value - Math.floor(value) - 0.5) * 8;
+}
+
+function formatAxis(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+const Chart = styled.svg`
+  width: 100%;
+  height: auto;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  border-radius: 4px;
+`;
+const AxisLabel = styled.text.attrs(({ textAnchor }: { textAnchor?: string }) => ({
+  textAnchor: textAnchor || 'middle',
+}))`
+  fill: white;
+  font-size: 8px;
+  font-weight: normal;
+`;
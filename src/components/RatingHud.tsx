@@ -0,0 +1,80 @@
+import React from 'react';
+import styled from 'styled-components';
+import { getAttractor } from '@/util/attractors';
+import { RatingSessionState } from '@/util/RatingSession';
+
+type PropsType = {
+  state: RatingSessionState;
+};
+/**
+ * Confirms what was rated while in rating mode
+ */
+export default function RatingHud({ state: { last, count, message } }: PropsType) {
+  const attractor = last && getAttractor(last.params.attractor);
+  return (
+    <Root>
+      <Keys>
+        <Code>[0-9]</Code> Rate - <Code>[Backspace]</Code> Undo - <Code>[N]</Code> Skip -{' '}
+        <Code>[V]</Code> Exit
+      </Keys>
+      {last && attractor && (
+        <LastRating>
+          {last.thumbnail && <Thumbnail src={last.thumbnail} alt="" />}
+          <div>
+            <Score>{last.rating}</Score>
+            <p>
+              {attractor.name}, {count} rated this session
+            </p>
+            <Params>
+              {attractor.params
+                .map(({ key, label }) => `${label || key} ${last.params[key].toFixed(2)}`)
+                .join(' ')}
+            </Params>
+            {last.visibility && <p>Seen for {(last.visibility.visibleFor / 1000).toFixed(1)}s</p>}
+          </div>
+        </LastRating>
+      )}
+      {message && <Message>{message}</Message>}
+    </Root>
+  );
+}
+const Root = styled.div`
+  max-width: 360px;
+  padding: 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+  background-color: rgba(0, 0, 0, 0.6);
+  color: white;
+  font-size: 12px;
+  line-height: 1.5;
+`;
+const Code = styled.code`
+  background-color: black;
+  padding: 0 4px;
+  border-radius: 4px;
+`;
+const Keys = styled.p`
+  margin-bottom: 4px;
+`;
+const LastRating = styled.div`
+  display: flex;
+  align-items: flex-start;
+  gap: 8px;
+`;
+const Thumbnail = styled.img`
+  width: 96px;
+  border: 1px solid white;
+`;
+const Score = styled.p`
+  font-size: 24px;
+  font-weight: bold;
+  line-height: 1;
+`;
+const Params = styled.p`
+  font-family: 'Roboto Mono', monospace;
+  opacity: 0.8;
+`;
+const Message = styled.p`
+  margin-top: 4px;
+  color: #ffdc00;
+`;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { FaPlay, FaSortDown, FaSortUp, FaTrash } from 'react-icons/fa';
+import styled from 'styled-components';
+import { UnstyledButton } from '@/styles/mixins';
+import { OrbitParams, Rating } from '@/types/hopalong';
+import { getAttractor } from '@/util/attractors';
+import { Button, IconButton } from './common/Button';
+
+// How many rows are added each time "show more" is pressed
+const PAGE_SIZE = 50;
+
+type SortKey = 'rating' | 'timeRated' | 'visibleFor';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'rating', label: 'Rating' },
+  { key: 'timeRated', label: 'Rated' },
+  { key: 'visibleFor', label: 'Seen for' },
+];
+
+const sortValues: Record<SortKey, (rating: Rating) => number> = {
+  rating: ({ rating }) => rating,
+  timeRated: ({ timeRated }) => timeRated || 0,
+  visibleFor: ({ visibility }) => visibility?.visibleFor || 0,
+};
+
+type PropsType = {
+  ratings: Rating[];
+  onPlay: (params: OrbitParams<number>) => unknown;
+  onDelete: (rating: Rating) => unknown;
+};
+export default function RatingList({ ratings, onPlay, onDelete }: PropsType) {
+  const [sortKey, updateSortKey] = useState<SortKey>('timeRated');
+  const [descending, updateDescending] = useState(true);
+  const [shown, updateShown] = useState(PAGE_SIZE);
+
+  const getValue = sortValues[sortKey];
+  const sorted = [...ratings].sort((a, b) =>
+    descending ? getValue(b) - getValue(a) : getValue(a) - getValue(b)
+  );
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      updateDescending(!descending);
+    } else {
+      updateSortKey(key);
+      updateDescending(true);
+    }
+  };
+
+  return (
+    <Root>
+      <Table>
+        <thead>
+          <tr>
+            <th />
+            {columns.map(({ key, label }) => (
+              <th key={key}>
+                <SortButton onClick={() => sortBy(key)}>
+                  {label}
+                  {key === sortKey && (descending ? <FaSortDown /> : <FaSortUp />)}
+                </SortButton>
+              </th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.slice(0, shown).map((rating, i) => (
+            <tr key={rating.id ?? i}>
+              <td>
+                {rating.thumbnail ? <Thumbnail src={rating.thumbnail} alt="" /> : <NoThumbnail />}
+              </td>
+              <td>
+                <Score>{rating.rating}</Score>
+                <Attractor>{getAttractor(rating.params.attractor).name}</Attractor>
+              </td>
+              <td>{rating.timeRated ? new Date(rating.timeRated).toLocaleString() : '-'}</td>
+              <td>
+                {rating.visibility ? `${(rating.visibility.visibleFor / 1000).toFixed(1)}s` : '-'}
+              </td>
+              <td>
+                <Actions>
+                  <SmallButton title="Play this orbit now" onClick={() => onPlay(rating.params)}>
+                    <FaPlay />
+                  </SmallButton>
+                  <SmallButton title="Delete this rating" onClick={() => onDelete(rating)}>
+                    <FaTrash />
+                  </SmallButton>
+                </Actions>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+      {shown < sorted.length && (
+        <Button fullWidth onClick={() => updateShown(shown + PAGE_SIZE)}>
+          Show more ({sorted.length - shown} left)
+        </Button>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  display: grid;
+  row-gap: 8px;
+`;
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-weight: normal;
+
+  th,
+  td {
+    padding: 4px;
+    text-align: left;
+    vertical-align: middle;
+  }
+  tbody tr:nth-child(odd) {
+    background-color: rgba(255, 255, 255, 0.05);
+  }
+`;
+const SortButton = styled(UnstyledButton)`
+  display: inline-flex;
+  align-items: center;
+  font-weight: bold;
+  cursor: pointer;
+`;
+const Thumbnail = styled.img`
+  display: block;
+  width: 64px;
+`;
+const NoThumbnail = styled.div`
+  width: 64px;
+  height: 36px;
+  border: 1px dashed rgba(255, 255, 255, 0.3);
+`;
+const Score = styled.span`
+  font-size: 18px;
+  font-weight: bold;
+`;
+const Attractor = styled.span`
+  display: block;
+  opacity: 0.7;
+`;
+const Actions = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+const SmallButton = styled(IconButton)`
+  width: 24px;
+  height: 24px;
+  font-size: 12px;
+`;
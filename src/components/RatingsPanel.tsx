@@ -0,0 +1,236 @@
+import React, { FormEvent, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '@/styles/mixins';
+import { OrbitParams, Rating } from '@/types/hopalong';
+import ActiveLearner from '@/util/ActiveLearner';
+import RatingStore, { toDataset, validateDataset } from '@/util/RatingStore';
+import RatingUploader, { UploadStatus, describeUploadStatus } from '@/util/RatingUploader';
+import { attractors, getAttractor } from '@/util/attractors';
+import { downloadJson } from '@/util/download';
+import { useId } from '@/util/hooks';
+import { Box } from './common/Box';
+import { Button } from './common/Button';
+import FileButton from './common/FileButton';
+import Input from './common/Input';
+import Select from './common/Select';
+import { RatingHistogram, RatingScatter } from './RatingCharts';
+import RatingList from './RatingList';
+
+export type RatingsPanelProps = {
+  ratingStore: RatingStore;
+  ratingUploader: RatingUploader;
+  activeLearner: ActiveLearner;
+  /** Changes whenever a rating is added, so the panel knows to reload */
+  ratingCount: number;
+  uploadStatus: UploadStatus;
+  /** Attractor to show the ratings and the active learner's progress for at first */
+  attractor: string;
+  onPlayOrbit: (params: OrbitParams<number>) => unknown;
+};
+export default function RatingsPanel({
+  ratingStore,
+  ratingUploader,
+  activeLearner,
+  ratingCount,
+  uploadStatus,
+  attractor,
+  onPlayOrbit,
+}: RatingsPanelProps) {
+  const [ratings, updateRatings] = useState<Rating[]>([]);
+  const [shownAttractor, updateShownAttractor] = useState(attractor);
+  const [endpoint, updateEndpoint] = useState(ratingUploader.endpoint);
+  const endpointId = useId();
+  const [message, updateMessage] = useState('');
+  const [errors, updateErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    ratingStore.getAll().then(updateRatings);
+  }, [ratingStore, ratingCount]);
+
+  const learnerStats = activeLearner.getStats(shownAttractor);
+  const shownRatings = ratings.filter(
+    ({ params }) => getAttractor(params.attractor).id === shownAttractor
+  );
+  const { params: attractorParams } = getAttractor(shownAttractor);
+
+  const deleteRating = async ({ id }: Rating) => {
+    if (typeof id !== 'undefined') {
+      await ratingStore.remove(id);
+      updateRatings(await ratingStore.getAll());
+    }
+  };
+
+  const exportRatings = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadJson(toDataset(ratings), `ratings-${date}.json`);
+  };
+  const importRatings = async (files: File[]) => {
+    const importErrors: string[] = [];
+    let added = 0;
+    let total = 0;
+    try {
+      for (const file of files) {
+        let data: unknown;
+        try {
+          data = JSON.parse(await file.text());
+        } catch (e) {
+          importErrors.push(`${file.name} is not valid JSON`);
+          continue;
+        }
+        const validation = validateDataset(data);
+        importErrors.push(...validation.errors.map((error) => `${file.name}: ${error}`));
+        total += validation.ratings.length;
+        added += await ratingStore.import(validation.ratings);
+      }
+      updateErrors(importErrors);
+      updateMessage(`Imported ${added} new ratings, ${total - added} were already saved.`);
+      updateRatings(await ratingStore.getAll());
+    } catch (e) {
+      console.error('Unable to import ratings.', e);
+      updateErrors([...importErrors, `Unable to save the ratings, ${added} were imported`]);
+    }
+  };
+
+  const saveEndpoint = (e: FormEvent) => {
+    e.preventDefault();
+    ratingUploader.setEndpoint(endpoint);
+  };
+
+  return (
+    <Root>
+      <Sidebar>
+        <InfoBox>
+          <p>{ratings.length} ratings saved in this browser.</p>
+          <p>Exports use the same format as sandbox/data.json, ready for training.</p>
+          {message && <p>{message}</p>}
+        </InfoBox>
+        <InfoBox>
+          <p>Active learning has seen {learnerStats.ratings} ratings of this attractor.</p>
+          {typeof learnerStats.meanError !== 'undefined' &&
+            typeof learnerStats.baselineError !== 'undefined' && (
+              <p>
+                Its guesses are off by {learnerStats.meanError.toFixed(2)} on average, against{' '}
+                {learnerStats.baselineError.toFixed(2)} for always guessing the average rating.
+              </p>
+            )}
+        </InfoBox>
+        <Button fullWidth onClick={exportRatings} disabled={!ratings.length}>
+          Export ratings
+        </Button>
+        <FileButton accept=".json,application/json" multiple onFiles={importRatings}>
+          Import ratings
+        </FileButton>
+        <EndpointForm onSubmit={saveEndpoint}>
+          <Label htmlFor={endpointId}>Upload endpoint</Label>
+          <EndpointInput
+            id={endpointId}
+            type="url"
+            placeholder="http://localhost:3001/ratings"
+            value={endpoint}
+            onChange={(e) => updateEndpoint(e.currentTarget.value)}
+          />
+          <Button type="submit" disabled={endpoint.trim() === ratingUploader.endpoint}>
+            Save
+          </Button>
+        </EndpointForm>
+        <InfoBox>{describeUploadStatus(uploadStatus)}</InfoBox>
+        {errors.length > 0 && (
+          <InfoBox>
+            <p>Some ratings were left out:</p>
+            <ErrorList>
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ErrorList>
+          </InfoBox>
+        )}
+      </Sidebar>
+      <Dashboard>
+        <Select
+          label="Attractor"
+          value={shownAttractor}
+          options={attractors.map(({ id, name }) => ({ value: id, label: name }))}
+          onChange={updateShownAttractor}
+        />
+        <InfoBox>
+          <Heading>{shownRatings.length} ratings</Heading>
+          <RatingHistogram ratings={shownRatings} />
+        </InfoBox>
+        <InfoBox>
+          <Heading>Params against rating</Heading>
+          <ScatterGrid>
+            {attractorParams.map(({ key, label, min, max }) => (
+              <RatingScatter
+                key={key}
+                ratings={shownRatings}
+                label={label || key}
+                getValue={({ params }) => params[key]}
+                min={min}
+                max={max}
+              />
+            ))}
+            <RatingScatter
+              ratings={shownRatings}
+              label="choice"
+              getValue={({ params }) => params.choice}
+              min={0}
+              max={1}
+            />
+          </ScatterGrid>
+        </InfoBox>
+        <InfoBox>
+          <RatingList ratings={shownRatings} onPlay={onPlayOrbit} onDelete={deleteRating} />
+        </InfoBox>
+      </Dashboard>
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 1200px;
+  display: grid;
+  grid-template-columns: minmax(0, 1fr);
+  gap: 16px;
+
+  @media (min-width: 900px) {
+    grid-template-columns: 320px minmax(0, 1fr);
+    align-items: start;
+  }
+`;
+const Sidebar = styled.div`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr);
+  row-gap: 16px;
+`;
+const Dashboard = styled(Sidebar)``;
+const Heading = styled.h2`
+  margin-bottom: 8px;
+  font-size: 16px;
+`;
+const ScatterGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+  gap: 8px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const ErrorList = styled(UnstyledUl)`
+  max-height: 200px;
+  overflow-y: auto;
+  font-weight: normal;
+`;
+const EndpointForm = styled.form`
+  display: grid;
+  grid-template-columns: 1fr auto;
+  gap: 8px;
+`;
+const Label = styled.label`
+  grid-column: 1 / -1;
+  text-align: center;
+  font-size: 18px;
+`;
+const EndpointInput = styled(Input)`
+  min-width: 0;
+  padding: 4px;
+`;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import Recorder, { RecordingMode, RecordingStatus, recordingSizes } from '@/util/Recorder';
+import { Box } from './common/Box';
+import { Button } from './common/Button';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+const NORMALISE_PERCENT = 100;
+
+const recordingModes: { value: RecordingMode; label: string }[] = [
+  { value: 'realtime', label: 'Real time' },
+  { value: 'offline', label: 'Offline, every frame' },
+];
+const stateLabels = {
+  recording: 'Recording',
+  rendering: 'Rendering',
+  saving: 'Saving',
+};
+
+export type RecordingPanelProps = {
+  recorder: Recorder;
+};
+export default function RecordingPanel({ recorder }: RecordingPanelProps) {
+  const [status, updateStatus] = useState<RecordingStatus>(recorder.state);
+
+  useEffect(() => recorder.subscribe(updateStatus), [recorder]);
+
+  const { state, options, progress, fallback, lastError } = status;
+  const busy = state === 'recording' || state === 'rendering' || state === 'saving';
+
+  return (
+    <Root>
+      <InfoBox>
+        <p>
+          Real time records the tunnel as it plays. Offline steps the animation a frame at a time
+          and encodes every frame however slow the machine is, so it&apos;s best for smooth loops at
+          high resolutions. Videos are saved as WebM.
+        </p>
+        {fallback && (
+          <ErrorMessage>
+            This browser can&apos;t encode frames offline, so they&apos;re being recorded in real
+            time instead.
+          </ErrorMessage>
+        )}
+        {state === 'error' && <ErrorMessage>{lastError}</ErrorMessage>}
+      </InfoBox>
+      {busy ? (
+        <>
+          <p>
+            {stateLabels[state]}: {Math.floor(progress * NORMALISE_PERCENT)}%
+          </p>
+          <ProgressBar>
+            <ProgressFill style={{ width: `${progress * NORMALISE_PERCENT}%` }} />
+          </ProgressBar>
+          <Button fullWidth onClick={recorder.stop} disabled={state === 'saving'}>
+            {options.mode === 'offline' ? 'Cancel' : 'Stop and save'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Select
+            label="Mode"
+            value={options.mode}
+            options={recordingModes}
+            onChange={(mode) => recorder.configure({ mode: mode as RecordingMode })}
+          />
+          <Select
+            label="Resolution"
+            value={options.size}
+            options={recordingSizes.map(({ id, name }) => ({ value: id, label: name }))}
+            onChange={(size) => recorder.configure({ size })}
+          />
+          <Slider
+            min={1}
+            max={120}
+            label="Duration (s)"
+            value={options.duration}
+            onChange={(duration) => recorder.configure({ duration })}
+          />
+          <Slider
+            min={1}
+            max={120}
+            label="Frames per second"
+            value={options.frameRate}
+            onChange={(frameRate) => recorder.configure({ frameRate })}
+          />
+          <Button fullWidth onClick={recorder.start}>
+            Start recording
+          </Button>
+        </>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 320px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const InfoBox = styled(Box)`
+  line-height: 1.5;
+`;
+const ErrorMessage = styled.p`
+  margin-top: 8px;
+  color: #ffdc00;
+`;
+const ProgressBar = styled.div`
+  height: 8px;
+  border: 1px solid var(--overlay-accent, white);
+  border-radius: 4px;
+  overflow: hidden;
+`;
+const ProgressFill = styled.div`
+  height: 100%;
+  background-color: var(--overlay-accent, white);
+`;
@@ -1,26 +1,58 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
 import { UnstyledUl } from '@/styles/mixins';
-import { MenuSettings } from '@/types/hopalong';
+import { ClockMode, MenuSettings, OrbitSchedule, PaletteMode } from '@/types/hopalong';
+import { attractors } from '@/util/attractors';
+import { CUSTOM_PALETTE, getPalette, palettes } from '@/util/palettes';
+import { stillSizes } from '@/util/stills';
+import { CUSTOM_SPRITE, getSprite, readSpriteFile, sprites } from '@/util/textures';
+import { themes } from '@/util/themes';
+import PaletteInput, { PaletteSwatch } from './PaletteInput';
 import { Button } from './common/Button';
 import Checkbox from './common/Checkbox';
 import Dropdown from './common/Dropdown';
+import FileButton from './common/FileButton';
+import Select from './common/Select';
 import Slider from './common/Slider';
 
+const paletteModes: { value: PaletteMode; label: string }[] = [
+  { value: 'subsets', label: 'Per subset' },
+  { value: 'levels', label: 'Gradient across levels' },
+  { value: 'cycle', label: 'Cycling hues' },
+];
+const orbitSchedules: { value: OrbitSchedule; label: string }[] = [
+  { value: 'interval', label: 'Every so often' },
+  { value: 'levelCycle', label: 'Once every level has passed' },
+  { value: 'random', label: 'After a random time' },
+  { value: 'manual', label: 'Only when asked [N]' },
+];
+const clockModes: { value: ClockMode; label: string }[] = [
+  { value: 'realtime', label: 'Real time' },
+  { value: 'fixed', label: 'Fixed step every frame' },
+  { value: 'manual', label: 'Only when stepped [.]' },
+];
+
 export type SettingsPanelProps = {
   settings: MenuSettings;
   onChange: (settings: Partial<MenuSettings>) => unknown;
   onReset: () => unknown;
 };
 export default function SettingsPanel({ settings, onChange, onReset }: SettingsPanelProps) {
-  const NORMALISE_ROTATION_SPEED = 1000;
+  const NORMALISE_ROTATION_SPEED = 180 / Math.PI;
   const NORMALISE_POINTS = 0.001;
+  const NORMALISE_PERCENT = 100;
   const [isAdvancedValues, toggleAdvancedValues] = useState(false);
+  const [spriteError, updateSpriteError] = useState<string>();
   const rotateDir = settings.rotationSpeed < 0;
   const maxValues = {
-    speed: [50, 100],
-    rotationSpeed: [50, 100],
+    speed: [3000, 6000],
+    rotationSpeed: [180, 360],
+    frameRate: [60, 240],
     cameraFov: [120, 180],
+    spriteSize: [20, 50],
+    morphDuration: [3000, 10000],
+    orbitInterval: [20000, 60000],
+    themeRotation: [20, 100],
     points: [50, 100],
     subsetCount: [10, 20],
     levelCount: [10, 20],
@@ -35,16 +67,43 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
   const getRotationSpeed = (s: number, dir: boolean) => {
     return Math.abs(s) * (dir ? -1 : 1);
   };
+  const palette = getPalette(settings.palette, settings.customPalette);
+  const sprite = settings.sprite === CUSTOM_SPRITE ? undefined : getSprite(settings.sprite);
+  const uploadSprite = async ([file]: File[]) => {
+    try {
+      const customSprite = await readSpriteFile(file);
+      updateSpriteError(undefined);
+      updateSetting({ sprite: CUSTOM_SPRITE, customSprite });
+    } catch (e) {
+      updateSpriteError(e.message);
+    }
+  };
 
   return (
     <Root>
       <SettingsList>
+        <ListItem title="Switches the sprite, palette, fog, background and effects together">
+          <Select
+            label="Theme"
+            value={settings.theme}
+            options={themes.map(({ id, name }) => ({ value: id, label: name }))}
+            onChange={(theme) => updateSetting({ theme })}
+          />
+        </ListItem>
+        <ListItem>
+          <Select
+            label="Attractor"
+            value={settings.attractor}
+            options={attractors.map(({ id, name }) => ({ value: id, label: name }))}
+            onChange={(attractor) => updateSetting({ attractor })}
+          />
+        </ListItem>
         <ListItem>
           <Slider
             min={0}
             max={getMaxValues(maxValues.speed)}
-            label="Speed"
-            value={settings.speed}
+            label="Speed (per second)"
+            value={Math.round(settings.speed)}
             onChange={(speed) => updateSetting({ speed })}
           />
         </ListItem>
@@ -52,8 +111,8 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
           <Slider
             min={0}
             max={getMaxValues(maxValues.rotationSpeed)}
-            label="Rotation speed"
-            value={Math.floor(Math.abs(settings.rotationSpeed * NORMALISE_ROTATION_SPEED))}
+            label="Rotation speed (degrees per second)"
+            value={Math.round(Math.abs(settings.rotationSpeed * NORMALISE_ROTATION_SPEED))}
             onChange={(rotationSpeed) =>
               updateSetting({
                 rotationSpeed: getRotationSpeed(
@@ -73,6 +132,25 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
             label="Clockwise rotation"
           />
         </ListItem>
+        <ListItem>
+          <Select
+            label="Timing"
+            value={settings.clockMode}
+            options={clockModes}
+            onChange={(clockMode) => updateSetting({ clockMode: clockMode as ClockMode })}
+          />
+        </ListItem>
+        {settings.clockMode !== 'realtime' && (
+          <ListItem>
+            <Slider
+              min={1}
+              max={getMaxValues(maxValues.frameRate)}
+              label="Steps per second"
+              value={settings.frameRate}
+              onChange={(frameRate) => updateSetting({ frameRate })}
+            />
+          </ListItem>
+        )}
         <ListItem>
           <Slider
             min={0}
@@ -86,6 +164,213 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
             }
           />
         </ListItem>
+        <ListItem>
+          <Select
+            label="Palette"
+            value={palette.id}
+            options={[
+              ...palettes.map(({ id, name }) => ({ value: id, label: name })),
+              { value: CUSTOM_PALETTE, label: 'Custom' },
+            ]}
+            onChange={(id) => updateSetting({ palette: id })}
+          />
+          {palette.colours.length > 0 && <PaletteSwatch colours={palette.colours} />}
+        </ListItem>
+        {palette.id === CUSTOM_PALETTE && (
+          <ListItem>
+            <PaletteInput
+              colours={settings.customPalette}
+              onChange={(customPalette) => updateSetting({ customPalette })}
+            />
+          </ListItem>
+        )}
+        <ListItem>
+          <Select
+            label="Palette mode"
+            value={settings.paletteMode}
+            options={paletteModes}
+            onChange={(paletteMode) => updateSetting({ paletteMode: paletteMode as PaletteMode })}
+          />
+        </ListItem>
+        <ListItem>
+          <Slider
+            min={0}
+            max={100}
+            label="Saturation (%)"
+            value={Math.round(settings.saturation * NORMALISE_PERCENT)}
+            onChange={(saturation) => updateSetting({ saturation: saturation / NORMALISE_PERCENT })}
+          />
+        </ListItem>
+        <ListItem>
+          <Slider
+            min={0}
+            max={100}
+            label="Brightness (%)"
+            value={Math.round(settings.brightness * NORMALISE_PERCENT)}
+            onChange={(brightness) => updateSetting({ brightness: brightness / NORMALISE_PERCENT })}
+          />
+        </ListItem>
+        <ListItem>
+          <Slider
+            min={1}
+            max={getMaxValues(maxValues.spriteSize)}
+            label="Sprite size"
+            value={settings.spriteSize}
+            onChange={(spriteSize) => updateSetting({ spriteSize })}
+          />
+        </ListItem>
+        <ListItem>
+          <Select
+            label="Sprite"
+            value={settings.sprite}
+            options={[
+              ...sprites.map(({ id, name }) => ({ value: id, label: name })),
+              ...(settings.customSprite ? [{ value: CUSTOM_SPRITE, label: 'Uploaded image' }] : []),
+            ]}
+            onChange={(sprite) => updateSetting({ sprite })}
+          />
+        </ListItem>
+        {sprite && 'shape' in sprite && (
+          <>
+            <ListItem>
+              <Slider
+                min={1}
+                max={NORMALISE_PERCENT}
+                label="Shape size (%)"
+                value={Math.round(settings.spriteParams.size * NORMALISE_PERCENT)}
+                onChange={(size) =>
+                  updateSetting({
+                    spriteParams: { ...settings.spriteParams, size: size / NORMALISE_PERCENT },
+                  })
+                }
+              />
+            </ListItem>
+            <ListItem>
+              <Slider
+                min={0}
+                max={NORMALISE_PERCENT}
+                label="Shape falloff (%)"
+                value={Math.round(settings.spriteParams.falloff * NORMALISE_PERCENT)}
+                onChange={(falloff) =>
+                  updateSetting({
+                    spriteParams: {
+                      ...settings.spriteParams,
+                      falloff: falloff / NORMALISE_PERCENT,
+                    },
+                  })
+                }
+              />
+            </ListItem>
+          </>
+        )}
+        <ListItem>
+          <FileButton accept="image/*" onFiles={uploadSprite}>
+            Upload sprite image
+          </FileButton>
+          {spriteError && <ErrorMessage>{spriteError}</ErrorMessage>}
+        </ListItem>
+        <ListItem title="Uses the rating model to pick orbits people are likely to enjoy">
+          <Checkbox
+            checked={!!settings.vibeCheck}
+            onChange={(vibeCheck) => updateSetting({ vibeCheck })}
+            label="Vibe check"
+          />
+        </ListItem>
+        <ListItem title="Shows the orbits the model is least sure about, so each rating teaches it the most">
+          <Checkbox
+            checked={settings.activeLearning}
+            onChange={(activeLearning) => updateSetting({ activeLearning })}
+            label="Active learning"
+          />
+        </ListItem>
+        <ListItem title="Morphs between orbits instead of switching as each level passes">
+          <Checkbox
+            checked={settings.morph}
+            onChange={(morph) => updateSetting({ morph })}
+            label="Morph orbits"
+          />
+        </ListItem>
+        {settings.morph && (
+          <ListItem>
+            <Slider
+              min={0}
+              max={getMaxValues(maxValues.morphDuration)}
+              label="Morph duration (ms)"
+              value={settings.morphDuration}
+              onChange={(morphDuration) => updateSetting({ morphDuration })}
+            />
+          </ListItem>
+        )}
+        <ListItem>
+          <Select
+            label="Orbit changes"
+            value={settings.orbitSchedule}
+            options={orbitSchedules}
+            onChange={(orbitSchedule) =>
+              updateSetting({ orbitSchedule: orbitSchedule as OrbitSchedule })
+            }
+          />
+        </ListItem>
+        {settings.orbitSchedule === 'interval' && (
+          <ListItem>
+            <Slider
+              min={500}
+              max={getMaxValues(maxValues.orbitInterval)}
+              label="Orbit interval (ms)"
+              value={settings.orbitInterval}
+              onChange={(orbitInterval) => updateSetting({ orbitInterval })}
+            />
+          </ListItem>
+        )}
+        {settings.orbitSchedule === 'random' && (
+          <>
+            <ListItem>
+              <Slider
+                min={500}
+                max={getMaxValues(maxValues.orbitInterval)}
+                label="Shortest interval (ms)"
+                value={settings.orbitIntervalMin}
+                onChange={(orbitIntervalMin) =>
+                  updateSetting({
+                    orbitIntervalMin,
+                    orbitIntervalMax: Math.max(orbitIntervalMin, settings.orbitIntervalMax),
+                  })
+                }
+              />
+            </ListItem>
+            <ListItem>
+              <Slider
+                min={500}
+                max={getMaxValues(maxValues.orbitInterval)}
+                label="Longest interval (ms)"
+                value={settings.orbitIntervalMax}
+                onChange={(orbitIntervalMax) =>
+                  updateSetting({
+                    orbitIntervalMin: Math.min(orbitIntervalMax, settings.orbitIntervalMin),
+                    orbitIntervalMax,
+                  })
+                }
+              />
+            </ListItem>
+          </>
+        )}
+        <ListItem>
+          <Slider
+            min={0}
+            max={getMaxValues(maxValues.themeRotation)}
+            label="Orbits per theme (0 to stay on one)"
+            value={settings.themeRotation}
+            onChange={(themeRotation) => updateSetting({ themeRotation })}
+          />
+        </ListItem>
+        <ListItem>
+          <Select
+            label="Still size [K]"
+            value={settings.stillSize}
+            options={stillSizes.map(({ id, name }) => ({ value: id, label: name }))}
+            onChange={(stillSize) => updateSetting({ stillSize })}
+          />
+        </ListItem>
       </SettingsList>
       <Button fullWidth onClick={onReset}>
         Reset Defaults
@@ -152,3 +437,7 @@ const SettingsList = styled(UnstyledUl)`
   row-gap: 16px;
 `;
 const ListItem = styled.li``;
+const ErrorMessage = styled.p`
+  margin-top: 8px;
+  color: #ffdc00;
+`;
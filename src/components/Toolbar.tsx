@@ -1,43 +1,77 @@
 import React, { useContext } from 'react';
 import {
   FaBars,
+  FaCamera,
   FaChartArea,
+  FaCloudUploadAlt,
   FaCompressArrowsAlt,
   FaCrosshairs,
   FaExpandArrowsAlt,
+  FaForward,
   FaLock,
   FaLockOpen,
   FaPause,
   FaPlay,
+  FaRegPauseCircle,
+  FaStar,
+  FaStepBackward,
+  FaStepForward,
   FaTimes,
 } from 'react-icons/fa';
 import styled from 'styled-components';
 import { IconButton } from './common/Button';
 import { classes } from '@/styles/utils';
 import { useForceUpdate } from '@/util/hooks';
+import { UploadStatus, describeUploadStatus } from '@/util/RatingUploader';
 import { RatingContext } from '@/components/App';
 
 type PropsType = {
   menuOpen: boolean;
   statsOpen: boolean;
   mouseLocked: boolean;
+  ratingMode: boolean;
+  paused: boolean;
   isPlaying: boolean;
+  savingStill: boolean;
+  /** Why the last still couldn't be saved or restored, if it couldn't */
+  stillError?: string;
+  uploadStatus: UploadStatus;
+  /** Name of the track in the music player, if one is loaded */
+  nowPlaying?: string;
   onCenter: () => unknown;
   updateMenuOpen: () => unknown;
   updateStatsOpen: () => unknown;
   updateMouseLocked: () => unknown;
+  updateRatingMode: () => unknown;
+  updatePaused: () => unknown;
   updateIsPlaying: () => unknown;
+  onNextOrbit: () => unknown;
+  onSaveStill: () => unknown;
+  onPreviousTrack: () => unknown;
+  onNextTrack: () => unknown;
 };
 export default function Toolbar({
   menuOpen,
   statsOpen,
   mouseLocked,
+  ratingMode,
+  paused,
   isPlaying,
+  savingStill,
+  stillError,
+  uploadStatus,
+  nowPlaying,
   onCenter,
   updateMenuOpen,
   updateStatsOpen,
   updateMouseLocked,
+  updateRatingMode,
+  updatePaused,
   updateIsPlaying,
+  onNextOrbit,
+  onSaveStill,
+  onPreviousTrack,
+  onNextTrack,
 }: PropsType) {
   const ratingContext = useContext(RatingContext);
 
@@ -55,17 +89,6 @@ export default function Toolbar({
   return (
     <nav>
       <NavList>
-        <ListItem>
-          {[...Array(10).keys()].map((i) => (
-            <IconButton
-              className="w-64 bg-white"
-              key={i}
-              onClick={() => ratingContext.addRating(i)}
-            >
-              {i}
-            </IconButton>
-          ))}
-        </ListItem>
         <ListItem>
           <IconButton className={classes({ active: menuOpen })} onClick={updateMenuOpen}>
             {menuOpen ? <FaTimes /> : <FaBars />}
@@ -86,6 +109,41 @@ export default function Toolbar({
             {isPlaying ? <FaPause /> : <FaPlay />}
           </IconButton>
         </ListItem>
+        {nowPlaying && (
+          <NowPlaying>
+            <IconButton title="Previous track" onClick={onPreviousTrack}>
+              <FaStepBackward />
+            </IconButton>
+            <TrackName title={nowPlaying}>{nowPlaying}</TrackName>
+            <IconButton title="Next track" onClick={onNextTrack}>
+              <FaStepForward />
+            </IconButton>
+          </NowPlaying>
+        )}
+        <ListItem>
+          <IconButton
+            className={classes({ active: paused })}
+            title="Pause the orbits [P]"
+            onClick={updatePaused}
+          >
+            <FaRegPauseCircle />
+          </IconButton>
+        </ListItem>
+        <ListItem>
+          <IconButton title="Next orbit [N]" onClick={onNextOrbit}>
+            <FaForward />
+          </IconButton>
+        </ListItem>
+        <ListItem>
+          <IconButton
+            className={classes({ active: savingStill })}
+            title="Save a still [K]"
+            onClick={onSaveStill}
+          >
+            <FaCamera />
+          </IconButton>
+        </ListItem>
+        {stillError && <StillError title={stillError}>{stillError}</StillError>}
         <ListItem>
           <IconButton onClick={onCenter}>
             <FaCrosshairs />
@@ -104,6 +162,39 @@ export default function Toolbar({
             <FaChartArea />
           </IconButton>
         </ListItem>
+        <ListItem>
+          <IconButton
+            className={classes({ active: ratingMode })}
+            title="Rating mode [V]"
+            onClick={updateRatingMode}
+          >
+            <FaStar />
+          </IconButton>
+        </ListItem>
+        {ratingMode && (
+          <RatingButtons>
+            {[...Array(10).keys()].map((i) => (
+              <RatingButton
+                key={i}
+                title={`Rate ${i} [${i}]`}
+                onClick={() => ratingContext.addRating(i)}
+              >
+                {i}
+              </RatingButton>
+            ))}
+          </RatingButtons>
+        )}
+        {uploadStatus.state !== 'disabled' && (
+          <ListItem>
+            <UploadIndicator
+              className={uploadStatus.state}
+              title={describeUploadStatus(uploadStatus)}
+            >
+              <FaCloudUploadAlt />
+              {uploadStatus.queued > 0 && <QueueCount>{uploadStatus.queued}</QueueCount>}
+            </UploadIndicator>
+          </ListItem>
+        )}
       </NavList>
     </nav>
   );
@@ -120,3 +211,66 @@ const ListItem = styled.li`
     margin-left: 8px;
   }
 `;
+const NowPlaying = styled(ListItem)`
+  display: flex;
+  align-items: center;
+`;
+const TrackName = styled.span`
+  max-width: 200px;
+  margin: 0 8px;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  color: white;
+  font-size: 14px;
+`;
+const StillError = styled(ListItem)`
+  align-self: center;
+  max-width: 300px;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  color: #ffdc00;
+  font-size: 14px;
+`;
+const RatingButtons = styled(ListItem)`
+  display: flex;
+`;
+const RatingButton = styled(IconButton)`
+  width: 24px;
+  font-size: 14px;
+  border-radius: 0;
+`;
+const UploadIndicator = styled.div`
+  position: relative;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 32px;
+  height: 32px;
+  font-size: 24px;
+  color: white;
+
+  &.uploading {
+    color: #7fdbff;
+  }
+  &.offline {
+    opacity: 0.5;
+  }
+  &.error {
+    color: #ff4136;
+  }
+`;
+const QueueCount = styled.span`
+  position: absolute;
+  right: -4px;
+  bottom: -4px;
+  min-width: 16px;
+  padding: 0 2px;
+  border-radius: 8px;
+  font-size: 11px;
+  line-height: 16px;
+  text-align: center;
+  background-color: white;
+  color: black;
+`;
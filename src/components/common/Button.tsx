@@ -7,7 +7,7 @@ export const Button = styled(UnstyledButton).attrs(({ type }) => ({
   display: flex;
   align-items: center;
   justify-content: center;
-  border: 1px solid white;
+  border: 1px solid var(--overlay-accent, white);
   border-radius: 4px;
   padding: 8px 16px;
   font-size: 16px;
@@ -21,7 +21,7 @@ export const Button = styled(UnstyledButton).attrs(({ type }) => ({
 
   &:hover:not(:focus),
   &.active {
-    background-color: white;
+    background-color: var(--overlay-accent, white);
     color: black;
   }
 
@@ -1,4 +1,4 @@
-import React, { FunctionComponent, useState } from 'react';
+import React, { FunctionComponent, PropsWithChildren, useState } from 'react';
 import { FaChevronRight } from 'react-icons/fa';
 import styled from 'styled-components';
 import { motion } from 'framer-motion';
@@ -7,7 +7,7 @@ import { classes } from '@/styles/utils';
 type PropsType = {
   header: string;
 };
-const Dropdown: FunctionComponent<PropsType> = ({ header, children }) => {
+const Dropdown: FunctionComponent<PropsWithChildren<PropsType>> = ({ header, children }) => {
   const [open, updateOpen] = useState(false);
   return (
     <div>
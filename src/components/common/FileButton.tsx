@@ -0,0 +1,56 @@
+import React, { ChangeEvent, FunctionComponent, PropsWithChildren } from 'react';
+import styled from 'styled-components';
+import { useId } from '@/util/hooks';
+
+type PropsType = {
+  /** File types to accept, as for <input type="file"> */
+  accept?: string;
+  multiple?: boolean;
+  onFiles: (files: File[]) => unknown;
+};
+/**
+ * A button which opens the file picker
+ */
+const FileButton: FunctionComponent<PropsWithChildren<PropsType>> = ({
+  accept,
+  multiple,
+  onFiles,
+  children,
+}) => {
+  const id = useId();
+  const doChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.currentTarget.files || []);
+    // Reset so picking the same file again still fires a change
+    e.currentTarget.value = '';
+    if (files.length) {
+      onFiles(files);
+    }
+  };
+  return (
+    <>
+      <Label htmlFor={id}>{children}</Label>
+      <HiddenInput id={id} type="file" accept={accept} multiple={multiple} onChange={doChange} />
+    </>
+  );
+};
+export default FileButton;
+
+const Label = styled.label`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  border: 1px solid white;
+  border-radius: 4px;
+  padding: 8px 16px;
+  font-size: 16px;
+  color: white;
+  cursor: pointer;
+
+  &:hover {
+    background-color: white;
+    color: black;
+  }
+`;
+const HiddenInput = styled.input`
+  display: none;
+`;
@@ -0,0 +1,51 @@
+import React, { ChangeEvent } from 'react';
+import styled from 'styled-components';
+import { useId } from '@/util/hooks';
+
+type Option = {
+  value: string;
+  label: string;
+};
+type PropsType = {
+  value: string;
+  options: Option[];
+  label: string;
+  onChange: (value: string) => unknown;
+};
+export default function Select({ value, options, label, onChange }: PropsType) {
+  const id = useId();
+  const doChange = (e: ChangeEvent<HTMLSelectElement>) => onChange(e.currentTarget.value);
+  return (
+    <Root>
+      <Label htmlFor={id}>{label}</Label>
+      <SelectInput id={id} value={value} onChange={doChange}>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </SelectInput>
+    </Root>
+  );
+}
+const Root = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+`;
+const Label = styled.label`
+  text-align: center;
+  color: white;
+  font-size: 18px;
+  margin-bottom: 8px;
+`;
+const SelectInput = styled.select`
+  width: 100%;
+  padding: 4px;
+  color: white;
+  background-color: black;
+  border: 2px solid white;
+  outline: none;
+  border-radius: 4px;
+  font-family: 'Roboto Mono', monospace;
+`;
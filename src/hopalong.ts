@@ -3,79 +3,138 @@
  * Updated by Sam Leatherdale
  */
 import autoBind from 'auto-bind';
-import best_frames from '@/util/best_frames.json';
+import { isUndefined, omitBy, pick } from 'lodash';
 import {
   AdditiveBlending,
+  BufferGeometry,
   FogExp2,
-  Geometry,
   PerspectiveCamera,
   Points,
   PointsMaterial,
   Scene,
   Texture,
-  Vector3,
   WebGLRenderer,
 } from 'three';
 import {
   AdvancedSettings,
+  Attractor,
   Orbit,
   OrbitParams,
+  PaletteMode,
   ParticleSet,
+  PlaylistEntry,
+  PlaylistMode,
   Settings,
   SimpleSettings,
-  SubsetPoint,
+  SpriteParams,
+  StillMetadata,
+  ViewedOrbit,
 } from './types/hopalong';
-import { hsvToHsl } from './util/color';
+import AnimationClock, { ClockOptions } from './util/AnimationClock';
+import CameraController, { CAMERA_MODES, CameraOptions } from './util/CameraController';
+import EffectPipeline, { defaultEffects } from './util/EffectPipeline';
+import OrbitGenerator from './util/OrbitGenerator';
+import OrbitScheduler, { SchedulerOptions } from './util/OrbitScheduler';
+import PlaylistPlayer from './util/PlaylistPlayer';
+import RatingModel from './util/RatingModel';
+import SubsetBuffer from './util/SubsetBuffer';
+import ActiveLearner from './util/ActiveLearner';
+import { getAttractor, randomParams } from './util/attractors';
+import { Hsv, hsvToHsl } from './util/color';
+import { canMorph, easeMorph, lerpColours, lerpParams } from './util/morph';
+import { findNearestSet } from './util/nearest';
+import { OrbitRequest, SCALE_FACTOR, computeOrbit } from './util/orbit';
+import {
+  DEFAULT_THRESHOLDS,
+  QualityStats,
+  QualityThresholds,
+  checkOrbit,
+  createQualityStats,
+  measureOrbit,
+} from './util/orbitQuality';
+import {
+  CUSTOM_PALETTE,
+  createColours,
+  getCycleOffset,
+  getPalette,
+  loadCustomPalette,
+  saveCustomPalette,
+} from './util/palettes';
+import { bestFramesPlaylist, getPlaylist } from './util/playlists';
+import { Random, RandomStream, createRandom, randomSeed } from './util/random';
+import { loadCameraPath, saveCameraPath } from './util/cameraPaths';
+import { downloadBlob } from './util/download';
+import {
+  STILL_SETTINGS,
+  STILL_VERSION,
+  encodeStill,
+  getOutputSize,
+  readStill,
+  stillSizes,
+} from './util/stills';
+import { getSpriteTexture, loadCustomSprite, saveCustomSprite } from './util/textures';
+import { getNextTheme, getTheme } from './util/themes';
 
 import defaults from './util/defaults';
 
-const SCALE_FACTOR = 1500;
-const CAMERA_BOUND = 200;
-
 // how long the level is (in frames)
 const LEVEL_DEPTH = 600;
 
-// Orbit parameters constraints
-const constraints = {
-  a: {
-    min: -30,
-    max: 30,
-  },
-  b: {
-    min: 0.2,
-    max: 1.8,
-  },
-  c: {
-    min: 5,
-    max: 17,
-  },
-  d: {
-    min: 0,
-    max: 10,
-  },
-  e: {
-    min: 0,
-    max: 12,
-  },
-};
+// Posting this to the window moves on to the next orbit, e.g. from a parent frame or a script
+// driving the visuals: `postMessage({ type: 'hopalong:next-orbit' }, '*')`
+export const NEXT_ORBIT_MESSAGE = 'hopalong:next-orbit';
+
+// How long an error saving or restoring a still stays on the toolbar (in ms)
+const STILL_ERROR_TIME = 5000;
 
-type ParamsContainer = {
+// How many random orbits the rating model scores at once in vibe check mode
+const VIBE_CANDIDATES = 256;
+// How many of the best scoring orbits from each batch are played
+const VIBE_TOP = 8;
+// How many random orbits the active learner picks between. Fewer than for vibe check, otherwise
+// the most uncertain orbits all come from the edges of the param ranges
+const LEARNING_CANDIDATES = 32;
+
+type LevelView = {
+  /** The params of the orbit the particle set is showing, used to label ratings */
   params: OrbitParams<number>;
+  /** When the particle set started showing them, in ms of clock time */
+  shownAt: number;
+  /** Colour before the saturation, brightness and hue cycling are applied */
+  colour: Hsv;
 };
 
-type HopalongParticleSet = ParticleSet<Geometry, PointsMaterial> & ParamsContainer;
+type HopalongParticleSet = ParticleSet<BufferGeometry, PointsMaterial> & LevelView;
+
+type Morph = {
+  from: OrbitParams<number>;
+  to: OrbitParams<number>;
+  fromColours: Hsv[][];
+  toColours: Hsv[][];
+  startTime: number;
+  /** How far through the morph the last requested orbit was, from 0 to 1 */
+  progress: number;
+};
 
 type ConstructorProps = {
   advancedSettings: Partial<AdvancedSettings>;
   canvas: HTMLCanvasElement;
-  texture: Texture;
   stats: Stats;
+  useWorkers: boolean;
+  /** Seed for the sequence of orbits, random if not given */
+  seed?: number;
+  ratingModel?: RatingModel;
+  activeLearner?: ActiveLearner;
   onSettingsUpdate: (settings: Settings) => unknown;
+  /** Called with 0-9 when a number key is pressed in rating mode */
+  onRate?: (rating: number) => unknown;
+  onUndoRating?: () => unknown;
 };
 
 export default class Hopalong {
   // Orbit parameters
   orbitParams: OrbitParams<number> = {
+    attractor: defaults.attractor,
     a: 0,
     b: 0,
     c: 0,
@@ -88,95 +147,175 @@ export default class Hopalong {
   };
 
   orbitParamHistory: OrbitParams<number>[] = [];
-  getCurrentOrbitParams() {
-    const latest = this.particleSets.sort((a, b) => {
-      if (!a.params.timeCreated || !b.params.timeCreated) {
-        return -1;
-      }
-      return a.params.timeCreated < b.params.timeCreated ? 1 : -1;
-    });
-    return latest[latest.length - 1].params;
-  }
-
-  currentFrame = 0;
+  /** Params to show next instead of picking new ones, see playOrbit */
+  nextOrbitParams?: OrbitParams<number>;
+  qualityThresholds: QualityThresholds = { ...DEFAULT_THRESHOLDS };
+  /** Counts of accepted and rejected candidate orbits, handy from `window.hopalong` */
+  qualityStats: QualityStats = createQualityStats();
+  /** The particle set closest in front of the camera, which is what fills the screen */
+  nearestSet?: HopalongParticleSet;
+  /** When the nearest set's level became the nearest one, in ms of clock time */
+  nearestSince = 0;
+
+  seed: number;
+  /** Picks the seed of each new orbit */
+  random: Random;
+  /** Picks how long each orbit is shown for with the random schedule */
+  scheduleRandom: Random;
+  /** Picks the points the camera's autopilot flies through */
+  cameraRandom: Random;
   texture: Texture;
   camera: PerspectiveCamera;
+  /** Moves the camera in the chosen mode */
+  cameraController: CameraController;
   scene: Scene;
+  fog: FogExp2;
   renderer: WebGLRenderer;
+  /** Draws the scene through the post-processing effects */
+  effectPipeline: EffectPipeline;
   stats: Stats;
   vibeCheck: boolean;
+  ratingModel?: RatingModel;
+  activeLearning: boolean = defaults.active_learning;
+  /** Learns from ratings as they're made, see pickUncertainParams */
+  activeLearner?: ActiveLearner;
+  /** Best scoring candidates from the last batch, played in order in vibe check mode */
+  vibeQueue: OrbitParams<number>[] = [];
+  /** Walks the saved best frames in vibe check mode when there is no rating model */
+  bestFramesPlayer?: PlaylistPlayer;
+  playlistPlayer?: PlaylistPlayer;
+  playlistMode: PlaylistMode = defaults.playlist_mode;
+  /** Decides when to move on to the next orbit */
+  scheduler: OrbitScheduler;
+  attractor: Attractor = getAttractor(defaults.attractor);
   onSettingsUpdate: (settings: SimpleSettings) => unknown;
-
-  hueValues: number[] = [];
+  onRate?: (rating: number) => unknown;
+  onUndoRating?: () => unknown;
+
+  /** Colour of each subset of each level for the current orbit, see createColours */
+  colours: Hsv[][] = [];
+  palette = defaults.palette;
+  paletteMode: PaletteMode = defaults.palette_mode;
+  customPalette = loadCustomPalette();
+  saturation = defaults.saturation;
+  brightness = defaults.brightness;
+  spriteSize = defaults.sprite_size;
+  sprite = defaults.sprite;
+  spriteParams: SpriteParams = { ...defaults.sprite_params };
+  customSprite = loadCustomSprite();
+  hueShift = defaults.hue_shift;
+  /** Id of the theme last switched to, see setTheme */
+  theme = defaults.theme;
+  stillSize = defaults.still_size;
+  savingStill = false;
+  stillError?: string;
+  stillErrorTimeout?: number;
 
   mouseX = 0;
   mouseY = 0;
   mouseLocked = false;
+  ratingMode = false;
+  paused = false;
+  /** Set while a still's settings are applied, so they don't move on to a new orbit */
+  holdingOrbit = false;
+  /** Whether the animation loop stops drawing, while something else steps the frames */
+  suspended = false;
+  /** Moves everything on by real time, a fixed step each frame, or only when stepped */
+  clock = new AnimationClock({ mode: defaults.clock_mode, frameRate: defaults.frame_rate });
 
   windowHalfX = window.innerWidth / 2;
   windowHalfY = window.innerHeight / 2;
 
   speed = defaults.speed;
-  speedDelta = 0.5;
+  speedDelta = 30;
   rotationSpeed = defaults.rotation_speed;
-  rotationSpeedDelta = 0.001;
+  rotationSpeedDelta = 0.06;
+
+  morph = defaults.morph;
+  morphDuration = defaults.morph_duration;
+  /** The morph currently in progress, if any */
+  activeMorph?: Morph;
 
   numPointsSubset = defaults.points_subset;
   numSubsets = defaults.subsets;
   numLevels = defaults.levels;
 
   // Orbit data
-  orbit: Orbit<number> = {
-    subsets: [],
-    xMin: 0,
-    xMax: 0,
-    yMin: 0,
-    yMax: 0,
-    scaleX: 0,
-    scaleY: 0,
-  };
+  orbit: Orbit<number>;
+  subsetBuffers: SubsetBuffer[] = [];
+  orbitGenerator: OrbitGenerator;
+  /** Whether an orbit is currently being generated */
+  orbitPending = false;
+  /** Whether another orbit was requested while one was being generated */
+  orbitQueued = false;
+  /** Counts orbit requests, so an orbit that was asked for before a cancel is ignored */
+  orbitRequestId = 0;
   particleSets: HopalongParticleSet[] = [];
-  updateIntervalKey: number;
   destroyed = false;
-
-  constructor({ advancedSettings, canvas, texture, stats, onSettingsUpdate }: ConstructorProps) {
+  /** Size in px to draw at instead of the window's, shown scaled to fit. Set while recording */
+  outputSize?: { width: number; height: number };
+  /** Called with the delta after each frame is drawn, see onFrame */
+  frameListeners = new Set<(delta: number) => unknown>();
+
+  constructor({
+    advancedSettings,
+    canvas,
+    stats,
+    useWorkers,
+    seed,
+    ratingModel,
+    activeLearner,
+    onSettingsUpdate,
+    onRate,
+    onUndoRating,
+  }: ConstructorProps) {
     autoBind(this);
 
     const { subsetCount, levelCount, pointsPerSubset } = advancedSettings;
     this.numSubsets = subsetCount || defaults.subsets;
     this.numLevels = levelCount || defaults.levels;
     this.numPointsSubset = pointsPerSubset || defaults.points_subset;
-    this.texture = texture;
     this.stats = stats;
     this.vibeCheck = true;
-    this.initOrbit();
+    this.ratingModel = ratingModel;
+    this.activeLearner = activeLearner;
+    this.setSeed(typeof seed === 'undefined' ? randomSeed() : seed);
+    this.scheduler = new OrbitScheduler(
+      {
+        schedule: defaults.orbit_schedule,
+        interval: defaults.orbit_interval,
+        intervalMin: defaults.orbit_interval_min,
+        intervalMax: defaults.orbit_interval_max,
+        themeEvery: defaults.theme_rotation,
+      },
+      this.numLevels,
+      this.updateOrbit,
+      this.nextTheme,
+      () => this.scheduleRandom()
+    );
+    this.orbitGenerator = new OrbitGenerator(useWorkers);
     this.init(canvas);
     this.animate();
     this.onSettingsUpdate = onSettingsUpdate;
+    this.onRate = onRate;
+    this.onUndoRating = onUndoRating;
     this.fireSettingsChange();
   }
 
   destroy() {
-    window.clearInterval(this.updateIntervalKey);
+    window.clearTimeout(this.stillErrorTimeout);
+    this.scheduler.stop();
+    this.removeEventListeners();
+    this.orbitGenerator.destroy();
+    for (const { particles, myMaterial } of this.particleSets) {
+      particles.geometry.dispose();
+      myMaterial.dispose();
+    }
+    this.effectPipeline.dispose();
     this.renderer.dispose();
     this.destroyed = true;
   }
 
-  initOrbit() {
-    // Initialize data points
-    for (let i = 0; i < this.numSubsets; i++) {
-      const subsetPoints: SubsetPoint[] = [];
-      for (let j = 0; j < this.numPointsSubset; j++) {
-        subsetPoints[j] = {
-          x: 0,
-          y: 0,
-          vertex: new Vector3(0, 0, 0),
-        };
-      }
-      this.orbit.subsets.push(subsetPoints);
-    }
-  }
-
   init(canvas: HTMLCanvasElement) {
     // Setup renderer and effects
     this.renderer = new WebGLRenderer({
@@ -196,12 +335,31 @@ export default class Hopalong {
       3 * SCALE_FACTOR
     );
     this.camera.position.set(0, 0, SCALE_FACTOR / 2);
+    this.cameraController = new CameraController(
+      this.camera,
+      {
+        mode: defaults.camera_mode,
+        bound: defaults.camera_bound,
+        easing: defaults.camera_easing,
+        roll: defaults.camera_roll,
+        path: loadCameraPath(),
+      },
+      () => this.cameraRandom()
+    );
 
     this.scene = new Scene();
-    this.scene.fog = new FogExp2(0x000000, 0.001);
+    this.fog = new FogExp2(0x000000, 0.001);
+    this.scene.fog = this.fog;
+    this.texture = getSpriteTexture(this.sprite, this.spriteParams, this.customSprite);
+    this.effectPipeline = new EffectPipeline(this.renderer, this.scene, this.camera);
+
+    // The first orbit is generated up front so there is something to look at straight away
+    this.shuffleParams();
+    this.applyOrbit(computeOrbit(this.getOrbitRequest()));
 
-    this.generateOrbit();
-    this.generateHues();
+    for (let s = 0; s < this.numSubsets; s++) {
+      this.subsetBuffers.push(new SubsetBuffer(this.orbit.subsets[s], this.numLevels));
+    }
 
     /**
      * The way this works is that it creates all the "frames" of the "level" at the start,
@@ -209,26 +367,23 @@ export default class Hopalong {
      */
     for (let k = 0; k < this.numLevels; k++) {
       for (let s = 0; s < this.numSubsets; s++) {
-        const geometry = new Geometry();
-        for (let i = 0; i < this.numPointsSubset; i++) {
-          geometry.vertices.push(this.orbit.subsets[s][i].vertex);
-        }
+        const geometry = new BufferGeometry();
+        geometry.setAttribute('position', this.subsetBuffers[s].attribute);
+        geometry.setDrawRange(k * this.numPointsSubset, this.numPointsSubset);
 
         // Updating from ParticleSystem to points
         // https://github.com/mrdoob/three.js/issues/4065
         const materials = new PointsMaterial({
-          size: defaults.sprite_size,
+          size: this.spriteSize,
           map: this.texture,
           blending: AdditiveBlending,
           depthTest: false,
           transparent: false,
         });
 
-        materials.color.setHSL(
-          ...hsvToHsl(this.hueValues[s], defaults.saturation, defaults.brightness)
-        );
-
         const particles = new Points(geometry, materials);
+        // The bounding sphere covers the whole shared buffer and goes stale as orbits change
+        particles.frustumCulled = false;
         particles.position.x = 0;
         particles.position.y = 0;
         particles.position.z =
@@ -240,8 +395,11 @@ export default class Hopalong {
           mySubset: s,
           needsUpdate: false,
           particles,
-          params: this.orbitParams, // Params are only here to identify the particle set for the vibe rating
+          params: this.orbit.params,
+          shownAt: this.clock.time,
+          colour: this.colours[k][s],
         };
+        this.updateSetColour(particleSet);
 
         this.scene.add(particles);
         this.particleSets.push(particleSet);
@@ -250,10 +408,201 @@ export default class Hopalong {
 
     this.addEventListeners();
     this.onWindowResize();
+  }
 
-    // Schedule orbit regeneration
-    // TODO: maybe make this a little more sophisticated
-    this.updateIntervalKey = window.setInterval(this.updateOrbit, 3000);
+  /**
+   * Moves on to the next orbit without waiting for the current one's time to run out, and
+   * starts timing the new one afresh
+   */
+  skipOrbit() {
+    if (!this.holdingOrbit) {
+      this.scheduler.trigger();
+    }
+  }
+
+  /**
+   * Draws the current frame into a small JPEG, returned as a data URL
+   */
+  captureThumbnail(width = 160): string | undefined {
+    const source = this.renderer.domElement;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round((width * source.height) / source.width);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return undefined;
+    }
+    // The drawing buffer is cleared after it's shown, so render again to be sure it has the frame
+    this.effectPipeline.render(0);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  }
+
+  /**
+   * Draws the current frame offscreen at the given size in px, with the current camera and
+   * effects. The renderer is resized for the one frame, so the points and effects scale with it
+   */
+  captureStill(width: number, height: number): HTMLCanvasElement {
+    const { renderer, camera } = this;
+    const gl = renderer.getContext();
+    const maxSize = Math.min(
+      renderer.capabilities.maxTextureSize,
+      ...gl.getParameter(gl.MAX_VIEWPORT_DIMS)
+    );
+    if (width > maxSize || height > maxSize) {
+      throw new Error(`This graphics card can only save stills up to ${maxSize} px across`);
+    }
+    const pixelRatio = renderer.getPixelRatio();
+    try {
+      renderer.setSize(width / pixelRatio, height / pixelRatio, false);
+      this.effectPipeline.setSize(width / pixelRatio, height / pixelRatio);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      if (gl.drawingBufferWidth < width || gl.drawingBufferHeight < height) {
+        throw new Error('Not enough graphics memory to save a still this big');
+      }
+      this.effectPipeline.render(0);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Unable to draw the still');
+      }
+      context.drawImage(renderer.domElement, 0, 0, width, height);
+      return canvas;
+    } finally {
+      this.onWindowResize();
+    }
+  }
+
+  /**
+   * Everything needed to draw the current frame again, see applyStill
+   */
+  getStillMetadata(): StillMetadata {
+    const { x, y } = this.camera.position;
+    return {
+      version: STILL_VERSION,
+      params: this.getViewedOrbit().params,
+      seed: this.seed,
+      time: this.clock.time,
+      settings: pick(this.getSettings(), STILL_SETTINGS),
+      camera: { x, y, roll: this.cameraController.roll },
+      levels: this.particleSets.map(({ particles, params, colour }) => ({
+        z: particles.position.z,
+        rotation: particles.rotation.z,
+        params,
+        colour,
+      })),
+    };
+  }
+
+  /**
+   * Saves the current frame as a PNG at the chosen still size, with the frame kept in it so
+   * dropping it back on the page restores it
+   */
+  async saveStill() {
+    if (this.savingStill) {
+      return;
+    }
+    this.savingStill = true;
+    this.fireSettingsChange();
+    try {
+      const pixelRatio = this.renderer.getPixelRatio();
+      const { width, height } = getOutputSize(
+        stillSizes,
+        this.stillSize,
+        window.innerWidth * pixelRatio,
+        window.innerHeight * pixelRatio
+      );
+      const still = this.getStillMetadata();
+      const blob = await encodeStill(this.captureStill(width, height), still);
+      downloadBlob(blob, `hopalong-${still.params.seed ?? still.seed}-${width}x${height}.png`);
+    } catch (e) {
+      console.error('Unable to save the still.', e);
+      this.showStillError(e.message);
+    }
+    this.savingStill = false;
+    this.fireSettingsChange();
+  }
+
+  /**
+   * Restores the frame saved in a still
+   */
+  async restoreStill(file: File) {
+    try {
+      this.applyStill(await readStill(file));
+    } catch (e) {
+      console.warn('Unable to restore the still.', e);
+      this.showStillError(`${file.name}: ${e.message}`);
+    }
+  }
+
+  /**
+   * Puts back the orbit and colour each level was showing and where the levels and camera were,
+   * and pauses so the frame stays on screen
+   */
+  applyStill({ params, seed, time, settings, camera, levels }: StillMetadata) {
+    // Switching the attractor, palette or theme would otherwise start a new orbit
+    this.holdingOrbit = true;
+    try {
+      this.applySettings({ ...settings, paused: true }, false);
+    } finally {
+      this.holdingOrbit = false;
+    }
+    this.cancelOrbit();
+    this.setSeed(seed);
+    this.clock.time = time;
+    this.activeMorph = undefined;
+    this.orbitQueued = false;
+    this.attractor = getAttractor(params.attractor);
+    this.orbitParams = params;
+    this.orbitParamHistory.push(params);
+    this.applyOrbit(computeOrbit(this.getOrbitRequest(params)));
+
+    // Levels caught partway through a change or morph show other orbits, each is made once
+    const orbits = new Map([[JSON.stringify(params), this.orbit]]);
+    const getOrbit = (levelParams: OrbitParams<number>) => {
+      const key = JSON.stringify(levelParams);
+      let orbit = orbits.get(key);
+      if (!orbit) {
+        orbit = computeOrbit(this.getOrbitRequest(levelParams));
+        orbits.set(key, orbit);
+      }
+      return orbit;
+    };
+    const restoreLevels = levels.length === this.particleSets.length;
+    this.particleSets.forEach((particleSet, i) => {
+      const { particles, myLevel, mySubset } = particleSet;
+      const level = restoreLevels ? levels[i] : undefined;
+      const orbit = level?.params ? getOrbit(level.params) : this.orbit;
+      this.updateLevelPositions(myLevel, mySubset, orbit);
+      particleSet.needsUpdate = false;
+      particleSet.params = orbit.params;
+      particleSet.shownAt = this.clock.time;
+      particleSet.colour = level?.colour || this.colours[myLevel][mySubset];
+      this.updateSetColour(particleSet);
+      if (level) {
+        particles.position.z = level.z;
+        particles.rotation.z = level.rotation;
+      }
+    });
+
+    // Hold the camera where it was, following the mouse would move it straight away
+    this.cameraController.moveTo(camera.x, camera.y, camera.roll);
+    this.mouseX = camera.x;
+    this.mouseY = -camera.y;
+    this.mouseLocked = true;
+    this.fireSettingsChange();
+  }
+
+  showStillError(message?: string) {
+    this.stillError = message;
+    window.clearTimeout(this.stillErrorTimeout);
+    if (message) {
+      this.stillErrorTimeout = window.setTimeout(() => this.showStillError(), STILL_ERROR_TIME);
+    }
+    this.fireSettingsChange();
   }
 
   addEventListeners() {
@@ -262,7 +611,23 @@ export default class Hopalong {
     document.addEventListener('touchstart', this.onDocumentTouch, false);
     document.addEventListener('touchmove', this.onDocumentTouch, false);
     document.addEventListener('keydown', this.onKeyDown, false);
+    document.addEventListener('visibilitychange', this.onVisibilityChange, false);
     window.addEventListener('resize', this.onWindowResize, false);
+    window.addEventListener('message', this.onMessage, false);
+    document.addEventListener('dragover', this.onDragOver, false);
+    document.addEventListener('drop', this.onDrop, false);
+  }
+
+  removeEventListeners() {
+    document.removeEventListener('mousemove', this.onDocumentMouseMove, false);
+    document.removeEventListener('touchstart', this.onDocumentTouch, false);
+    document.removeEventListener('touchmove', this.onDocumentTouch, false);
+    document.removeEventListener('keydown', this.onKeyDown, false);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange, false);
+    window.removeEventListener('resize', this.onWindowResize, false);
+    window.removeEventListener('message', this.onMessage, false);
+    document.removeEventListener('dragover', this.onDragOver, false);
+    document.removeEventListener('drop', this.onDrop, false);
   }
 
   animate() {
@@ -272,58 +637,144 @@ export default class Hopalong {
       return;
     }
     requestAnimationFrame(this.animate);
+    if (this.suspended) {
+      return;
+    }
     this.stats.begin();
-    this.render();
+    this.render(this.clock.tick());
     this.stats.end();
   }
 
-  render() {
-    if (this.camera.position.x >= -CAMERA_BOUND && this.camera.position.x <= CAMERA_BOUND) {
-      this.camera.position.x += (this.getMouseX() - this.camera.position.x) * 0.05;
-      if (this.camera.position.x < -CAMERA_BOUND) {
-        this.camera.position.x = -CAMERA_BOUND;
-      }
-      if (this.camera.position.x > CAMERA_BOUND) {
-        this.camera.position.x = CAMERA_BOUND;
-      }
-    }
-    if (this.camera.position.y >= -CAMERA_BOUND && this.camera.position.y <= CAMERA_BOUND) {
-      this.camera.position.y += (-this.getMouseY() - this.camera.position.y) * 0.05;
-      if (this.camera.position.y < -CAMERA_BOUND) {
-        this.camera.position.y = -CAMERA_BOUND;
-      }
-      if (this.camera.position.y > CAMERA_BOUND) {
-        this.camera.position.y = CAMERA_BOUND;
-      }
+  /**
+   * Stops the animation loop drawing frames in between stepped ones, e.g. while a video is
+   * rendered offline, as effects like trails would blend each extra frame in
+   */
+  setSuspended(suspended: boolean) {
+    this.suspended = suspended;
+  }
+
+  /**
+   * Moves on by one fixed step of the clock and draws it, however many times. Nothing moves
+   * otherwise in the manual clock mode, so the same settings always give the same frames
+   */
+  step(frames = 1) {
+    for (let i = 0; i < frames; i++) {
+      this.render(this.clock.step());
     }
+  }
 
-    this.camera.lookAt(this.scene.position);
+  /**
+   * Moves everything on by `delta` ms and draws the frame
+   */
+  render(delta: number) {
+    const seconds = delta / 1000;
+    this.cameraController.update(delta, this.getMouseX(), -this.getMouseY(), this.mouseLocked);
 
     // update particle positions
     // for (let i = 0; i < this.scene.children.length; i++) {
     for (const particleSet of this.particleSets) {
-      const { particles, myMaterial, mySubset } = particleSet;
-      particles.position.z += this.speed;
-      particles.rotation.z += this.rotationSpeed;
+      const { particles, myLevel, mySubset } = particleSet;
+      if (!this.paused) {
+        particles.position.z += this.speed * seconds;
+        particles.rotation.z += this.rotationSpeed * seconds;
+      }
 
       // if the particle level has passed the fade distance
       if (particles.position.z > this.camera.position.z) {
         // move the particle level back in front of the camera
         particles.position.z = -(this.numLevels - 1) * LEVEL_DEPTH;
+        if (mySubset === 0) {
+          this.scheduler.levelPassed();
+        }
 
         if (particleSet.needsUpdate) {
           // update the geometry and color
-          particles.geometry.verticesNeedUpdate = true;
-          myMaterial.color.setHSL(
-            ...hsvToHsl(this.hueValues[mySubset], defaults.saturation, defaults.brightness)
-          );
+          this.updateLevelPositions(myLevel, mySubset);
           particleSet.needsUpdate = false;
-          particleSet.params = this.orbitParams;
+          particleSet.params = this.orbit.params;
+          particleSet.shownAt = this.clock.time;
+          particleSet.colour = this.colours[myLevel][mySubset];
+          this.updateSetColour(particleSet);
         }
       }
+      if (particleSet.params.paletteMode === 'cycle') {
+        this.updateSetColour(particleSet);
+      }
     }
 
-    this.renderer.render(this.scene, this.camera);
+    if (this.activeMorph && this.clock.stepped) {
+      this.requestMorphStep();
+    }
+    this.scheduler.tick(delta);
+    this.updateNearestSet();
+    this.uploadSubsetBuffers();
+    this.effectPipeline.render(delta);
+    for (const listener of this.frameListeners) {
+      listener(delta);
+    }
+  }
+
+  /**
+   * Calls the listener after each frame is drawn, stepped frames included, until unsubscribed
+   */
+  onFrame(listener: (delta: number) => unknown) {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sets the material's colour from the particle set's, with the live colour settings applied
+   */
+  updateSetColour({ myMaterial, params, colour: [h, s, v] }: HopalongParticleSet) {
+    let hue = h + this.hueShift;
+    if (params.paletteMode === 'cycle') {
+      hue += getCycleOffset(this.clock.time);
+    }
+    myMaterial.color.setHSL(...hsvToHsl(hue % 1, s * this.saturation, v * this.brightness));
+  }
+
+  updateNearestSet() {
+    const nearest = findNearestSet(this.particleSets, this.nearestSet);
+    if (nearest && nearest.myLevel !== this.nearestSet?.myLevel) {
+      this.nearestSince = this.clock.time;
+    }
+    this.nearestSet = nearest;
+  }
+
+  /**
+   * The orbit the user is looking at, and how long it has been on screen
+   */
+  getViewedOrbit(): ViewedOrbit {
+    const now = this.clock.time;
+    const nearest = this.nearestSet || this.particleSets[0];
+    return {
+      params: nearest.params,
+      visibility: {
+        level: nearest.myLevel,
+        subset: nearest.mySubset,
+        distance: this.camera.position.z - nearest.particles.position.z,
+        visibleFor: now - nearest.shownAt,
+        nearestFor: now - this.nearestSince,
+      },
+    };
+  }
+
+  /**
+   * Copies the orbit, the current one unless given, into the level's range of its subset buffer
+   */
+  updateLevelPositions(level: number, subset: number, orbit = this.orbit) {
+    this.subsetBuffers[subset].setLevel(level, orbit.subsets[subset]);
+  }
+
+  /**
+   * Uploads only the ranges of each subset buffer which changed this frame
+   */
+  uploadSubsetBuffers() {
+    for (const buffer of this.subsetBuffers) {
+      buffer.upload();
+    }
   }
 
   ///////////////////////////////////////////////
@@ -331,137 +782,413 @@ export default class Hopalong {
   ///////////////////////////////////////////////
 
   updateOrbit() {
-    this.generateOrbit();
-    this.generateHues();
-    for (const particleSet of this.particleSets.values()) {
-      particleSet.needsUpdate = true;
+    if (this.orbitPending) {
+      // Don't pile up work behind a slow orbit, just make sure one more follows it
+      this.orbitQueued = true;
+      return;
+    }
+    this.shuffleParams();
+    if (this.morph && this.morphDuration > 0 && canMorph(this.orbit.params, this.orbitParams)) {
+      // Start from whatever is showing, which may be partway through another morph
+      this.activeMorph = {
+        from: this.orbit.params,
+        to: this.orbitParams,
+        fromColours: this.colours,
+        toColours: this.createColours(this.orbitParams),
+        startTime: this.clock.time,
+        progress: 0,
+      };
+      this.requestMorphStep();
+    } else {
+      this.activeMorph = undefined;
+      this.requestOrbit(this.orbitParams);
     }
   }
 
-  generateHues() {
-    for (let s = 0; s < this.numSubsets; s++) {
-      this.hueValues[s] = Math.random();
+  /**
+   * Generates the orbit in the worker, or straight away when the clock is stepped so it's ready
+   * on the same frame each run
+   */
+  requestOrbit(params: OrbitParams<number>) {
+    const request = this.getOrbitRequest(params);
+    if (this.clock.stepped) {
+      this.onOrbitGenerated(computeOrbit(request));
+      return;
     }
+    const id = ++this.orbitRequestId;
+    this.orbitPending = true;
+    this.orbitGenerator
+      .generate(request)
+      .catch((e) => {
+        console.warn('Unable to generate orbit in the worker, falling back to main thread.', e);
+        return computeOrbit(request);
+      })
+      .then((orbit) => {
+        if (id === this.orbitRequestId) {
+          this.onOrbitGenerated(orbit);
+        }
+      });
   }
 
-  generateOrbit() {
-    let x, y, z, x1;
-    this.prepareOrbit();
+  /**
+   * Forgets the orbit being generated, it's ignored when it arrives
+   */
+  cancelOrbit() {
+    this.orbitRequestId++;
+    this.orbitPending = false;
+  }
 
-    const { a, b, c, d, e, choice, xPreset, yPreset } = this.orbitParams;
-    // Using local vars should be faster
-    const al = a;
-    const bl = b;
-    const cl = c;
-    const dl = d;
-    const el = e;
-    const subsets = this.orbit.subsets;
-    const num_points_subset_l = this.numPointsSubset;
-    const scale_factor_l = SCALE_FACTOR;
+  onOrbitGenerated(orbit: Orbit<number>) {
+    this.orbitPending = false;
+    if (this.destroyed) {
+      return;
+    }
+    this.applyOrbit(orbit);
+    if (this.orbitQueued) {
+      this.orbitQueued = false;
+      this.updateOrbit();
+    } else if (this.activeMorph) {
+      if (this.activeMorph.progress >= 1) {
+        this.activeMorph = undefined;
+      } else if (!this.clock.stepped) {
+        // Wait for a frame so the main thread fallback doesn't lock up the page. Stepped clocks
+        // move the morph on as each frame is drawn instead, see render
+        requestAnimationFrame(this.requestMorphStep);
+      }
+    }
+  }
 
-    let xMin = 0,
-      xMax = 0,
-      yMin = 0,
-      yMax = 0;
+  /**
+   * Generates the orbit for the current point of the morph
+   */
+  requestMorphStep() {
+    const morph = this.activeMorph;
+    if (!morph || this.orbitPending || this.destroyed) {
+      return;
+    }
+    morph.progress = Math.min(1, (this.clock.time - morph.startTime) / this.morphDuration);
+    if (morph.progress >= 1) {
+      this.requestOrbit(morph.to);
+      return;
+    }
+    const params = lerpParams(morph.from, morph.to, easeMorph(morph.progress));
+    // The way between two good orbits can still pass through degenerate ones, those steps are
+    // skipped so the morph holds on the last good one
+    const { sampleSize } = this.qualityThresholds;
+    if (checkOrbit(measureOrbit(params, sampleSize), this.qualityThresholds)) {
+      if (!this.clock.stepped) {
+        requestAnimationFrame(this.requestMorphStep);
+      }
+      return;
+    }
+    this.requestOrbit(params);
+  }
 
-    for (let s = 0; s < this.numSubsets; s++) {
-      // Use a different starting point for each orbit subset
-      x = s * 0.005 * (0.5 - xPreset * (Math.random() / 2));
-      y = s * 0.005 * (0.5 - yPreset * (Math.random() / 2));
+  getOrbitRequest(params = this.orbitParams): OrbitRequest {
+    return {
+      params,
+      numSubsets: this.numSubsets,
+      numPointsSubset: this.numPointsSubset,
+    };
+  }
 
-      const curSubset = subsets[s];
+  /**
+   * Swaps in a newly generated orbit, levels pick it up as they pass the camera
+   */
+  applyOrbit(orbit: Orbit<number>) {
+    this.orbit = orbit;
+    if (this.activeMorph) {
+      const { fromColours, toColours, progress } = this.activeMorph;
+      this.colours = lerpColours(fromColours, toColours, easeMorph(progress));
+    } else {
+      this.generateColours();
+    }
+    for (const particleSet of this.particleSets.values()) {
+      particleSet.needsUpdate = true;
+    }
+  }
 
-      for (let i = 0; i < num_points_subset_l; i++) {
-        // Iteration formula (generalization of the Barry Martin's original one)
+  generateColours() {
+    this.colours = this.createColours(this.orbit.params);
+  }
 
-        if (choice < 0.5) {
-          z = dl + Math.sqrt(Math.abs(bl * x - cl));
-        } else if (choice < 0.75) {
-          z = dl + Math.sqrt(Math.sqrt(Math.abs(bl * x - cl)));
-        } else {
-          z = dl + Math.log(2 + Math.sqrt(Math.abs(bl * x - cl)));
-        }
+  createColours(params: OrbitParams<number>): Hsv[][] {
+    return createColours(params, this.numLevels, this.numSubsets);
+  }
 
-        if (x > 0) {
-          x1 = y - z;
-        } else if (x == 0) {
-          x1 = y;
-        } else {
-          x1 = y + z;
-        }
-        y = al - x;
-        x = x1 + el;
+  /**
+   * Colours new orbits with the chosen palette and mode, unless they come with their own palette.
+   * Random hues have no colours but still follow the mode.
+   */
+  withPalette(params: OrbitParams<number>): OrbitParams<number> {
+    const { colours } = getPalette(this.palette, this.customPalette);
+    if (params.palette) {
+      return params;
+    }
+    if (!colours.length) {
+      return { ...params, paletteMode: this.paletteMode };
+    }
+    return { ...params, palette: colours, paletteMode: this.paletteMode };
+  }
 
-        curSubset[i].x = x;
-        curSubset[i].y = y;
+  /**
+   * Picks the next orbit: a queued one first, then the playlist, otherwise generated params that
+   * pass the quality checks
+   */
+  shuffleParams() {
+    if (this.nextOrbitParams) {
+      this.orbitParams = this.nextOrbitParams;
+      this.nextOrbitParams = undefined;
+      this.orbitParamHistory.push(this.orbitParams);
+      return;
+    }
+    // Playlist entries were picked by hand, so they skip the quality checks
+    const entry = this.playlistPlayer?.next();
+    if (entry) {
+      this.orbitParams = this.withPalette(this.getEntryParams(entry));
+      if (entry.duration) {
+        this.scheduler.setDuration(entry.duration);
+      }
+      this.orbitParamHistory.push(this.orbitParams);
+      return;
+    }
 
-        if (x < xMin) {
-          xMin = x;
-        } else if (x > xMax) {
-          xMax = x;
-        }
-        if (y < yMin) {
-          yMin = y;
-        } else if (y > yMax) {
-          yMax = y;
-        }
+    // Resample until the candidate doesn't look degenerate, or we run out of attempts
+    const { sampleSize, maxAttempts } = this.qualityThresholds;
+    let candidate = this.pickParams();
+    for (let attempt = 1; ; attempt++) {
+      const rejection = checkOrbit(measureOrbit(candidate, sampleSize), this.qualityThresholds);
+      if (!rejection) {
+        this.qualityStats.accepted++;
+        break;
       }
+      this.qualityStats.rejected++;
+      this.qualityStats.reasons[rejection]++;
+      if (attempt >= maxAttempts) {
+        this.qualityStats.exhausted++;
+        break;
+      }
+      candidate = this.pickParams();
     }
+    this.orbitParams = this.withPalette(candidate);
+    this.orbitParamHistory.push(this.orbitParams);
+  }
 
-    const scaleX = (2 * scale_factor_l) / (xMax - xMin);
-    const scaleY = (2 * scale_factor_l) / (yMax - yMin);
+  /**
+   * Picks the params for a candidate orbit, before checking its quality
+   */
+  pickParams(): OrbitParams<number> {
+    if (this.activeLearning && this.activeLearner) {
+      return this.pickUncertainParams();
+    }
+    // The model and the frames list were only trained on Hopalong orbits
+    if (this.vibeCheck && this.attractor.id === 'hopalong') {
+      return this.ratingModel ? this.pickVibeParams() : this.pickBestFrameParams();
+    }
+    return this.pickRandomParams();
+  }
 
-    this.orbit.xMin = xMin;
-    this.orbit.xMax = xMax;
-    this.orbit.yMin = yMin;
-    this.orbit.yMax = yMax;
-    this.orbit.scaleX = scaleX;
-    this.orbit.scaleY = scaleY;
+  /**
+   * Picks the orbit the active learner would learn the most from having rated
+   */
+  pickUncertainParams(): OrbitParams<number> {
+    const candidates = Array.from({ length: LEARNING_CANDIDATES }, () => this.pickRandomParams());
+    return this.activeLearner ? this.activeLearner.pickMostUncertain(candidates) : candidates[0];
+  }
 
-    // Normalize and update vertex data
-    for (let s = 0; s < this.numSubsets; s++) {
-      const curSubset = subsets[s];
-      for (let i = 0; i < num_points_subset_l; i++) {
-        curSubset[i].vertex.setX(scaleX * (curSubset[i].x - xMin) - scale_factor_l);
-        curSubset[i].vertex.setY(scaleY * (curSubset[i].y - yMin) - scale_factor_l);
+  pickRandomParams(): OrbitParams<number> {
+    const seed = Math.floor(this.random() * 0x100000000);
+    return {
+      ...randomParams(this.attractor, createRandom(seed, RandomStream.PARAMS)),
+      seed,
+    };
+  }
+
+  /**
+   * Scores a batch of random orbits with the rating model and plays the best few
+   */
+  pickVibeParams(): OrbitParams<number> {
+    const { ratingModel } = this;
+    if (!this.vibeQueue.length && ratingModel) {
+      const candidates: { params: OrbitParams<number>; score: number }[] = [];
+      for (let i = 0; i < VIBE_CANDIDATES; i++) {
+        const params = this.pickRandomParams();
+        candidates.push({ params, score: ratingModel.predict(params) });
       }
+      this.vibeQueue = candidates
+        .sort((a, b) => b.score - a.score)
+        .slice(0, VIBE_TOP)
+        .map(({ params }) => params);
     }
+    const params = this.vibeQueue.shift() || this.pickRandomParams();
+    return { ...params, timeCreated: Date.now() };
   }
 
-  prepareOrbit() {
-    this.shuffleParams();
-    this.orbit.xMin = 0;
-    this.orbit.xMax = 0;
-    this.orbit.yMin = 0;
-    this.orbit.yMax = 0;
+  /**
+   * Walks the list of frames picked offline in the sandbox, for when there is no model
+   */
+  pickBestFrameParams(): OrbitParams<number> {
+    if (!this.bestFramesPlayer) {
+      this.bestFramesPlayer = new PlaylistPlayer(bestFramesPlaylist, 'sequential', this.random);
+    }
+    const entry = this.bestFramesPlayer.next();
+    return entry ? this.getEntryParams(entry) : this.pickRandomParams();
   }
 
   /**
-   * TODO: This is a bit of a hack to get the orbitParams to change
-   * The JSON list needs to go and the orbits should be generated on the fly
+   * Fills in what a playlist entry leaves out, so the frame can still be reproduced
    */
-  shuffleParams() {
-    const { a, b, c, d, e } = constraints;
-    if (this.vibeCheck) {
-      // use the model to generate the next orbit
-      this.orbitParams =
-        best_frames[
-          this.currentFrame > best_frames.length ? (this.currentFrame = 0) : this.currentFrame++
-        ].params;
-    } else {
-      this.orbitParams = {
-        a: a.min + Math.random() * (a.max - a.min),
-        b: b.min + Math.random() * (b.max - b.min),
-        c: c.min + Math.random() * (c.max - c.min),
-        d: d.min + Math.random() * (d.max - d.min),
-        e: e.min + Math.random() * (e.max - e.min),
-        choice: Math.random(),
-        xPreset: Math.random(),
-        yPreset: Math.random(),
-        timeCreated: Date.now(),
-      };
+  getEntryParams({ params, palette, paletteMode }: PlaylistEntry): OrbitParams<number> {
+    return {
+      ...params,
+      attractor: getAttractor(params.attractor).id,
+      palette: palette || params.palette,
+      paletteMode: palette ? paletteMode : params.paletteMode,
+      seed:
+        typeof params.seed === 'undefined' ? Math.floor(this.random() * 0x100000000) : params.seed,
+      timeCreated: Date.now(),
+    };
+  }
+
+  setPlaylist(id?: string, mode = this.playlistMode) {
+    const playlist = getPlaylist(id);
+    const current = this.playlistPlayer;
+    this.playlistMode = mode;
+    if (current && playlist && current.playlist.id === playlist.id) {
+      current.mode = mode;
+      return;
     }
-    this.orbitParamHistory.push(this.orbitParams);
+    this.playlistPlayer = playlist ? new PlaylistPlayer(playlist, mode, this.random) : undefined;
+    if (this.playlistPlayer) {
+      // Start the playlist straight away rather than after the current orbit
+      this.skipOrbit();
+    }
+  }
+
+  /**
+   * Changes how new orbits are coloured, starting one straight away to show it
+   */
+  setPalette(palette: string, paletteMode: PaletteMode, customPalette: string[]) {
+    const customChanged = customPalette.join() !== this.customPalette.join();
+    if (customChanged) {
+      this.customPalette = customPalette;
+      saveCustomPalette(customPalette);
+    }
+    if (
+      palette === this.palette &&
+      paletteMode === this.paletteMode &&
+      !(customChanged && palette === CUSTOM_PALETTE)
+    ) {
+      return;
+    }
+    this.palette = palette;
+    this.paletteMode = paletteMode;
+    this.skipOrbit();
+  }
+
+  setTexture(texture: Texture) {
+    this.texture = texture;
+    for (const { myMaterial } of this.particleSets) {
+      myMaterial.map = texture;
+      myMaterial.needsUpdate = true;
+    }
+  }
+
+  /**
+   * Swaps the texture on every material, shapes are redrawn when their params change
+   */
+  setSprite(
+    sprite = this.sprite,
+    spriteParams = this.spriteParams,
+    customSprite = this.customSprite
+  ) {
+    if (customSprite && customSprite !== this.customSprite) {
+      this.customSprite = customSprite;
+      saveCustomSprite(customSprite);
+    }
+    this.sprite = sprite;
+    this.spriteParams = spriteParams;
+    this.setTexture(getSpriteTexture(sprite, spriteParams, this.customSprite));
+  }
+
+  /**
+   * Switches to the theme's sprite, palette, fog, background and effects, without recreating
+   * the scene. Unless `skip` is off the next orbit is shown straight away in the new palette.
+   */
+  setTheme(id: string, skip = true) {
+    const theme = getTheme(id);
+    this.theme = theme.id;
+    this.setSprite(theme.sprite);
+    this.renderer.setClearColor(theme.background);
+    this.fog.color.set(theme.fog.colour);
+    this.fog.density = theme.fog.density;
+    this.effectPipeline.setEffects({ ...defaultEffects, ...theme.effects });
+    this.palette = theme.palette;
+    this.paletteMode = theme.paletteMode;
+    if (skip) {
+      this.scheduler.resetThemeCount();
+      this.skipOrbit();
+    }
+  }
+
+  /**
+   * Moves on to the next theme, called by the scheduler just before it changes the orbit
+   */
+  nextTheme() {
+    this.setTheme(getNextTheme(this.theme).id, false);
+    this.fireSettingsChange();
+  }
+
+  /**
+   * Recolours every particle set, for when the live colour settings change
+   */
+  updateColours() {
+    this.particleSets.forEach(this.updateSetColour);
+  }
+
+  setSpriteSize(size: number) {
+    this.spriteSize = size;
+    for (const { myMaterial } of this.particleSets) {
+      myMaterial.size = size;
+    }
+  }
+
+  setRatingModel(ratingModel?: RatingModel) {
+    this.ratingModel = ratingModel;
+    this.vibeQueue = [];
+  }
+
+  setQualityThresholds(thresholds: Partial<QualityThresholds>) {
+    this.qualityThresholds = { ...this.qualityThresholds, ...thresholds };
+  }
+
+  /**
+   * Shows the given orbit next, e.g. to reproduce a rated frame from its params and seed
+   */
+  playOrbit(params: OrbitParams<number>) {
+    this.attractor = getAttractor(params.attractor);
+    this.nextOrbitParams = { ...params, attractor: this.attractor.id };
+    this.skipOrbit();
+    this.fireSettingsChange();
+  }
+
+  /**
+   * Restarts the sequence of orbits from the given seed
+   */
+  setSeed(seed: number) {
+    this.seed = seed >>> 0;
+    this.random = createRandom(this.seed);
+    this.scheduleRandom = createRandom(this.seed, RandomStream.SCHEDULE);
+    this.cameraRandom = createRandom(this.seed, RandomStream.CAMERA);
+  }
+
+  setAttractor(id: string) {
+    if (id === this.attractor.id) {
+      return;
+    }
+    this.attractor = getAttractor(id);
+    // Don't wait for the next scheduled update to show the new attractor
+    this.skipOrbit();
   }
 
   ///////////////////////////////////////////////
@@ -486,6 +1213,63 @@ export default class Hopalong {
     }
   }
 
+  /**
+   * Stops the particles and the orbit schedule, the orbit can still be changed by hand
+   */
+  setPaused(paused = !this.paused) {
+    this.paused = paused;
+    this.scheduler.setPaused(paused);
+    this.fireSettingsChange();
+  }
+
+  setCamera(options: Partial<CameraOptions>) {
+    const changed = omitBy(options, isUndefined);
+    if (changed.path) {
+      saveCameraPath(changed.path);
+    }
+    if (Object.keys(changed).length) {
+      this.cameraController.configure(changed);
+    }
+  }
+
+  /**
+   * Switches to the next camera mode, skipping keyframes until a path has been loaded
+   */
+  nextCameraMode() {
+    const { mode, path } = this.cameraController.options;
+    const modes = CAMERA_MODES.filter((cameraMode) => cameraMode !== 'keyframes' || path);
+    this.setCamera({ mode: modes[(modes.indexOf(mode) + 1) % modes.length] });
+    this.fireSettingsChange();
+  }
+
+  setClock(options: Partial<ClockOptions>) {
+    const changed = omitBy(options, isUndefined);
+    if (Object.keys(changed).length) {
+      this.clock.configure(changed);
+    }
+    if (this.clock.stepped && this.orbitPending) {
+      // The worker's orbit would land on whichever frame it's ready for, so make it now instead
+      this.cancelOrbit();
+      if (this.activeMorph) {
+        this.requestMorphStep();
+      } else {
+        this.requestOrbit(this.orbitParams);
+      }
+    }
+  }
+
+  setScheduler(options: Partial<SchedulerOptions>) {
+    const changed = omitBy(options, isUndefined);
+    if (Object.keys(changed).length) {
+      this.scheduler.configure(changed);
+    }
+  }
+
+  setRatingMode(ratingMode = !this.ratingMode) {
+    this.ratingMode = ratingMode;
+    this.fireSettingsChange();
+  }
+
   setMouseLock(locked?: boolean) {
     if (typeof locked === 'undefined') {
       this.mouseLocked = !this.mouseLocked;
@@ -495,9 +1279,11 @@ export default class Hopalong {
     this.fireSettingsChange();
   }
 
+  /**
+   * Centres the camera and toggles the lock, which holds it there in every mode
+   */
   recenterCamera() {
-    this.camera.position.x = 0;
-    this.camera.position.y = 0;
+    this.cameraController.recenter();
     this.mouseX = 0;
     this.mouseY = 0;
 
@@ -511,20 +1297,149 @@ export default class Hopalong {
     return this.mouseY;
   }
 
-  applySettings({ speed, rotationSpeed, mouseLocked, cameraFov }: Partial<SimpleSettings>) {
+  applySettings(
+    {
+      speed,
+      rotationSpeed,
+      clockMode,
+      frameRate,
+      mouseLocked,
+      ratingMode,
+      cameraFov,
+      attractor,
+      morph,
+      morphDuration,
+      vibeCheck,
+      activeLearning,
+      palette,
+      paletteMode,
+      customPalette,
+      saturation,
+      brightness,
+      spriteSize,
+      sprite,
+      spriteParams,
+      customSprite,
+      hueShift,
+      orbitSchedule,
+      orbitInterval,
+      orbitIntervalMin,
+      orbitIntervalMax,
+      cameraMode,
+      cameraBound,
+      cameraEasing,
+      cameraRoll,
+      cameraPath,
+      theme,
+      themeRotation,
+      effects,
+      stillSize,
+      paused,
+      playlist,
+      playlistMode,
+    }: Partial<SimpleSettings>,
+    /** Whether to tell the UI, which continuous changes like the audio-reactive mode skip */
+    notify = true
+  ) {
+    // The theme goes first so the settings that come with it can change what it set
+    if (typeof theme !== 'undefined' && theme !== this.theme) {
+      this.setTheme(theme);
+    }
     if (typeof speed !== 'undefined') {
       this.speed = speed;
     }
     if (typeof rotationSpeed !== 'undefined') {
       this.rotationSpeed = rotationSpeed;
     }
+    this.setClock({ mode: clockMode, frameRate });
     if (typeof mouseLocked !== 'undefined') {
       this.mouseLocked = mouseLocked;
     }
+    if (typeof ratingMode !== 'undefined') {
+      this.ratingMode = ratingMode;
+    }
+    if (typeof paused !== 'undefined') {
+      this.paused = paused;
+      this.scheduler.setPaused(paused);
+    }
+    this.setScheduler({
+      schedule: orbitSchedule,
+      interval: orbitInterval,
+      intervalMin: orbitIntervalMin,
+      intervalMax: orbitIntervalMax,
+      themeEvery: themeRotation,
+    });
+    this.setCamera({
+      mode: cameraMode,
+      bound: cameraBound,
+      easing: cameraEasing,
+      roll: cameraRoll,
+      path: cameraPath,
+    });
     if (typeof cameraFov !== 'undefined') {
       this.setCameraFOV(cameraFov);
     }
-    this.fireSettingsChange();
+    if (typeof attractor !== 'undefined') {
+      this.setAttractor(attractor);
+    }
+    if (typeof morph !== 'undefined') {
+      this.morph = morph;
+    }
+    if (typeof morphDuration !== 'undefined') {
+      this.morphDuration = morphDuration;
+    }
+    if (typeof vibeCheck !== 'undefined') {
+      this.vibeCheck = vibeCheck;
+    }
+    if (typeof activeLearning !== 'undefined') {
+      this.activeLearning = activeLearning;
+    }
+    if (
+      typeof palette !== 'undefined' ||
+      typeof paletteMode !== 'undefined' ||
+      typeof customPalette !== 'undefined'
+    ) {
+      this.setPalette(
+        palette ?? this.palette,
+        paletteMode ?? this.paletteMode,
+        customPalette ?? this.customPalette
+      );
+    }
+    if (
+      typeof saturation !== 'undefined' ||
+      typeof brightness !== 'undefined' ||
+      typeof hueShift !== 'undefined'
+    ) {
+      this.saturation = saturation ?? this.saturation;
+      this.brightness = brightness ?? this.brightness;
+      this.hueShift = hueShift ?? this.hueShift;
+      this.updateColours();
+    }
+    if (typeof spriteSize !== 'undefined') {
+      this.setSpriteSize(spriteSize);
+    }
+    if (
+      typeof sprite !== 'undefined' ||
+      typeof spriteParams !== 'undefined' ||
+      typeof customSprite !== 'undefined'
+    ) {
+      this.setSprite(sprite, spriteParams, customSprite);
+    }
+    if (typeof effects !== 'undefined') {
+      this.effectPipeline.setEffects(effects);
+    }
+    if (typeof stillSize !== 'undefined') {
+      this.stillSize = stillSize;
+    }
+    if (typeof playlist !== 'undefined' || typeof playlistMode !== 'undefined') {
+      this.setPlaylist(
+        typeof playlist !== 'undefined' ? playlist : this.playlistPlayer?.playlist.id,
+        playlistMode
+      );
+    }
+    if (notify) {
+      this.fireSettingsChange();
+    }
   }
 
   fireSettingsChange() {
@@ -532,13 +1447,50 @@ export default class Hopalong {
   }
 
   getSettings(): SimpleSettings {
-    const { speed, rotationSpeed, mouseLocked } = this;
+    const { speed, rotationSpeed, mouseLocked, ratingMode, paused, morph, morphDuration } = this;
+    const { schedule, interval, intervalMin, intervalMax, themeEvery } = this.scheduler.options;
     return {
       speed,
       rotationSpeed,
+      clockMode: this.clock.options.mode,
+      frameRate: this.clock.options.frameRate,
       mouseLocked,
+      ratingMode,
+      paused,
+      morph,
+      morphDuration,
+      playlist: this.playlistPlayer ? this.playlistPlayer.playlist.id : '',
+      playlistMode: this.playlistMode,
       cameraFov: this.camera.fov,
+      attractor: this.attractor.id,
       vibeCheck: this.vibeCheck,
+      activeLearning: this.activeLearning,
+      palette: this.palette,
+      paletteMode: this.paletteMode,
+      customPalette: this.customPalette,
+      saturation: this.saturation,
+      brightness: this.brightness,
+      spriteSize: this.spriteSize,
+      sprite: this.sprite,
+      spriteParams: this.spriteParams,
+      customSprite: this.customSprite,
+      hueShift: this.hueShift,
+      orbitSchedule: schedule,
+      orbitInterval: interval,
+      orbitIntervalMin: intervalMin,
+      orbitIntervalMax: intervalMax,
+      cameraMode: this.cameraController.options.mode,
+      cameraBound: this.cameraController.options.bound,
+      cameraEasing: this.cameraController.options.easing,
+      cameraRoll: this.cameraController.options.roll,
+      cameraPath: this.cameraController.options.path,
+      theme: this.theme,
+      themeRotation: themeEvery,
+      effects: this.effectPipeline.effects,
+      effectsWarning: this.effectPipeline.warning,
+      stillSize: this.stillSize,
+      savingStill: this.savingStill,
+      stillError: this.stillError,
     };
   }
 
@@ -561,14 +1513,25 @@ export default class Hopalong {
     this.speed = defaults.speed;
     this.rotationSpeed = defaults.rotation_speed;
     this.camera.fov = defaults.fov;
+    this.saturation = defaults.saturation;
+    this.brightness = defaults.brightness;
+    this.hueShift = defaults.hue_shift;
+    this.updateColours();
+    this.setSpriteSize(defaults.sprite_size);
     this.fireSettingsChange();
   }
 
   onKeyDown(event: KeyboardEvent) {
-    const { key } = event;
+    const { key, target } = event;
     const keyUpper = key.toUpperCase();
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+      // Let the menu's text fields have their keys
+      return;
+    }
 
-    if (key === 'ArrowUp' || keyUpper === 'W') {
+    if (this.ratingMode && this.onKeyDownRating(event)) {
+      event.preventDefault();
+    } else if (key === 'ArrowUp' || keyUpper === 'W') {
       this.changeSpeed(this.speedDelta);
     } else if (key === 'ArrowDown' || keyUpper === 'S') {
       this.changeSpeed(-this.speedDelta);
@@ -584,16 +1547,95 @@ export default class Hopalong {
       document.body.classList.toggle('hideCursor');
     } else if (keyUpper === 'C') {
       this.recenterCamera();
+    } else if (keyUpper === 'V') {
+      this.setRatingMode();
+    } else if (keyUpper === 'P') {
+      this.setPaused();
+    } else if (keyUpper === 'N') {
+      this.skipOrbit();
+    } else if (keyUpper === 'M') {
+      this.nextCameraMode();
+    } else if (key === '.') {
+      this.step();
+    } else if (keyUpper === 'K') {
+      this.saveStill();
+    }
+  }
+
+  /**
+   * Handles the rating keys, returning whether the key was one of them
+   */
+  onKeyDownRating({ key, repeat }: KeyboardEvent): boolean {
+    if (/^[0-9]$/.test(key)) {
+      if (!repeat) {
+        this.onRate?.(Number(key));
+      }
+    } else if (key === 'Backspace') {
+      this.onUndoRating?.();
+    } else if (key.toUpperCase() === 'N') {
+      this.skipOrbit();
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  onDragOver(event: DragEvent) {
+    if (!event.defaultPrevented && event.dataTransfer?.types.includes('Files')) {
+      // Allows the drop, the browser would open the file instead
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Restores a still dropped anywhere on the page. Other files are left to the panels, like
+   * the music library
+   */
+  onDrop(event: DragEvent) {
+    const file = event.dataTransfer?.files[0];
+    if (event.defaultPrevented || !file || file.type !== 'image/png') {
+      return;
+    }
+    event.preventDefault();
+    this.restoreStill(file);
+  }
+
+  onVisibilityChange() {
+    this.scheduler.setHidden(document.hidden);
+  }
+
+  /**
+   * The trigger API, see NEXT_ORBIT_MESSAGE
+   */
+  onMessage({ data }: MessageEvent) {
+    if (data === NEXT_ORBIT_MESSAGE || data?.type === NEXT_ORBIT_MESSAGE) {
+      this.skipOrbit();
     }
   }
 
   onWindowResize() {
-    this.windowHalfX = window.innerWidth / 2;
-    this.windowHalfY = window.innerHeight / 2;
-    this.camera.aspect = window.innerWidth / window.innerHeight;
+    const { innerWidth, innerHeight } = window;
+    this.windowHalfX = innerWidth / 2;
+    this.windowHalfY = innerHeight / 2;
+    const pixelRatio = this.renderer.getPixelRatio();
+    const width = this.outputSize ? this.outputSize.width / pixelRatio : innerWidth;
+    const height = this.outputSize ? this.outputSize.height / pixelRatio : innerHeight;
+    const scale = Math.min(innerWidth / width, innerHeight / height);
+    this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setViewport(0, 0, window.innerWidth, window.innerHeight);
+    this.renderer.setSize(width, height, false);
+    this.renderer.domElement.style.width = `${width * scale}px`;
+    this.renderer.domElement.style.height = `${height * scale}px`;
+    this.renderer.setViewport(0, 0, width, height);
+    this.effectPipeline.setSize(width, height);
+  }
+
+  /**
+   * Draws every frame at the size in px rather than the window's, or the window's again
+   */
+  setOutputSize(size?: { width: number; height: number }) {
+    this.outputSize = size;
+    this.onWindowResize();
   }
 
   setCameraFOV(fov: number) {
@@ -5,17 +5,43 @@ import 'reset.css';
 import '@/main.css';
 import { debounce, pick } from 'lodash';
 import Stats from 'stats.js';
-import { TextureLoader } from 'three';
 import App from '@/components/App';
 import Hopalong from '@/hopalong';
-import textureUrl from '@/images/amoongus.png';
-import { AdvancedSettings, Settings } from '@/types/hopalong';
+import ActiveLearner from '@/util/ActiveLearner';
+import AudioAnalyser from '@/util/AudioAnalyser';
+import AudioReactor from '@/util/AudioReactor';
+import MusicPlayer, { MusicState } from '@/util/MusicPlayer';
+import RatingModel, { loadRatingModel } from '@/util/RatingModel';
+import RatingSession from '@/util/RatingSession';
+import RatingStore from '@/util/RatingStore';
+import RatingUploader from '@/util/RatingUploader';
+import Recorder from '@/util/Recorder';
+import { AdvancedSettings, Settings, Track } from '@/types/hopalong';
 import Detector from '@/util/Detector';
 import defaults from '@/util/defaults';
 
 class Program {
+  detector: Detector;
   hopalong: Hopalong;
-  texture = new TextureLoader().load(textureUrl);
+  ratingModel?: RatingModel;
+  ratingStore = new RatingStore();
+  ratingUploader = new RatingUploader(getUploadEndpointFromUrl());
+  activeLearner = new ActiveLearner();
+  ratingSession = new RatingSession({
+    store: this.ratingStore,
+    uploader: this.ratingUploader,
+    learner: this.activeLearner,
+    getViewedOrbit: () => this.hopalong.getViewedOrbit(),
+    captureThumbnail: () => this.hopalong.captureThumbnail(),
+  });
+  audioAnalyser = new AudioAnalyser();
+  audioReactor = new AudioReactor({
+    analyser: this.audioAnalyser,
+    getHopalong: () => this.hopalong,
+  });
+  // autoBind runs after the fields are set, so onTrackStart isn't bound yet
+  musicPlayer = new MusicPlayer((track) => this.onTrackStart(track));
+  recorder = new Recorder({ getHopalong: () => this.hopalong });
   stats = new Stats();
   settings: Partial<Settings> = {
     pointsPerSubset: defaults.points_subset,
@@ -26,9 +52,13 @@ class Program {
   };
   debounceCreateHopalong = debounce(this.createHopalong, 1000);
 
-  constructor() {
+  constructor(detector: Detector) {
     autoBind(this);
+    this.detector = detector;
     this.createHopalong();
+    this.loadRatingModel();
+    this.trainActiveLearner();
+    this.musicPlayer.subscribe(this.onMusicChange);
   }
   createHopalong(advancedSettings: Partial<AdvancedSettings> = {}) {
     if (this.hopalong) {
@@ -42,9 +72,14 @@ class Program {
     this.hopalong = new Hopalong({
       advancedSettings,
       canvas,
-      texture: this.texture,
       stats: this.stats,
+      useWorkers: this.detector.workers,
+      seed: getSeedFromUrl(),
+      ratingModel: this.ratingModel,
+      activeLearner: this.activeLearner,
       onSettingsUpdate: (settings) => this.renderReact(settings),
+      onRate: this.ratingSession.rate,
+      onUndoRating: this.ratingSession.undo,
     });
 
     // Apply any saved settings from last instance
@@ -53,6 +88,48 @@ class Program {
     (window as any).hopalong = this.hopalong;
   }
 
+  loadRatingModel() {
+    const modelUrl = getRatingModelUrlFromUrl();
+    if (!modelUrl) {
+      return;
+    }
+    loadRatingModel(modelUrl)
+      .then((ratingModel) => {
+        this.ratingModel = ratingModel;
+        this.hopalong.setRatingModel(ratingModel);
+      })
+      .catch((e) => console.warn('Vibe check will use the saved best frames instead.', e));
+  }
+
+  /**
+   * Catches the active learner up on the ratings saved in earlier sessions
+   */
+  trainActiveLearner() {
+    this.ratingStore
+      .getAll()
+      .then((ratings) => this.activeLearner.train(ratings))
+      .catch((e) => console.warn('Active learning will start from scratch.', e));
+  }
+
+  /**
+   * Keeps the play button in step with the music player, which can stop or fail by itself
+   */
+  onMusicChange({ playing }: MusicState) {
+    if (playing !== this.settings.isPlaying) {
+      this.settings = { ...this.settings, isPlaying: playing };
+      this.renderReact(this.settings as Settings);
+    }
+  }
+
+  /**
+   * Switches to the palette and attractor a track is tagged with
+   */
+  onTrackStart({ palette, attractor }: Track) {
+    if (palette || attractor) {
+      this.applySettings({ palette, attractor });
+    }
+  }
+
   renderReact(settings: Settings) {
     const reactRoot = document.getElementById('react-root');
     if (!reactRoot) {
@@ -62,8 +139,19 @@ class Program {
       <App
         stats={this.stats}
         settings={{ ...this.settings, ...settings }}
+        ratingStore={this.ratingStore}
+        ratingUploader={this.ratingUploader}
+        activeLearner={this.activeLearner}
+        ratingSession={this.ratingSession}
+        audioAnalyser={this.audioAnalyser}
+        audioReactor={this.audioReactor}
+        musicPlayer={this.musicPlayer}
+        recorder={this.recorder}
+        onPlayOrbit={(params) => this.hopalong.playOrbit(params)}
         onSettingsChange={this.applySettings}
         onCenter={() => this.hopalong.recenterCamera()}
+        onNextOrbit={() => this.hopalong.skipOrbit()}
+        onSaveStill={() => this.hopalong.saveStill()}
         onReset={() => this.hopalong.resetDefaults()}
       />,
       reactRoot
@@ -83,12 +171,14 @@ class Program {
         .filter(([k, v]) => typeof v !== 'undefined')
         .map(([k]) => k)
     );
+    if (typeof isPlaying !== 'undefined') {
+      this.musicPlayer.setPlaying(isPlaying);
+    }
     this.hopalong.applySettings(simpleSettings);
     this.settings = {
       ...this.settings,
       ...this.hopalong.getSettings(),
       ...newAdvancedSettings,
-      isPlaying,
     };
 
     if (Object.keys(newAdvancedSettings).length > 0) {
@@ -99,10 +189,29 @@ class Program {
     }
   }
 }
+/**
+ * Allows a sequence of orbits to be replayed by adding e.g. `?seed=1234` to the URL
+ */
+function getSeedFromUrl(): number | undefined {
+  const seed = parseInt(new URLSearchParams(window.location.search).get('seed') || '', 10);
+  return isNaN(seed) ? undefined : seed;
+}
+/**
+ * Lets a collection endpoint be set up with a link, e.g. `?upload=https://example.com/ratings`
+ */
+function getUploadEndpointFromUrl(): string | undefined {
+  return new URLSearchParams(window.location.search).get('upload') ?? undefined;
+}
+/**
+ * Vibe check uses exported model weights when they're linked, e.g. `?model=rating_model.json`
+ */
+function getRatingModelUrlFromUrl(): string | undefined {
+  return new URLSearchParams(window.location.search).get('model') ?? undefined;
+}
 document.addEventListener('DOMContentLoaded', () => {
   const detector = new Detector();
   if (!detector.webgl) {
     detector.addGetWebGLMessage();
   }
-  new Program();
+  new Program(detector);
 });
@@ -1,6 +1,9 @@
-import { BufferGeometry, Geometry, Material, Points, Vector3 } from 'three';
+import { BufferGeometry, Material, Points } from 'three';
 
+export type OrbitParamKey = 'a' | 'b' | 'c' | 'd' | 'e';
 export type OrbitParams<T> = {
+  /** Id of the attractor these params belong to, Hopalong if omitted */
+  attractor?: string;
   a: T;
   b: T;
   c: T;
@@ -10,9 +13,18 @@ export type OrbitParams<T> = {
   xPreset: T;
   yPreset: T;
   timeCreated?: T;
+  /** Seed for the orbit's start points and colours, and its params if they were random */
+  seed?: T;
+  /** CSS colours to colour the subsets with instead of random hues */
+  palette?: string[];
+  /** How colours are picked from the palette, in order for each subset if omitted */
+  paletteMode?: PaletteMode;
 };
 export type Orbit<T> = {
-  subsets: SubsetPoint[][];
+  /** The params the orbit was generated from */
+  params: OrbitParams<T>;
+  /** Normalised positions of each subset's points, as x, y, z triples */
+  subsets: Float32Array[];
   xMin: T;
   xMax: T;
   yMin: T;
@@ -20,13 +32,33 @@ export type Orbit<T> = {
   scaleX: T;
   scaleY: T;
 };
-export type SubsetPoint = {
+export type OrbitPoint = {
   x: number;
   y: number;
-  vertex: Vector3;
+};
+export type AttractorParam = {
+  key: OrbitParamKey;
+  /** Name used for the parameter in the formula, defaults to the key */
+  label?: string;
+  min: number;
+  max: number;
+};
+export type Attractor = {
+  id: string;
+  name: string;
+  /** Short blurb shown in the About panel */
+  description: string;
+  /** Parameters used by the iteration function, any others are left at 0 */
+  params: AttractorParam[];
+  /** Lines of the iteration formula, as shown in the About panel */
+  formula: string[];
+  /** Offset added to the starting point of every subset */
+  origin?: OrbitPoint;
+  /** Creates a function which advances a point by one iteration, in place */
+  createStep: (params: OrbitParams<number>) => (point: OrbitPoint) => void;
 };
 export type ParticleSet<
-  TGeometry extends Geometry | BufferGeometry,
+  TGeometry extends BufferGeometry,
   TMaterial extends Material | Material[]
 > = {
   /** The material/colour used to draw this ParticleSet */
@@ -40,12 +72,258 @@ export type ParticleSet<
   /** The underlying location data of the particles */
   particles: Points<TGeometry, TMaterial>;
 };
+export type PlaylistEntry = {
+  params: OrbitParams<number>;
+  title?: string;
+  /** How long to show the orbit for, in ms */
+  duration?: number;
+  /** CSS colours to colour the subsets with */
+  palette?: string[];
+  paletteMode?: PaletteMode;
+  /** Used to weight the entry in rating-weighted playback */
+  rating?: number;
+};
+export type Playlist = {
+  id: string;
+  name: string;
+  entries: PlaylistEntry[];
+};
+/**
+ * - subsets: each subset gets a random colour from the palette
+ * - levels: the palette runs as a gradient from the nearest level to the furthest
+ * - cycle: like subsets, with the hues slowly turning round the colour wheel
+ */
+export type PaletteMode = 'subsets' | 'levels' | 'cycle';
+export type Palette = {
+  id: string;
+  name: string;
+  /** Stops of the colour scale, random hues are used when empty */
+  colours: string[];
+};
+/**
+ * - interval: a new orbit every so often
+ * - levelCycle: a new orbit once every level has passed the camera
+ * - random: a new orbit after a random time within a range
+ * - manual: only when asked for, with the next orbit key or button, or the trigger API
+ */
+export type OrbitSchedule = 'interval' | 'levelCycle' | 'random' | 'manual';
+export type PlaylistMode = 'sequential' | 'shuffle' | 'weighted';
+/** What was on screen while an orbit was being looked at */
+export type OrbitVisibility = {
+  /** Level and subset nearest in front of the camera */
+  level: number;
+  subset: number;
+  /** How far in front of the camera that subset was */
+  distance: number;
+  /** How long the subset had been showing these params, in ms */
+  visibleFor: number;
+  /** How long its level had been the nearest one, in ms */
+  nearestFor: number;
+};
+export type ViewedOrbit = {
+  params: OrbitParams<number>;
+  visibility: OrbitVisibility;
+};
+export type Rating = {
+  /** Assigned by the rating store */
+  id?: number;
+  rating: number;
+  params: OrbitParams<number>;
+  /** When the rating was given, in ms since the epoch */
+  timeRated?: number;
+  visibility?: OrbitVisibility;
+  /** Small JPEG of the screen as a data URL, only kept in this browser */
+  thumbnail?: string;
+};
+export type Track = {
+  /** Assigned by the music library */
+  id?: number;
+  name: string;
+  file: Blob;
+  /** Id of a palette to switch to when the track starts */
+  palette?: string;
+  /** Id of an attractor to switch to when the track starts */
+  attractor?: string;
+};
+/** Parts of the audio the visuals can react to, each from 0 to 1 */
+export type AudioFeatures = {
+  bass: number;
+  mid: number;
+  treble: number;
+  level: number;
+  /** Jumps to 1 on each detected onset, then dies away */
+  onset: number;
+};
+export type AudioSource = keyof AudioFeatures | 'none';
+export type AudioTarget = 'speed' | 'rotationSpeed' | 'spriteSize' | 'hueShift' | 'orbitChange';
+export type AudioMapping = {
+  source: AudioSource;
+  /**
+   * How strongly the source drives the target. For orbit changes this is the chance of changing
+   * orbit each time the source peaks.
+   */
+  amount: number;
+};
+export type AudioMappings = Record<AudioTarget, AudioMapping>;
+/** The post-processing effects, applied in this order after the scene is drawn */
+export type EffectId = 'trails' | 'bloom' | 'pixelate' | 'chromaticAberration' | 'vhs' | 'crt';
+export type EffectSetting = {
+  enabled: boolean;
+  /** How strong the effect is, from 0 to 1 */
+  amount: number;
+};
+export type EffectSettings = Record<EffectId, EffectSetting>;
+/**
+ * - mouse: eases towards the mouse
+ * - autopilot: drifts along a smooth path through random points
+ * - orbit: circles slowly round the tunnel
+ * - keyframes: follows a path loaded from a JSON file
+ */
+export type CameraMode = 'mouse' | 'autopilot' | 'orbit' | 'keyframes';
+/** Whether the animation follows real time, moves a fixed step each frame, or only when stepped */
+export type ClockMode = 'realtime' | 'fixed' | 'manual';
+export type CameraKeyframe = {
+  /** When the camera reaches this point, in s from the start of the path */
+  time: number;
+  /** Position across the tunnel, from -1 to 1 of the camera bound */
+  x: number;
+  y: number;
+  /** Roll round the view direction, in degrees. Banks with the movement if left out */
+  roll?: number;
+};
+export type CameraPath = {
+  name: string;
+  /** Whether to start again from the first keyframe after the last one, on by default */
+  loop: boolean;
+  /** In time order */
+  keyframes: CameraKeyframe[];
+};
+export type SpriteShape = 'glow' | 'star' | 'ring' | 'square';
+/** Tunes the sprites drawn from a shape */
+export type SpriteParams = {
+  /** How much of the sprite the shape fills, from 0 to 1 */
+  size: number;
+  /** How softly the shape's edges fade out, from 0 (hard) to 1 */
+  falloff: number;
+};
+/** What each particle is drawn with, either drawn from a shape or loaded from a URL */
+export type Sprite = { id: string; name: string } & ({ shape: SpriteShape } | { url: string });
+/** How the menu and toolbar are styled while a theme is shown */
+export type ThemeOverlay = {
+  /** CSS colour of the borders and highlighted buttons */
+  accent: string;
+  /** CSS font family */
+  font: string;
+};
+/** Everything that gives the visuals the look of an era, switched together */
+export type Theme = {
+  id: string;
+  name: string;
+  /** Id of the sprite each particle is drawn with */
+  sprite: string;
+  /** Id of the palette new orbits are coloured with */
+  palette: string;
+  paletteMode: PaletteMode;
+  /** CSS colour behind the particles */
+  background: string;
+  fog: { colour: string; density: number };
+  /** Effects the theme turns on, the rest are turned off */
+  effects: Partial<EffectSettings>;
+  overlay?: ThemeOverlay;
+};
+/** Size a still or recording is saved at, the screen's size when width and height are left out */
+export type OutputSize = {
+  id: string;
+  name: string;
+  /** In px */
+  width?: number;
+  height?: number;
+};
+/** What one particle set of a still was showing, and where it was */
+export type StillLevel = {
+  z: number;
+  rotation: number;
+  /** Params of the orbit it showed, stills saved before these show the still's params on all */
+  params?: OrbitParams<number>;
+  /** Hue, saturation and value before the live colour settings are applied */
+  colour?: [number, number, number];
+};
+/** Everything needed to draw a saved still again, kept in the PNG */
+export type StillMetadata = {
+  version: number;
+  /** Params of the orbit on screen */
+  params: OrbitParams<number>;
+  /** Seed of the sequence of orbits, so it carries on the same */
+  seed: number;
+  /** Time on the animation clock, which the cycling hues follow, in ms */
+  time: number;
+  settings: Partial<SimpleSettings>;
+  /** Roll is in radians */
+  camera: { x: number; y: number; roll: number };
+  /** Each particle set, skipped if the level or subset count differs */
+  levels: StillLevel[];
+};
 /** Settings that can be adjusted while the simulation is running */
 export type SimpleMenuSettings = {
+  /** How fast the levels come towards the camera, in units per second */
   speed: number;
+  /** How fast the tunnel turns, in radians per second, negative is clockwise */
   rotationSpeed: number;
+  clockMode: ClockMode;
+  /** Steps per second in the fixed and manual clock modes */
+  frameRate: number;
   cameraFov: number;
+  attractor: string;
+  /** Whether to morph smoothly into each new orbit rather than switching level by level */
+  morph: boolean;
+  /** How long each morph takes, in ms */
+  morphDuration: number;
   vibeCheck?: boolean;
+  /** Whether to show the orbits the active learner is least sure about, to make ratings count */
+  activeLearning: boolean;
+  /** Id of the palette new orbits are coloured with */
+  palette: string;
+  paletteMode: PaletteMode;
+  /** Colours of the user-defined palette */
+  customPalette: string[];
+  /** Multiply the saturation and brightness of every colour, from 0 to 1 */
+  saturation: number;
+  brightness: number;
+  spriteSize: number;
+  /** Id of the sprite each particle is drawn with */
+  sprite: string;
+  spriteParams: SpriteParams;
+  /** The uploaded sprite image, as a data URL */
+  customSprite?: string;
+  /** Turns every hue round the colour wheel, from 0 to 1. Driven by the audio-reactive mode */
+  hueShift: number;
+  orbitSchedule: OrbitSchedule;
+  /** Time each orbit is shown for with the interval schedule, in ms */
+  orbitInterval: number;
+  /** Range the time is picked from with the random schedule, in ms */
+  orbitIntervalMin: number;
+  orbitIntervalMax: number;
+  effects: EffectSettings;
+  cameraMode: CameraMode;
+  /** How far the camera can move from the middle of the tunnel */
+  cameraBound: number;
+  /** How much of the way to its target the camera moves each frame, from 0 to 1 */
+  cameraEasing: number;
+  /** Most the camera banks into sideways movement, in degrees */
+  cameraRoll: number;
+  /** Followed in the keyframes camera mode */
+  cameraPath?: CameraPath;
+  /** Id of the theme last switched to, the settings it set can be changed afterwards */
+  theme: string;
+  /** How many orbits to show before moving on to the next theme, 0 to stay on one */
+  themeRotation: number;
+  /** Why the effects aren't shown as well as they could be, if they aren't. Read only */
+  effectsWarning?: string;
+  /** Id of the size stills are saved at */
+  stillSize: string;
+  /** Id of the playlist to play orbits from, if any */
+  playlist?: string;
+  playlistMode: PlaylistMode;
 };
 export type SimpleSettings = SimpleMenuSettings & ToolbarSettings;
 /** Settings that require recreating the simulation */
@@ -58,7 +336,15 @@ export type AdvancedSettings = {
 export type MenuSettings = SimpleMenuSettings & AdvancedSettings;
 export type ToolbarSettings = {
   mouseLocked: boolean;
+  /** Whether the number keys rate orbits, and the rating buttons and HUD are shown */
+  ratingMode: boolean;
+  /** Whether the particles have stopped moving and the orbit stays put */
+  paused: boolean;
   isPlaying?: boolean;
+  /** Whether a still is being saved. Read only */
+  savingStill?: boolean;
+  /** Why the last still couldn't be saved or restored, cleared after a few seconds. Read only */
+  stillError?: string;
 };
 export type Settings = MenuSettings & ToolbarSettings;
 export type OnSettingsChange<T> = (settings: Partial<T>) => unknown;
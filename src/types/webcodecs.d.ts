@@ -0,0 +1,53 @@
+// WebCodecs is missing from this TypeScript version's DOM types, these are the parts used
+
+interface VideoEncoderConfig {
+  codec: string;
+  width: number;
+  height: number;
+  /** In bits per second */
+  bitrate?: number;
+  framerate?: number;
+}
+
+interface VideoEncoderSupport {
+  supported?: boolean;
+  config?: VideoEncoderConfig;
+}
+
+interface EncodedVideoChunk {
+  readonly type: 'key' | 'delta';
+  /** In µs */
+  readonly timestamp: number;
+  readonly byteLength: number;
+  copyTo(destination: ArrayBufferView): void;
+}
+
+interface VideoEncoderInit {
+  output: (chunk: EncodedVideoChunk) => void;
+  error: (error: DOMException) => void;
+}
+
+interface VideoEncoder {
+  readonly state: 'unconfigured' | 'configured' | 'closed';
+  readonly encodeQueueSize: number;
+  configure(config: VideoEncoderConfig): void;
+  encode(frame: VideoFrame, options?: { keyFrame?: boolean }): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+declare const VideoEncoder: {
+  prototype: VideoEncoder;
+  new (init: VideoEncoderInit): VideoEncoder;
+  isConfigSupported(config: VideoEncoderConfig): Promise<VideoEncoderSupport>;
+};
+
+interface VideoFrame {
+  close(): void;
+}
+
+declare const VideoFrame: {
+  prototype: VideoFrame;
+  /** Timestamp and duration are in µs */
+  new (image: HTMLCanvasElement, init: { timestamp: number; duration?: number }): VideoFrame;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { OrbitParams, Rating } from '@/types/hopalong';
+import ActiveLearner from './ActiveLearner';
+import { attractors, randomParams } from './attractors';
+import { RandomStream, createRandom } from './random';
+
+const hopalong = attractors[0];
+
+/**
+ * Made up ratings from someone who likes orbits with `a` in the middle of its range
+ */
+function rate(params: OrbitParams<number>): Rating {
+  return { rating: 8 - 6 * Math.abs(params.a / 30), params };
+}
+
+function createRatings(seed: number, count: number): Rating[] {
+  const random = createRandom(seed, RandomStream.PARAMS);
+  return Array.from({ length: count }, () => rate(randomParams(hopalong, random)));
+}
+
+describe('ActiveLearner', () => {
+  it('starts near the prior rating and unsure', () => {
+    const learner = new ActiveLearner(1);
+    const { mean, spread } = learner.predict(randomParams(hopalong, createRandom(2)));
+    expect(mean).toBeGreaterThan(0);
+    expect(mean).toBeLessThan(9);
+    expect(spread).toBeGreaterThan(0.5);
+  });
+
+  it('learns the same way from the same seed', () => {
+    const ratings = createRatings(3, 20);
+    const first = new ActiveLearner(4);
+    const second = new ActiveLearner(4);
+    first.train(ratings);
+    second.train(ratings);
+    const params = randomParams(hopalong, createRandom(5));
+    expect(second.predict(params)).toEqual(first.predict(params));
+  });
+
+  it('learns which orbits are liked and does better than guessing the average', () => {
+    const learner = new ActiveLearner(6);
+    learner.train(createRatings(7, 300));
+    const params = randomParams(hopalong, createRandom(8));
+    const liked = learner.predict({ ...params, a: 0 }).mean;
+    const disliked = learner.predict({ ...params, a: 29 }).mean;
+    expect(liked - disliked).toBeGreaterThan(2);
+
+    const { ratings, meanError, baselineError } = learner.getStats('hopalong');
+    expect(ratings).toBe(300);
+    expect(meanError).toBeLessThan(baselineError as number);
+  });
+
+  it('becomes surer as ratings come in', () => {
+    const learner = new ActiveLearner(9);
+    const params = randomParams(hopalong, createRandom(10));
+    const before = learner.predict(params).spread;
+    learner.train(createRatings(11, 100));
+    expect(learner.predict(params).spread).toBeLessThan(before);
+  });
+
+  it('picks the candidate it knows least about', () => {
+    const learner = new ActiveLearner(12);
+    const random = createRandom(13, RandomStream.PARAMS);
+    const known = randomParams(hopalong, random);
+    const unknown = randomParams(hopalong, random);
+    for (let i = 0; i < 30; i++) {
+      learner.learn(rate(known));
+    }
+    expect(learner.pickMostUncertain([known, unknown])).toBe(unknown);
+  });
+
+  it('keeps a separate model for each attractor', () => {
+    const learner = new ActiveLearner(14);
+    learner.train(createRatings(15, 5));
+    expect(learner.getStats('hopalong').ratings).toBe(5);
+    expect(learner.getStats(attractors[1].id)).toEqual({
+      ratings: 0,
+      meanError: undefined,
+      baselineError: undefined,
+    });
+  });
+});
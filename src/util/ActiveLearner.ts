@@ -0,0 +1,201 @@
+import { OrbitParams, Rating } from '@/types/hopalong';
+import { getAttractor } from './attractors';
+import { Random, createRandom, randomSeed } from './random';
+
+// How many models vote on each prediction
+const ENSEMBLE_SIZE = 8;
+// How strongly each model's weights are pulled back towards where they started
+const PRIOR_PRECISION = 10;
+// Spread of the starting weights, so the models disagree before any ratings arrive
+const PRIOR_SCALE = 1;
+// Rating the models guess before they've seen any
+const PRIOR_RATING = 4.5;
+// How quickly the tracked error forgets older ratings
+const ERROR_DECAY = 0.05;
+
+/**
+ * Ridge regression updated one rating at a time with recursive least squares
+ */
+type Member = {
+  weights: number[];
+  /** Inverse of the precision matrix, shrinks as ratings come in */
+  covariance: number[][];
+};
+
+type Ensemble = {
+  members: Member[];
+  ratings: number;
+  ratingSum: number;
+  /** Moving average of how far off the prediction was for each new rating, before learning it */
+  meanError?: number;
+  /** The same for always guessing the average rating so far, to compare against */
+  baselineError?: number;
+};
+
+export type Prediction = {
+  mean: number;
+  /** Standard deviation of the members' predictions, higher where they disagree */
+  spread: number;
+};
+
+export type LearnerStats = Pick<Ensemble, 'ratings' | 'meanError' | 'baselineError'>;
+
+/**
+ * Scales each param the attractor uses to -1..1, adding squares so the models can learn that
+ * the middle of a range looks better than the ends
+ */
+function getFeatures(params: OrbitParams<number>): number[] {
+  const attractor = getAttractor(params.attractor);
+  const scaled = [
+    ...attractor.params.map(({ key, min, max }) => ((params[key] - min) / (max - min)) * 2 - 1),
+    params.choice * 2 - 1,
+    params.xPreset * 2 - 1,
+    params.yPreset * 2 - 1,
+  ];
+  return [1, ...scaled, ...scaled.map((value) => value * value)];
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function movingAverage(average: number | undefined, value: number): number {
+  return typeof average === 'undefined' ? value : average + (value - average) * ERROR_DECAY;
+}
+
+/**
+ * Knuth's method, fine for a mean this small
+ */
+function poisson(random: Random, mean = 1): number {
+  const limit = Math.exp(-mean);
+  let count = -1;
+  let product = 1;
+  do {
+    count++;
+    product *= random();
+  } while (product > limit);
+  return count;
+}
+
+/**
+ * Learns what people like from their ratings as they're made, so orbits can be picked where it
+ * knows the least. Each attractor gets a bagged ensemble of small linear models, trained online
+ * on Poisson resampled ratings, and the disagreement between them is used as the uncertainty.
+ */
+export default class ActiveLearner {
+  ensembles = new Map<string, Ensemble>();
+  random: Random;
+
+  constructor(seed = randomSeed()) {
+    this.random = createRandom(seed);
+  }
+
+  getEnsemble(params: OrbitParams<number>): Ensemble {
+    const { id } = getAttractor(params.attractor);
+    let ensemble = this.ensembles.get(id);
+    if (!ensemble) {
+      const size = getFeatures(params).length;
+      ensemble = { members: [], ratings: 0, ratingSum: 0 };
+      for (let m = 0; m < ENSEMBLE_SIZE; m++) {
+        const weights = Array.from({ length: size }, () => (this.random() * 2 - 1) * PRIOR_SCALE);
+        weights[0] += PRIOR_RATING;
+        const covariance = Array.from({ length: size }, (_, i) =>
+          Array.from({ length: size }, (_, j) => (i === j ? 1 / PRIOR_PRECISION : 0))
+        );
+        ensemble.members.push({ weights, covariance });
+      }
+      this.ensembles.set(id, ensemble);
+    }
+    return ensemble;
+  }
+
+  predict(params: OrbitParams<number>): Prediction {
+    const features = getFeatures(params);
+    const predictions = this.getEnsemble(params).members.map(({ weights }) =>
+      dot(weights, features)
+    );
+    const mean = predictions.reduce((sum, prediction) => sum + prediction, 0) / predictions.length;
+    const variance =
+      predictions.reduce((sum, prediction) => sum + (prediction - mean) ** 2, 0) /
+      predictions.length;
+    return { mean, spread: Math.sqrt(variance) };
+  }
+
+  /**
+   * The candidate the models disagree on most, so its rating teaches them the most
+   */
+  pickMostUncertain(candidates: OrbitParams<number>[]): OrbitParams<number> {
+    let best = candidates[0];
+    let bestSpread = -Infinity;
+    for (const candidate of candidates) {
+      const { spread } = this.predict(candidate);
+      if (spread > bestSpread) {
+        best = candidate;
+        bestSpread = spread;
+      }
+    }
+    return best;
+  }
+
+  learn({ rating, params }: Rating) {
+    const ensemble = this.getEnsemble(params);
+    // Measure the error before learning from the rating, so it shows how well the models generalise
+    if (ensemble.ratings > 0) {
+      const error = Math.abs(this.predict(params).mean - rating);
+      const baselineError = Math.abs(ensemble.ratingSum / ensemble.ratings - rating);
+      ensemble.meanError = movingAverage(ensemble.meanError, error);
+      ensemble.baselineError = movingAverage(ensemble.baselineError, baselineError);
+    }
+    ensemble.ratings++;
+    ensemble.ratingSum += rating;
+
+    const features = getFeatures(params);
+    for (const member of ensemble.members) {
+      // Each member sees the rating a random number of times, which keeps them different
+      const count = poisson(this.random);
+      if (count > 0) {
+        updateMember(member, features, rating, count);
+      }
+    }
+  }
+
+  train(ratings: Rating[]) {
+    ratings.forEach(this.learn, this);
+  }
+
+  getStats(attractor?: string): LearnerStats {
+    const ensemble = this.ensembles.get(getAttractor(attractor).id);
+    return {
+      ratings: ensemble?.ratings || 0,
+      meanError: ensemble?.meanError,
+      baselineError: ensemble?.baselineError,
+    };
+  }
+}
+
+/**
+ * Recursive least squares step, counting the rating `count` times
+ */
+function updateMember(
+  { weights, covariance }: Member,
+  features: number[],
+  rating: number,
+  count: number
+) {
+  const size = features.length;
+  const gain = covariance.map((row) => dot(row, features));
+  const denominator = 1 / count + dot(features, gain);
+  const error = rating - dot(weights, features);
+  for (let i = 0; i < size; i++) {
+    weights[i] += (gain[i] / denominator) * error;
+  }
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      covariance[i][j] -= (gain[i] * gain[j]) / denominator;
+    }
+  }
+}
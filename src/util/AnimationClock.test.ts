@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import AnimationClock, { MAX_FRAME_TIME } from './AnimationClock';
+
+describe('AnimationClock', () => {
+  it('moves on by the time between ticks in real time', () => {
+    const clock = new AnimationClock({ mode: 'realtime', frameRate: 60 });
+    expect(clock.tick(1000)).toBe(0);
+    expect(clock.tick(1016)).toBe(16);
+    expect(clock.tick(1050)).toBe(34);
+    expect(clock.time).toBe(50);
+  });
+
+  it('caps long frames in real time', () => {
+    const clock = new AnimationClock({ mode: 'realtime', frameRate: 60 });
+    clock.tick(0);
+    expect(clock.tick(5000)).toBe(MAX_FRAME_TIME);
+    // Time going backwards doesn't move anything
+    expect(clock.tick(4000)).toBe(0);
+  });
+
+  it('moves on by a fixed step each tick whatever the time', () => {
+    const clock = new AnimationClock({ mode: 'fixed', frameRate: 50 });
+    expect(clock.tick(0)).toBe(20);
+    expect(clock.tick(1)).toBe(20);
+    expect(clock.tick(10000)).toBe(20);
+    expect(clock.time).toBe(60);
+  });
+
+  it('only moves when stepped in manual mode', () => {
+    const clock = new AnimationClock({ mode: 'manual', frameRate: 25 });
+    expect(clock.tick(0)).toBe(0);
+    expect(clock.tick(1000)).toBe(0);
+    expect(clock.step()).toBe(40);
+    expect(clock.time).toBe(40);
+  });
+
+  it("doesn't count time spent in another mode as one long frame", () => {
+    const clock = new AnimationClock({ mode: 'realtime', frameRate: 60 });
+    clock.tick(0);
+    clock.configure({ mode: 'manual' });
+    clock.tick(10);
+    clock.configure({ mode: 'realtime' });
+    expect(clock.tick(90)).toBe(0);
+    expect(clock.tick(100)).toBe(10);
+  });
+
+  it('is stepped in the fixed and manual modes', () => {
+    const clock = new AnimationClock({ mode: 'realtime', frameRate: 60 });
+    expect(clock.stepped).toBe(false);
+    clock.configure({ mode: 'fixed' });
+    expect(clock.stepped).toBe(true);
+    clock.configure({ mode: 'manual' });
+    expect(clock.stepped).toBe(true);
+  });
+
+  it('steps at least once a second', () => {
+    const clock = new AnimationClock({ mode: 'fixed', frameRate: 0 });
+    expect(clock.getStepTime()).toBe(1000);
+  });
+});
@@ -0,0 +1,72 @@
+import autoBind from 'auto-bind';
+import { ClockMode } from '@/types/hopalong';
+
+// Longest time counted for one frame in real time, so a stalled tab doesn't jump the tunnel
+// ahead or change the orbit as soon as it comes back (in ms)
+export const MAX_FRAME_TIME = 100;
+
+export type ClockOptions = {
+  mode: ClockMode;
+  /** Steps per second in the fixed and manual modes */
+  frameRate: number;
+};
+
+/**
+ * Keeps the time everything moves by. In real time each frame moves it on by however long the
+ * frame took, so the tunnel runs at the same speed at any refresh rate. With a fixed step each
+ * frame moves it on by the same amount, so the same settings always draw the same frames, and
+ * in manual mode it only moves when stepped.
+ */
+export default class AnimationClock {
+  options: ClockOptions;
+  /** How long the animation has run for, in ms */
+  time = 0;
+  /** When the last frame was ticked, in ms from performance.now */
+  lastTick?: number;
+
+  constructor(options: ClockOptions) {
+    autoBind(this);
+    this.options = options;
+  }
+
+  configure(options: Partial<ClockOptions>) {
+    this.options = { ...this.options, ...options };
+    // Don't count the time spent in another mode as one long frame
+    this.lastTick = undefined;
+  }
+
+  /** Whether time moves in fixed steps, where every frame has to come out the same each run */
+  get stepped(): boolean {
+    return this.options.mode !== 'realtime';
+  }
+
+  /** How long each fixed step is, in ms */
+  getStepTime(): number {
+    return 1000 / Math.max(1, this.options.frameRate);
+  }
+
+  /**
+   * Called once per animation frame, returns how far to move everything on in ms
+   */
+  tick(now = performance.now()): number {
+    const { mode } = this.options;
+    let delta = 0;
+    if (mode === 'fixed') {
+      delta = this.getStepTime();
+    } else if (mode === 'realtime' && typeof this.lastTick !== 'undefined') {
+      delta = Math.min(Math.max(now - this.lastTick, 0), MAX_FRAME_TIME);
+    }
+    this.lastTick = now;
+    this.time += delta;
+    return delta;
+  }
+
+  /**
+   * Moves on by one fixed step whatever the mode, returns the step in ms
+   */
+  step(): number {
+    const delta = this.getStepTime();
+    this.time += delta;
+    return delta;
+  }
+}
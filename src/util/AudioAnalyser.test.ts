@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import AudioAnalyser from './AudioAnalyser';
+
+const SAMPLE_RATE = 44100;
+// Width of each frequency bin, in Hz
+const BIN_WIDTH = SAMPLE_RATE / 2048;
+
+/**
+ * An analyser fed with spectra from `getSpectrum`, given the frequency of each bin
+ */
+function createAnalyser(getSpectrum: (frequency: number) => number) {
+  const analyser = new AudioAnalyser();
+  analyser.context = { sampleRate: SAMPLE_RATE, state: 'running' } as AudioContext;
+  analyser.analyser = {
+    getByteFrequencyData: (spectrum: Uint8Array) => {
+      spectrum.forEach((_, i) => {
+        spectrum[i] = getSpectrum(i * BIN_WIDTH);
+      });
+    },
+  } as AnalyserNode;
+  analyser.setState({ input: 'microphone' });
+  return analyser;
+}
+
+describe('AudioAnalyser', () => {
+  it('measures nothing until it has an input', () => {
+    const analyser = new AudioAnalyser();
+    expect(analyser.update(0)).toEqual({ bass: 0, mid: 0, treble: 0, level: 0, onset: 0 });
+  });
+
+  it('splits the spectrum into bass, mid and treble', () => {
+    const bass = createAnalyser((frequency) => (frequency < 250 ? 255 : 0)).update(0);
+    expect(bass).toMatchObject({ bass: 1, mid: 0, treble: 0 });
+    expect(bass.level).toBeCloseTo(1 / 3);
+
+    const mid = createAnalyser((frequency) =>
+      frequency >= 250 && frequency < 2000 ? 255 : 0
+    ).update(0);
+    expect(mid).toMatchObject({ bass: 0, mid: 1, treble: 0 });
+
+    const treble = createAnalyser((frequency) => (frequency >= 2000 ? 255 : 0)).update(0);
+    expect(treble).toMatchObject({ bass: 0, mid: 0, treble: 1 });
+  });
+
+  it('scales each band by its loudest recent level', () => {
+    let volume = 200;
+    const analyser = createAnalyser(() => volume);
+    expect(analyser.update(0).bass).toBe(1);
+    volume = 100;
+    expect(analyser.update(16).bass).toBeCloseTo(0.5, 2);
+  });
+
+  it('treats quiet bands as quiet rather than scaling them up', () => {
+    const analyser = createAnalyser(() => 2);
+    expect(analyser.update(0).bass).toBeCloseTo(2 / 255 / 0.05);
+  });
+
+  it('finds onsets when the spectrum jumps, then lets them die away', () => {
+    let volume = 0;
+    const analyser = createAnalyser(() => volume);
+    let time = 0;
+    for (let i = 0; i < 30; i++) {
+      expect(analyser.update((time += 16)).onset).toBe(0);
+    }
+    volume = 200;
+    expect(analyser.update((time += 16)).onset).toBe(1);
+    // Staying loud isn't another onset
+    expect(analyser.update((time += 150)).onset).toBeCloseTo(Math.exp(-1));
+  });
+});
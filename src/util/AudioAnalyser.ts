@@ -0,0 +1,202 @@
+import autoBind from 'auto-bind';
+import { AudioFeatures } from '@/types/hopalong';
+import Observable from './Observable';
+
+const FFT_SIZE = 2048;
+// Frequency ranges of the bands, in Hz
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 10000],
+} as const;
+// How quickly each band's loudest level is forgotten, so quiet tracks still move the visuals
+const PEAK_DECAY = 0.998;
+// Levels below this are treated as silence rather than scaled up to fill the range
+const MIN_PEAK = 0.05;
+// How many frames of spectral flux the onset threshold is averaged over, about half a second
+const FLUX_HISTORY = 30;
+// How far above the average flux a frame has to be to count as an onset
+const ONSET_THRESHOLD = 1.5;
+// Flux below this is too quiet to be an onset, however little came before it
+const MIN_ONSET_FLUX = 0.005;
+// Shortest gap between onsets, in ms
+const MIN_ONSET_INTERVAL = 100;
+// How long an onset takes to die away to a third, in ms
+const ONSET_DECAY = 150;
+
+export type AudioInput = 'none' | 'player' | 'microphone';
+
+export type AudioState = {
+  input: AudioInput;
+  /** Name of the microphone being listened to */
+  name?: string;
+  error?: string;
+};
+
+/**
+ * Listens to the music player or the microphone and measures what the visuals react to:
+ * the energy in each band, and onsets found from jumps in the spectrum
+ */
+export default class AudioAnalyser extends Observable<AudioState> {
+  context?: AudioContext;
+  analyser?: AnalyserNode;
+  /** A media element can only be connected to a context once, so its source is kept */
+  playerSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+  playerSource?: MediaElementAudioSourceNode;
+  stream?: MediaStream;
+  streamSource?: MediaStreamAudioSourceNode;
+
+  spectrum = new Uint8Array(FFT_SIZE / 2);
+  previousSpectrum = new Uint8Array(FFT_SIZE / 2);
+  peaks: Record<keyof typeof BANDS, number> = { bass: MIN_PEAK, mid: MIN_PEAK, treble: MIN_PEAK };
+  fluxHistory: number[] = [];
+  lastOnsetAt = -Infinity;
+  lastFrameAt?: number;
+  features: AudioFeatures = { bass: 0, mid: 0, treble: 0, level: 0, onset: 0 };
+
+  constructor() {
+    super({ input: 'none' });
+    autoBind(this);
+  }
+
+  /**
+   * Audio contexts can only start after the user has interacted with the page
+   */
+  getAnalyser(): AnalyserNode {
+    if (!this.context || !this.analyser) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = FFT_SIZE;
+      this.analyser.smoothingTimeConstant = 0.5;
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+    return this.analyser;
+  }
+
+  /**
+   * Reacts to whatever the given player plays
+   */
+  listenTo(player: HTMLMediaElement) {
+    this.stop();
+    const analyser = this.getAnalyser();
+    const context = this.context as AudioContext;
+    let source = this.playerSources.get(player);
+    if (!source) {
+      source = context.createMediaElementSource(player);
+      // Once connected to the context the player can only be heard through it
+      source.connect(context.destination);
+      this.playerSources.set(player, source);
+    }
+    source.connect(analyser);
+    this.playerSource = source;
+    this.setState({ input: 'player' });
+  }
+
+  async useMicrophone() {
+    this.stop();
+    const analyser = this.getAnalyser();
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      console.error('Unable to use the microphone.', e);
+      this.setState({ input: 'none', error: 'Unable to use the microphone' });
+      return;
+    }
+    this.streamSource = (this.context as AudioContext).createMediaStreamSource(this.stream);
+    this.streamSource.connect(analyser);
+    this.setState({ input: 'microphone', name: this.stream.getAudioTracks()[0]?.label });
+  }
+
+  stop() {
+    if (this.playerSource && this.analyser) {
+      // Keep the player connected to the speakers
+      this.playerSource.disconnect(this.analyser);
+      this.playerSource = undefined;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => track.stop());
+      this.streamSource?.disconnect();
+      this.stream = this.streamSource = undefined;
+    }
+    this.features = { bass: 0, mid: 0, treble: 0, level: 0, onset: 0 };
+    if (this.state.input !== 'none') {
+      this.setState({ input: 'none' });
+    }
+  }
+
+  /**
+   * Measures the current frame of audio, call once per animation frame
+   */
+  update(time = performance.now()): AudioFeatures {
+    const { analyser, context } = this;
+    if (!analyser || !context || this.state.input === 'none') {
+      return this.features;
+    }
+    [this.previousSpectrum, this.spectrum] = [this.spectrum, this.previousSpectrum];
+    analyser.getByteFrequencyData(this.spectrum);
+
+    const binWidth = context.sampleRate / FFT_SIZE;
+    const bands = {} as Record<keyof typeof BANDS, number>;
+    for (const band of Object.keys(BANDS) as (keyof typeof BANDS)[]) {
+      const [low, high] = BANDS[band];
+      const energy = this.getEnergy(Math.round(low / binWidth), Math.round(high / binWidth));
+      this.peaks[band] = Math.max(energy, this.peaks[band] * PEAK_DECAY, MIN_PEAK);
+      bands[band] = energy / this.peaks[band];
+    }
+
+    const elapsed = typeof this.lastFrameAt === 'undefined' ? 0 : time - this.lastFrameAt;
+    this.lastFrameAt = time;
+    let onset = this.features.onset * Math.exp(-elapsed / ONSET_DECAY);
+    if (this.detectOnset(time)) {
+      onset = 1;
+    }
+    this.features = {
+      ...bands,
+      level: (bands.bass + bands.mid + bands.treble) / 3,
+      onset,
+    };
+    return this.features;
+  }
+
+  /**
+   * Mean level of the frequency bins in [start, end), from 0 to 1
+   */
+  getEnergy(start: number, end: number): number {
+    let sum = 0;
+    const last = Math.min(end, this.spectrum.length);
+    for (let i = start; i < last; i++) {
+      sum += this.spectrum[i];
+    }
+    return last > start ? sum / (last - start) / 255 : 0;
+  }
+
+  /**
+   * Spectral flux onset detection, an onset is when the spectrum gets louder much faster than it
+   * has been recently
+   */
+  detectOnset(time: number): boolean {
+    let flux = 0;
+    for (let i = 0; i < this.spectrum.length; i++) {
+      flux += Math.max(0, this.spectrum[i] - this.previousSpectrum[i]);
+    }
+    flux /= this.spectrum.length * 255;
+
+    const history = this.fluxHistory;
+    const average = history.reduce((sum, value) => sum + value, 0) / (history.length || 1);
+    history.push(flux);
+    if (history.length > FLUX_HISTORY) {
+      history.shift();
+    }
+    if (
+      history.length < FLUX_HISTORY ||
+      flux <= Math.max(average * ONSET_THRESHOLD, MIN_ONSET_FLUX) ||
+      time - this.lastOnsetAt < MIN_ONSET_INTERVAL
+    ) {
+      return false;
+    }
+    this.lastOnsetAt = time;
+    return true;
+  }
+}
@@ -0,0 +1,182 @@
+import autoBind from 'auto-bind';
+import {
+  AudioFeatures,
+  AudioMapping,
+  AudioMappings,
+  AudioTarget,
+  SimpleSettings,
+} from '@/types/hopalong';
+import Hopalong from '@/hopalong';
+import AudioAnalyser from './AudioAnalyser';
+import { isObject } from './validation';
+
+const STORAGE_KEY = 'hopalong-audio-mappings';
+
+// How many turns of the colour wheel a hue shift mapping at full strength makes per second
+const HUE_SHIFT_SPEED = 0.25;
+// A source has to rise above this to count as a peak for orbit changes
+const PEAK_LEVEL = 0.9;
+// Shortest time between orbit changes, so fast music doesn't turn into a strobe (in ms)
+const MIN_ORBIT_CHANGE_INTERVAL = 1000;
+
+export const defaultMappings: AudioMappings = {
+  speed: { source: 'bass', amount: 1 },
+  rotationSpeed: { source: 'mid', amount: 0.5 },
+  spriteSize: { source: 'onset', amount: 1 },
+  hueShift: { source: 'treble', amount: 0.2 },
+  orbitChange: { source: 'onset', amount: 0.25 },
+};
+
+type ReactiveSettings = Pick<SimpleSettings, 'speed' | 'rotationSpeed' | 'spriteSize' | 'hueShift'>;
+const REACTIVE_KEYS = ['speed', 'rotationSpeed', 'spriteSize', 'hueShift'] as const;
+
+type ReactorProps = {
+  analyser: AudioAnalyser;
+  /** Looked up every frame, so the reactor follows the simulation when it's recreated */
+  getHopalong: () => Hopalong;
+};
+
+function getSettings(hopalong: Hopalong): ReactiveSettings {
+  const { speed, rotationSpeed, spriteSize, hueShift } = hopalong;
+  return { speed, rotationSpeed, spriteSize, hueShift };
+}
+
+export function loadMappings(): AudioMappings {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    return isObject(saved) ? { ...defaultMappings, ...saved } : defaultMappings;
+  } catch (e) {
+    console.warn('Unable to load the audio mappings.', e);
+    return defaultMappings;
+  }
+}
+
+function saveMappings(mappings: AudioMappings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  } catch (e) {
+    console.warn('Unable to save the audio mappings.', e);
+  }
+}
+
+/**
+ * Drives the settings from the audio while something is playing. The settings chosen by hand
+ * are kept as a base which the audio adds to, and are put back when the audio stops.
+ */
+export default class AudioReactor {
+  props: ReactorProps;
+  mappings = loadMappings();
+  frameKey?: number;
+  hopalong?: Hopalong;
+  /** The settings as they'd be without the audio */
+  base?: ReactiveSettings;
+  /** What was last applied, to notice when the settings are changed some other way */
+  applied?: ReactiveSettings;
+  /** How far the audio has turned the hues, on top of the base hue shift */
+  hueOffset = 0;
+  lastFrameAt?: number;
+  /** Whether the orbit change source was above the peak level last frame */
+  peaking = false;
+  lastOrbitChangeAt = 0;
+
+  constructor(props: ReactorProps) {
+    autoBind(this);
+    this.props = props;
+    props.analyser.subscribe(({ input }) => {
+      if (input === 'none') {
+        this.stop();
+      } else {
+        this.start();
+      }
+    });
+  }
+
+  setMapping(target: AudioTarget, mapping: Partial<AudioMapping>) {
+    this.mappings = { ...this.mappings, [target]: { ...this.mappings[target], ...mapping } };
+    saveMappings(this.mappings);
+  }
+
+  resetMappings() {
+    this.mappings = defaultMappings;
+    saveMappings(this.mappings);
+  }
+
+  start() {
+    if (typeof this.frameKey === 'undefined') {
+      this.frameKey = requestAnimationFrame(this.tick);
+    }
+  }
+
+  stop() {
+    if (typeof this.frameKey === 'undefined') {
+      return;
+    }
+    cancelAnimationFrame(this.frameKey);
+    this.frameKey = undefined;
+    if (this.hopalong && this.base) {
+      this.hopalong.applySettings(this.base);
+    }
+    this.hopalong = this.base = this.applied = this.lastFrameAt = undefined;
+    this.hueOffset = 0;
+  }
+
+  tick(time: number) {
+    this.frameKey = requestAnimationFrame(this.tick);
+    const hopalong = this.props.getHopalong();
+    const current = getSettings(hopalong);
+    if (hopalong !== this.hopalong || !this.base || !this.applied) {
+      this.hopalong = hopalong;
+      this.base = current;
+    } else {
+      for (const key of REACTIVE_KEYS) {
+        // Anything that changed since the last frame was set by hand, so becomes the new base
+        if (current[key] !== this.applied[key]) {
+          this.base[key] = current[key];
+        }
+      }
+    }
+    const elapsed = typeof this.lastFrameAt === 'undefined' ? 0 : time - this.lastFrameAt;
+    this.lastFrameAt = time;
+
+    const features = this.props.analyser.update(time);
+    this.applied = this.getReactiveSettings(this.base, features, elapsed / 1000);
+    hopalong.applySettings(this.applied, false);
+    this.checkOrbitChange(hopalong, features, time);
+  }
+
+  getReactiveSettings(
+    base: ReactiveSettings,
+    features: AudioFeatures,
+    seconds: number
+  ): ReactiveSettings {
+    const value = (target: AudioTarget) => {
+      const { source, amount } = this.mappings[target];
+      return source === 'none' ? 0 : features[source] * amount;
+    };
+    this.hueOffset = (this.hueOffset + value('hueShift') * HUE_SHIFT_SPEED * seconds) % 1;
+    return {
+      speed: base.speed * (1 + value('speed')),
+      rotationSpeed: base.rotationSpeed * (1 + value('rotationSpeed')),
+      spriteSize: base.spriteSize * (1 + value('spriteSize')),
+      hueShift: (base.hueShift + this.hueOffset) % 1,
+    };
+  }
+
+  /**
+   * Moves on to the next orbit on some of the peaks of the orbit change source
+   */
+  checkOrbitChange(hopalong: Hopalong, features: AudioFeatures, time: number) {
+    const { source, amount } = this.mappings.orbitChange;
+    const peaking = source !== 'none' && features[source] >= PEAK_LEVEL;
+    const rising = peaking && !this.peaking;
+    this.peaking = peaking;
+    if (
+      rising &&
+      time - this.lastOrbitChangeAt >= MIN_ORBIT_CHANGE_INTERVAL &&
+      Math.random() < amount
+    ) {
+      this.lastOrbitChangeAt = time;
+      hopalong.skipOrbit();
+    }
+  }
+}
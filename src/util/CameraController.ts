@@ -0,0 +1,202 @@
+import autoBind from 'auto-bind';
+import { MathUtils, PerspectiveCamera, Vector2, Vector3 } from 'three';
+import { CameraMode, CameraPath } from '@/types/hopalong';
+import { Random } from './random';
+
+export const CAMERA_MODES: CameraMode[] = ['mouse', 'autopilot', 'orbit', 'keyframes'];
+
+// The easing is how far the camera moves in a frame this long, whatever the frame rate (in ms)
+const REFERENCE_FRAME_TIME = 1000 / 60;
+// How long the autopilot takes to get from one random point to the next (in ms)
+const AUTOPILOT_SEGMENT_TIME = 8000;
+// How long the orbit mode takes to go round once (in ms)
+const ORBIT_PERIOD = 60000;
+// Radius of the orbit, as a fraction of the bound
+const ORBIT_RADIUS = 0.75;
+// Sideways speed which banks the camera all the way, as a fraction of the bound per second
+const FULL_BANK_SPEED = 0.5;
+
+export type CameraOptions = {
+  mode: CameraMode;
+  bound: number;
+  easing: number;
+  /** Most the camera banks, in degrees */
+  roll: number;
+  path?: CameraPath;
+};
+
+type CameraTarget = {
+  x: number;
+  y: number;
+  /** In degrees, the camera banks with its movement instead when this is left out */
+  roll?: number;
+};
+
+/**
+ * Catmull-Rom spline through p1 and p2, t from 0 to 1 runs between them
+ */
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    0.5 *
+    (2 * p1 +
+      (p2 - p0) * t +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+      (3 * p1 - p0 - 3 * p2 + p3) * t3)
+  );
+}
+
+/**
+ * Moves the camera across the tunnel, always looking down it. Each mode picks a target which
+ * the camera eases towards, so switching modes never jumps. While locked the camera holds still,
+ * except in mouse mode where it keeps easing towards where the mouse was when it was locked.
+ */
+export default class CameraController {
+  camera: PerspectiveCamera;
+  options: CameraOptions;
+  /** Picks the autopilot's points, seeded so stepped frames come out the same each run */
+  random: Random;
+  /** Current roll round the view direction, in radians */
+  roll = 0;
+  /** Control points of the autopilot's spline, which runs between the middle two */
+  autopilotPoints: Vector2[] = [];
+  /** How far between the middle two points the autopilot is, from 0 to 1 */
+  autopilotProgress = 0;
+  orbitAngle = 0;
+  /** How far along the keyframed path the camera is, in s */
+  pathTime = 0;
+  lookAt = new Vector3();
+
+  constructor(camera: PerspectiveCamera, options: CameraOptions, random: Random = Math.random) {
+    autoBind(this);
+    this.camera = camera;
+    this.options = options;
+    this.random = random;
+    this.startMode();
+  }
+
+  configure(options: Partial<CameraOptions>) {
+    const modeChanged = options.mode && options.mode !== this.options.mode;
+    this.options = { ...this.options, ...options };
+    if (options.path) {
+      this.pathTime = 0;
+    }
+    if (modeChanged) {
+      this.startMode();
+    }
+  }
+
+  /**
+   * Starts the paths from where the camera is, so it doesn't rush across the screen
+   */
+  startMode() {
+    const { x, y } = this.camera.position;
+    const current = new Vector2(x, y);
+    this.autopilotPoints = [current, current.clone(), this.randomPoint(), this.randomPoint()];
+    this.autopilotProgress = 0;
+    this.orbitAngle = Math.atan2(y, x);
+    this.pathTime = 0;
+  }
+
+  randomPoint(): Vector2 {
+    const angle = this.random() * Math.PI * 2;
+    // The square root spreads the points evenly over the disc instead of bunching in the middle
+    const radius = this.options.bound * Math.sqrt(this.random());
+    return new Vector2(Math.cos(angle) * radius, Math.sin(angle) * radius);
+  }
+
+  getTarget(delta: number, mouse: CameraTarget): CameraTarget {
+    const { mode, bound, path } = this.options;
+    if (mode === 'autopilot') {
+      this.autopilotProgress += delta / AUTOPILOT_SEGMENT_TIME;
+      while (this.autopilotProgress >= 1) {
+        this.autopilotProgress -= 1;
+        this.autopilotPoints = [...this.autopilotPoints.slice(1), this.randomPoint()];
+      }
+      const [p0, p1, p2, p3] = this.autopilotPoints;
+      const t = this.autopilotProgress;
+      return { x: catmullRom(p0.x, p1.x, p2.x, p3.x, t), y: catmullRom(p0.y, p1.y, p2.y, p3.y, t) };
+    }
+    if (mode === 'orbit') {
+      this.orbitAngle = (this.orbitAngle + (Math.PI * 2 * delta) / ORBIT_PERIOD) % (Math.PI * 2);
+      const radius = bound * ORBIT_RADIUS;
+      return { x: Math.cos(this.orbitAngle) * radius, y: Math.sin(this.orbitAngle) * radius };
+    }
+    if (mode === 'keyframes' && path) {
+      return this.getPathTarget(path, delta);
+    }
+    return mouse;
+  }
+
+  getPathTarget({ keyframes, loop }: CameraPath, delta: number): CameraTarget {
+    const start = keyframes[0].time;
+    const length = keyframes[keyframes.length - 1].time - start;
+    this.pathTime += delta / 1000;
+    const time =
+      length > 0
+        ? start + (loop ? this.pathTime % length : Math.min(this.pathTime, length))
+        : start;
+
+    let i = 0;
+    while (i < keyframes.length - 2 && keyframes[i + 1].time <= time) {
+      i++;
+    }
+    const k0 = keyframes[Math.max(i - 1, 0)];
+    const k1 = keyframes[i];
+    const k2 = keyframes[i + 1];
+    const k3 = keyframes[Math.min(i + 2, keyframes.length - 1)];
+    const span = k2.time - k1.time;
+    const t = span > 0 ? MathUtils.clamp((time - k1.time) / span, 0, 1) : 1;
+    const { bound } = this.options;
+    const hasRoll = typeof k1.roll !== 'undefined' || typeof k2.roll !== 'undefined';
+    return {
+      x: catmullRom(k0.x, k1.x, k2.x, k3.x, t) * bound,
+      y: catmullRom(k0.y, k1.y, k2.y, k3.y, t) * bound,
+      roll: hasRoll ? MathUtils.lerp(k1.roll || 0, k2.roll || 0, t) : undefined,
+    };
+  }
+
+  /**
+   * Moves the camera on by `delta` ms. The mouse position is relative to the middle of the
+   * screen, with y up.
+   */
+  update(delta: number, mouseX: number, mouseY: number, locked: boolean) {
+    const { camera } = this;
+    const { mode, bound, easing, roll } = this.options;
+    if (delta > 0 && (!locked || mode === 'mouse')) {
+      const target = this.getTarget(delta, { x: mouseX, y: mouseY });
+      const amount = 1 - Math.pow(1 - easing, delta / REFERENCE_FRAME_TIME);
+      const previousX = camera.position.x;
+      camera.position.x += (MathUtils.clamp(target.x, -bound, bound) - camera.position.x) * amount;
+      camera.position.y += (MathUtils.clamp(target.y, -bound, bound) - camera.position.y) * amount;
+
+      const speed = (camera.position.x - previousX) / (delta / 1000);
+      const bank =
+        bound > 0 ? -MathUtils.clamp(speed / (bound * FULL_BANK_SPEED), -1, 1) * roll : 0;
+      const targetRoll = MathUtils.degToRad(
+        typeof target.roll === 'undefined' ? bank : target.roll
+      );
+      this.roll += (targetRoll - this.roll) * amount;
+    }
+    camera.lookAt(this.lookAt);
+    camera.rotateZ(this.roll);
+  }
+
+  /**
+   * Puts the camera back in the middle of the tunnel, level
+   */
+  recenter() {
+    this.moveTo(0, 0, 0);
+  }
+
+  /**
+   * Jumps the camera to a point across the tunnel, `roll` is in radians
+   */
+  moveTo(x: number, y: number, roll: number) {
+    this.camera.position.x = x;
+    this.camera.position.y = y;
+    this.roll = roll;
+    this.startMode();
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { getTrailsDamp } from './EffectPipeline';
+
+describe('getTrailsDamp', () => {
+  it('keeps the amount the trails are tuned for at 60fps', () => {
+    expect(getTrailsDamp(0, 1000 / 60)).toBeCloseTo(0.8);
+    expect(getTrailsDamp(1, 1000 / 60)).toBeCloseTo(0.98);
+  });
+
+  it('fades the trails as much over a second at any frame rate', () => {
+    const fade = (frameRate: number) => getTrailsDamp(0.5, 1000 / frameRate) ** frameRate;
+    expect(fade(30)).toBeCloseTo(fade(60));
+    expect(fade(144)).toBeCloseTo(fade(60));
+  });
+
+  it("doesn't fade the trails when no time has passed", () => {
+    expect(getTrailsDamp(0.5, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,241 @@
+import autoBind from 'auto-bind';
+import {
+  Camera,
+  HalfFloatType,
+  IUniform,
+  LinearFilter,
+  RGBAFormat,
+  Scene,
+  UnsignedByteType,
+  Vector2,
+  WebGLRenderTarget,
+  WebGLRenderer,
+} from 'three';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass';
+import { PixelShader } from 'three/examples/jsm/shaders/PixelShader';
+import { EffectId, EffectSettings } from '@/types/hopalong';
+import { ChromaticAberrationShader, CrtShader, VhsShader } from './effectShaders';
+
+// The shader clocks wrap round after this long, before they lose precision (in s)
+const TIME_WRAP = 1000;
+// Frame time the trails amount is tuned for, longer frames fade the trails further (in ms)
+const TRAILS_FRAME_TIME = 1000 / 60;
+
+export const defaultEffects: EffectSettings = {
+  trails: { enabled: false, amount: 0.5 },
+  bloom: { enabled: false, amount: 0.5 },
+  pixelate: { enabled: false, amount: 0.3 },
+  chromaticAberration: { enabled: false, amount: 0.5 },
+  vhs: { enabled: false, amount: 0.5 },
+  crt: { enabled: false, amount: 0.5 },
+};
+
+type EffectPasses = {
+  trails: AfterimagePass;
+  bloom: UnrealBloomPass;
+  pixelate: ShaderPass;
+  chromaticAberration: ShaderPass;
+  vhs: ShaderPass;
+  crt: ShaderPass;
+};
+
+type Uniforms = { [name: string]: IUniform };
+
+/**
+ * How much of the trails is kept after a frame `delta` ms long, so they fade at the same speed
+ * whatever the frame rate
+ */
+export function getTrailsDamp(amount: number, delta: number): number {
+  return Math.pow(0.8 + amount * 0.18, delta / TRAILS_FRAME_TIME);
+}
+
+/**
+ * Whether the renderer can draw into half float targets, which keeps fading trails and bloom
+ * from banding
+ */
+function supportsFloatTargets(renderer: WebGLRenderer): boolean {
+  const { extensions, capabilities } = renderer;
+  return capabilities.isWebGL2
+    ? extensions.has('EXT_color_buffer_float')
+    : extensions.has('OES_texture_half_float') && extensions.has('EXT_color_buffer_half_float');
+}
+
+function isTargetComplete(renderer: WebGLRenderer, target: WebGLRenderTarget): boolean {
+  const gl = renderer.getContext();
+  renderer.setRenderTarget(target);
+  const complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+  renderer.setRenderTarget(null);
+  return complete;
+}
+
+/**
+ * Draws the scene through a chain of post-processing passes, one per effect. The chain is only
+ * built once an effect is turned on, and the scene is drawn straight to the screen while none
+ * are, or if the chain can't be built at all.
+ */
+export default class EffectPipeline {
+  renderer: WebGLRenderer;
+  scene: Scene;
+  camera: Camera;
+  effects = defaultEffects;
+  composer?: EffectComposer;
+  passes?: EffectPasses;
+  floatTargets: boolean;
+  /** Set when the effects had to fall back to something simpler */
+  warning?: string;
+  failed = false;
+  time = 0;
+
+  constructor(renderer: WebGLRenderer, scene: Scene, camera: Camera) {
+    autoBind(this);
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.floatTargets = supportsFloatTargets(renderer);
+  }
+
+  get active() {
+    return !this.failed && Object.values(this.effects).some(({ enabled }) => enabled);
+  }
+
+  setEffects(effects: EffectSettings) {
+    this.effects = effects;
+    if (this.active && !this.composer) {
+      this.build();
+    }
+    this.updatePasses();
+  }
+
+  build() {
+    try {
+      this.composer = this.createComposer(this.floatTargets);
+      if (this.floatTargets && !isTargetComplete(this.renderer, this.composer.renderTarget1)) {
+        this.disposeComposer();
+        this.floatTargets = false;
+        this.composer = this.createComposer(false);
+      }
+      if (!this.floatTargets) {
+        this.warning = 'Float render targets are unavailable, so trails and bloom may band';
+      }
+    } catch (e) {
+      console.error('Unable to set up the effects.', e);
+      this.disposeComposer();
+      this.failed = true;
+      this.warning = 'Effects are unavailable on this device';
+    }
+  }
+
+  createComposer(floatTargets: boolean): EffectComposer {
+    const { renderer } = this;
+    const size = renderer.getSize(new Vector2());
+    const pixelRatio = renderer.getPixelRatio();
+    const target = new WebGLRenderTarget(size.x * pixelRatio, size.y * pixelRatio, {
+      minFilter: LinearFilter,
+      magFilter: LinearFilter,
+      format: RGBAFormat,
+      type: floatTargets ? HalfFloatType : UnsignedByteType,
+    });
+    const composer = new EffectComposer(renderer, target);
+    this.passes = {
+      trails: new AfterimagePass(),
+      bloom: new UnrealBloomPass(size, 1, 0.4, 0.2),
+      pixelate: new ShaderPass(PixelShader),
+      chromaticAberration: new ShaderPass(ChromaticAberrationShader),
+      vhs: new ShaderPass(VhsShader),
+      crt: new ShaderPass(CrtShader),
+    };
+    composer.addPass(new RenderPass(this.scene, this.camera));
+    for (const pass of Object.values(this.passes) as Pass[]) {
+      composer.addPass(pass);
+    }
+    // A render target passed in is taken to be full size already
+    composer.setPixelRatio(pixelRatio);
+    composer.setSize(size.x, size.y);
+    this.updateResolution(size.x, size.y);
+    return composer;
+  }
+
+  /**
+   * Turns each pass on or off and maps each amount onto the pass's own range
+   */
+  updatePasses() {
+    const { passes, effects } = this;
+    if (!passes) {
+      return;
+    }
+    for (const id of Object.keys(passes) as EffectId[]) {
+      passes[id].enabled = effects[id].enabled;
+    }
+    passes.bloom.strength = effects.bloom.amount * 3;
+    passes.pixelate.uniforms.pixelSize.value =
+      Math.round(2 + effects.pixelate.amount * 14) * this.renderer.getPixelRatio();
+    passes.chromaticAberration.uniforms.amount.value = effects.chromaticAberration.amount;
+    passes.vhs.uniforms.amount.value = effects.vhs.amount;
+    passes.crt.uniforms.amount.value = effects.crt.amount;
+  }
+
+  updateResolution(width: number, height: number) {
+    if (!this.passes) {
+      return;
+    }
+    const pixelRatio = this.renderer.getPixelRatio();
+    this.passes.pixelate.uniforms.resolution.value = new Vector2(
+      width * pixelRatio,
+      height * pixelRatio
+    );
+    this.passes.vhs.uniforms.resolution.value = new Vector2(width, height);
+    this.passes.crt.uniforms.resolution.value = new Vector2(width, height);
+    this.updatePasses();
+  }
+
+  setSize(width: number, height: number) {
+    this.composer?.setSize(width, height);
+    this.updateResolution(width, height);
+  }
+
+  /**
+   * Draws a frame, `delta` is the time since the last one in ms
+   */
+  render(delta: number) {
+    if (!this.active || !this.composer || !this.passes) {
+      this.renderer.render(this.scene, this.camera);
+      return;
+    }
+    this.time = (this.time + delta / 1000) % TIME_WRAP;
+    this.passes.vhs.uniforms.time.value = this.time;
+    (this.passes.trails.uniforms as Uniforms).damp.value = getTrailsDamp(
+      this.effects.trails.amount,
+      delta
+    );
+    this.composer.render(delta / 1000);
+  }
+
+  disposeComposer() {
+    const { composer, passes } = this;
+    if (passes) {
+      passes.trails.textureComp.dispose();
+      passes.trails.textureOld.dispose();
+      passes.trails.shaderMaterial.dispose();
+      passes.bloom.dispose();
+      passes.pixelate.material.dispose();
+      passes.chromaticAberration.material.dispose();
+      passes.vhs.material.dispose();
+      passes.crt.material.dispose();
+    }
+    if (composer) {
+      composer.renderTarget1.dispose();
+      composer.renderTarget2.dispose();
+      composer.copyPass.material.dispose();
+    }
+    this.composer = this.passes = undefined;
+  }
+
+  dispose() {
+    this.disposeComposer();
+  }
+}
@@ -0,0 +1,74 @@
+import autoBind from 'auto-bind';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Track } from '@/types/hopalong';
+import MusicPlayer from './MusicPlayer';
+
+class FakeAudio {
+  src = '';
+  currentTime = 0;
+  play = vi.fn(() => Promise.resolve());
+  pause = vi.fn();
+  addEventListener = vi.fn();
+  removeAttribute = vi.fn();
+}
+
+const track: Track = { id: 1, name: 'Tagged', file: new Blob(), palette: 'neon' };
+
+/**
+ * Wires the player up the same way the app does, with a method that isn't bound yet
+ */
+class Owner {
+  applied: Partial<Track>[] = [];
+  musicPlayer = new MusicPlayer((track) => this.onTrackStart(track));
+
+  constructor() {
+    autoBind(this);
+  }
+
+  onTrackStart({ palette, attractor }: Track) {
+    this.applied.push({ palette, attractor });
+  }
+}
+
+describe('MusicPlayer', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Audio', FakeAudio);
+    // There's no IndexedDB here, so the library only lasts as long as the player
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:track');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(globalThis, 'Audio');
+  });
+
+  it('plays a tagged track and applies its settings', async () => {
+    const owner = new Owner();
+    const { musicPlayer } = owner;
+    musicPlayer.updateState({ tracks: [track] });
+    await musicPlayer.play(1);
+    expect(owner.applied).toEqual([{ palette: 'neon', attractor: undefined }]);
+    expect(musicPlayer.audio.play).toHaveBeenCalled();
+    expect(musicPlayer.state).toMatchObject({ current: 1, error: undefined });
+  });
+
+  it('only applies the settings when a different track starts', async () => {
+    const onTrackStart = vi.fn();
+    const musicPlayer = new MusicPlayer(onTrackStart);
+    musicPlayer.updateState({ tracks: [track, { id: 2, name: 'Plain', file: new Blob() }] });
+    await musicPlayer.play(1);
+    await musicPlayer.play(1);
+    await musicPlayer.play(2);
+    expect(onTrackStart.mock.calls.map(([{ id }]) => id)).toEqual([1, 2]);
+    expect(musicPlayer.audio.play).toHaveBeenCalledTimes(3);
+  });
+
+  it('asks for music when the library is empty', async () => {
+    const musicPlayer = new MusicPlayer();
+    await musicPlayer.play();
+    expect(musicPlayer.audio.play).not.toHaveBeenCalled();
+    expect(musicPlayer.state.error).toBe('Add some music to the library first');
+  });
+});
@@ -0,0 +1,224 @@
+import autoBind from 'auto-bind';
+import { Track } from '@/types/hopalong';
+import Observable from './Observable';
+import { Store, getAll, putAll, remove } from './db';
+
+// Going back further into a track than this restarts it rather than going to the previous one
+const RESTART_THRESHOLD = 3;
+// How many tracks back the previous button can go in shuffle mode
+const HISTORY_LIMIT = 50;
+
+export type MusicState = {
+  tracks: Track[];
+  /** Id of the track loaded into the player */
+  current?: number;
+  playing: boolean;
+  shuffle: boolean;
+  error?: string;
+};
+
+/**
+ * Strips the extension, so "01 Track.mp3" is shown as "01 Track"
+ */
+function getTrackName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '') || file.name;
+}
+
+/**
+ * Plays a library of local audio files, kept in IndexedDB between visits
+ */
+export default class MusicPlayer extends Observable<MusicState> {
+  audio = new Audio();
+  objectUrl?: string;
+  /** Tracks played before the current one, for going back in shuffle mode */
+  history: number[] = [];
+  /** Ids for tracks which couldn't be saved, counting down so they don't clash with saved ones */
+  nextUnsavedId = -1;
+  /** Called when a different track starts, e.g. to switch to the palette it's tagged with */
+  onTrackStart?: (track: Track) => unknown;
+
+  constructor(onTrackStart?: (track: Track) => unknown) {
+    super({ tracks: [], playing: false, shuffle: false });
+    autoBind(this);
+    this.onTrackStart = onTrackStart;
+    this.audio.addEventListener('play', () => this.updateState({ playing: true }));
+    this.audio.addEventListener('pause', () => this.updateState({ playing: false }));
+    this.audio.addEventListener('ended', this.onEnded);
+    this.load();
+  }
+
+  async load() {
+    try {
+      const tracks = await getAll<Track>(Store.TRACKS);
+      // Keep any tracks added while the library was loading
+      this.updateState({ tracks: [...tracks, ...this.state.tracks] });
+    } catch (e) {
+      console.warn('Unable to load the music library, tracks will only last until reload.', e);
+    }
+  }
+
+  getTrack(id = this.state.current): Track | undefined {
+    return this.state.tracks.find((track) => track.id === id);
+  }
+
+  /**
+   * Adds the audio files to the library, returning the new tracks
+   */
+  async addFiles(files: File[]): Promise<Track[]> {
+    const audioFiles = files.filter(({ type }) => type.startsWith('audio/'));
+    if (!audioFiles.length) {
+      this.updateState({ error: 'None of those files were audio' });
+      return [];
+    }
+    let tracks: Track[] = audioFiles.map((file) => ({ name: getTrackName(file), file }));
+    try {
+      const ids = await putAll(Store.TRACKS, tracks);
+      tracks = tracks.map((track, i) => ({ ...track, id: ids[i] }));
+    } catch (e) {
+      console.warn('Unable to save tracks to the music library.', e);
+      tracks = tracks.map((track) => ({ ...track, id: this.nextUnsavedId-- }));
+    }
+    this.updateState({ tracks: [...this.state.tracks, ...tracks], error: undefined });
+    return tracks;
+  }
+
+  async updateTrack(id: number, changes: Partial<Omit<Track, 'id' | 'file'>>) {
+    const tracks = this.state.tracks.map((track) =>
+      track.id === id ? { ...track, ...changes } : track
+    );
+    this.updateState({ tracks });
+    const track = tracks.find((track) => track.id === id);
+    if (track && id >= 0) {
+      try {
+        await putAll(Store.TRACKS, [track]);
+      } catch (e) {
+        console.warn('Unable to save track.', e);
+      }
+    }
+  }
+
+  async removeTrack(id: number) {
+    if (id === this.state.current) {
+      this.audio.pause();
+      this.setSource(undefined);
+    }
+    this.history = this.history.filter((historyId) => historyId !== id);
+    this.updateState({
+      tracks: this.state.tracks.filter((track) => track.id !== id),
+      current: id === this.state.current ? undefined : this.state.current,
+    });
+    if (id >= 0) {
+      try {
+        await remove(Store.TRACKS, id);
+      } catch (e) {
+        console.warn('Unable to remove track from the music library.', e);
+      }
+    }
+  }
+
+  setSource(track?: Track) {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+    if (track) {
+      this.objectUrl = URL.createObjectURL(track.file);
+      this.audio.src = this.objectUrl;
+    } else {
+      this.audio.removeAttribute('src');
+    }
+  }
+
+  /**
+   * Plays the given track, or carries on with the current one. Going back through the history
+   * shouldn't add to it, so that can be turned off with `remember`.
+   */
+  async play(id = this.state.current ?? this.state.tracks[0]?.id, remember = true) {
+    const track = this.getTrack(id);
+    if (!track) {
+      this.updateState({ error: 'Add some music to the library first' });
+      return;
+    }
+    if (track.id !== this.state.current || !this.objectUrl) {
+      if (remember && typeof this.state.current !== 'undefined') {
+        this.history = [...this.history, this.state.current].slice(-HISTORY_LIMIT);
+      }
+      this.setSource(track);
+      this.updateState({ current: track.id });
+      this.onTrackStart?.(track);
+    }
+    try {
+      await this.audio.play();
+      this.updateState({ error: undefined });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') {
+        // Another track was picked before this one started
+        return;
+      }
+      console.error('Unable to play track.', e);
+      this.updateState({ error: `Unable to play ${track.name}` });
+    }
+  }
+
+  pause() {
+    this.audio.pause();
+  }
+
+  setPlaying(playing: boolean) {
+    if (playing) {
+      this.play();
+    } else {
+      this.pause();
+    }
+  }
+
+  next() {
+    const { tracks, current, shuffle } = this.state;
+    if (!tracks.length) {
+      return;
+    }
+    const index = tracks.findIndex((track) => track.id === current);
+    let nextIndex = (index + 1) % tracks.length;
+    if (shuffle && tracks.length > 1) {
+      // Pick from all but the current track
+      nextIndex = Math.floor(Math.random() * (tracks.length - 1));
+      if (nextIndex >= index && index >= 0) {
+        nextIndex++;
+      }
+    }
+    this.play(tracks[nextIndex].id);
+  }
+
+  previous() {
+    const { tracks, current, shuffle } = this.state;
+    if (!tracks.length) {
+      return;
+    }
+    if (this.audio.currentTime > RESTART_THRESHOLD) {
+      this.audio.currentTime = 0;
+      return;
+    }
+    if (shuffle && this.history.length) {
+      const id = this.history[this.history.length - 1];
+      this.history = this.history.slice(0, -1);
+      this.play(id, false);
+      return;
+    }
+    const index = tracks.findIndex((track) => track.id === current);
+    this.play(tracks[(Math.max(index, 0) - 1 + tracks.length) % tracks.length].id);
+  }
+
+  setShuffle(shuffle: boolean) {
+    this.updateState({ shuffle });
+  }
+
+  onEnded() {
+    if (this.state.tracks.length === 1) {
+      // Play the only track again rather than going nowhere
+      this.audio.currentTime = 0;
+      this.play();
+    } else {
+      this.next();
+    }
+  }
+}
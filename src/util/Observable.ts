@@ -0,0 +1,35 @@
+export type Listener<State> = (state: State) => unknown;
+
+/**
+ * Holds the state a service shows in the UI, telling subscribers each time it changes
+ */
+export default class Observable<State> {
+  state: State;
+  listeners = new Set<Listener<State>>();
+
+  constructor(state: State) {
+    this.state = state;
+  }
+
+  /**
+   * Calls the listener now and whenever the state changes, returning a function to stop listening
+   */
+  subscribe(listener: Listener<State>) {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setState(state: State) {
+    this.state = state;
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+
+  updateState(state: Partial<State>) {
+    this.setState({ ...this.state, ...state });
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import OrbitGenerator, { OrbitWorkerRequest } from './OrbitGenerator';
+import { attractors, randomParams } from './attractors';
+import { SCALE_FACTOR, computeOrbit } from './orbit';
+
+const request = {
+  params: { ...randomParams(attractors[0]), a: 5, b: 1.2, c: 12, d: 1, e: 4, choice: 0.6 },
+  numSubsets: 3,
+  numPointsSubset: 100,
+};
+
+/**
+ * Stands in for the orbit worker, holding on to requests until told to answer them
+ */
+class FakeWorker {
+  static last?: FakeWorker;
+  messages: OrbitWorkerRequest[] = [];
+  onmessage?: (event: { data: unknown }) => unknown;
+  onerror?: (event: { message: string }) => unknown;
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(message: OrbitWorkerRequest) {
+    this.messages.push(message);
+  }
+
+  respond(message: OrbitWorkerRequest) {
+    this.onmessage?.({ data: { id: message.id, orbit: computeOrbit(message.request) } });
+  }
+}
+
+describe('computeOrbit', () => {
+  it('fills every subset and stretches the points across the tunnel', () => {
+    const orbit = computeOrbit(request);
+    expect(orbit.subsets).toHaveLength(3);
+    let [xMin, xMax, yMin, yMax] = [Infinity, -Infinity, Infinity, -Infinity];
+    for (const positions of orbit.subsets) {
+      expect(positions).toHaveLength(300);
+      for (let i = 0; i < positions.length; i += 3) {
+        [xMin, xMax] = [Math.min(xMin, positions[i]), Math.max(xMax, positions[i])];
+        [yMin, yMax] = [Math.min(yMin, positions[i + 1]), Math.max(yMax, positions[i + 1])];
+        expect(positions[i + 2]).toBe(0);
+      }
+    }
+    expect(xMin).toBeGreaterThanOrEqual(-SCALE_FACTOR - 1);
+    expect(xMax).toBeLessThanOrEqual(SCALE_FACTOR + 1);
+    expect(xMax - xMin).toBeGreaterThan(SCALE_FACTOR);
+    expect(yMax - yMin).toBeGreaterThan(SCALE_FACTOR);
+  });
+
+  it('flattens orbits with no range instead of dividing by zero', () => {
+    // The first subset starts at the origin, which these params never leave
+    const orbit = computeOrbit({
+      params: { ...request.params, a: 0, c: 0, e: 0 },
+      numSubsets: 1,
+      numPointsSubset: 100,
+    });
+    expect([orbit.scaleX, orbit.scaleY]).toEqual([0, 0]);
+    expect(orbit.subsets.every((positions) => positions.every(isFinite))).toBe(true);
+  });
+});
+
+describe('OrbitGenerator', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, 'Worker');
+    vi.restoreAllMocks();
+  });
+
+  it('generates on the main thread without a worker', async () => {
+    const generator = new OrbitGenerator(false);
+    expect(generator.worker).toBeUndefined();
+    const orbit = await generator.generate(request);
+    expect(orbit.params).toBe(request.params);
+    expect(orbit.subsets).toHaveLength(3);
+  });
+
+  it('matches worker responses to their requests', async () => {
+    const generator = new OrbitGenerator(true);
+    const worker = FakeWorker.last as FakeWorker;
+    const first = generator.generate(request);
+    const second = generator.generate({ ...request, numSubsets: 1 });
+    const [firstMessage, secondMessage] = worker.messages;
+    worker.respond(secondMessage);
+    worker.respond(firstMessage);
+    expect((await first).subsets).toHaveLength(3);
+    expect((await second).subsets).toHaveLength(1);
+    expect(generator.pending.size).toBe(0);
+  });
+
+  it('finishes requests on the main thread when the worker fails', async () => {
+    const generator = new OrbitGenerator(true);
+    const worker = FakeWorker.last as FakeWorker;
+    const pending = generator.generate(request);
+    worker.onerror?.({ message: 'Script error' });
+    expect(worker.terminate).toHaveBeenCalled();
+    expect((await pending).subsets).toHaveLength(3);
+
+    // Later requests don't wait on the failed worker
+    expect((await generator.generate(request)).subsets).toHaveLength(3);
+    expect(worker.messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { Orbit } from '@/types/hopalong';
+import { OrbitRequest, computeOrbit } from './orbit';
+
+export type OrbitWorkerRequest = {
+  id: number;
+  request: OrbitRequest;
+};
+export type OrbitWorkerResponse = {
+  id: number;
+  orbit: Orbit<number>;
+};
+
+type PendingRequest = {
+  request: OrbitRequest;
+  resolve: (orbit: Orbit<number>) => unknown;
+};
+
+/**
+ * Generates orbits in a Web Worker when available, otherwise on the main thread
+ */
+export default class OrbitGenerator {
+  worker?: Worker;
+  nextId = 0;
+  pending = new Map<number, PendingRequest>();
+
+  constructor(useWorker: boolean) {
+    if (!useWorker) {
+      return;
+    }
+    try {
+      this.worker = new Worker(new URL('./orbit.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = this.onMessage.bind(this);
+      this.worker.onerror = this.onError.bind(this);
+    } catch (e) {
+      console.warn('Unable to start orbit worker, falling back to main thread.', e);
+      this.worker = undefined;
+    }
+  }
+
+  generate(request: OrbitRequest): Promise<Orbit<number>> {
+    const { worker } = this;
+    if (!worker) {
+      return Promise.resolve(computeOrbit(request));
+    }
+    return new Promise((resolve) => {
+      const id = this.nextId++;
+      this.pending.set(id, { request, resolve });
+      const message: OrbitWorkerRequest = { id, request };
+      worker.postMessage(message);
+    });
+  }
+
+  onMessage({ data }: MessageEvent<OrbitWorkerResponse>) {
+    const pending = this.pending.get(data.id);
+    if (pending) {
+      this.pending.delete(data.id);
+      pending.resolve(data.orbit);
+    }
+  }
+
+  onError(event: ErrorEvent) {
+    console.warn('Orbit worker failed, falling back to main thread.', event.message);
+    this.destroy();
+    // Finish anything that was in flight so callers aren't left waiting
+    for (const { request, resolve } of this.pending.values()) {
+      resolve(computeOrbit(request));
+    }
+    this.pending.clear();
+  }
+
+  destroy() {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = undefined;
+    }
+  }
+}
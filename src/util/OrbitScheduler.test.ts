@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import OrbitScheduler, { SchedulerOptions } from './OrbitScheduler';
+import { RandomStream, createRandom } from './random';
+
+const options: SchedulerOptions = {
+  schedule: 'interval',
+  interval: 1000,
+  intervalMin: 1000,
+  intervalMax: 5000,
+  themeEvery: 0,
+};
+
+describe('OrbitScheduler', () => {
+  it('moves on once the interval has passed', () => {
+    const onChange = vi.fn();
+    const scheduler = new OrbitScheduler(options, 7, onChange);
+    scheduler.tick(600);
+    expect(onChange).not.toHaveBeenCalled();
+    scheduler.tick(400);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(scheduler.elapsed).toBe(0);
+  });
+
+  it("doesn't count time while paused or hidden", () => {
+    const onChange = vi.fn();
+    const scheduler = new OrbitScheduler(options, 7, onChange);
+    scheduler.setPaused(true);
+    scheduler.tick(2000);
+    scheduler.setPaused(false);
+    scheduler.setHidden(true);
+    scheduler.tick(2000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('picks the same random durations from the same seed', () => {
+    const durations = (seed: number) => {
+      const scheduler = new OrbitScheduler(
+        { ...options, schedule: 'random' },
+        7,
+        () => undefined,
+        undefined,
+        createRandom(seed, RandomStream.SCHEDULE)
+      );
+      return [1, 2, 3].map(() => {
+        const { duration } = scheduler;
+        scheduler.trigger();
+        return duration;
+      });
+    };
+    const first = durations(1234);
+    expect(durations(1234)).toEqual(first);
+    expect(durations(4321)).not.toEqual(first);
+    for (const duration of first) {
+      expect(duration).toBeGreaterThanOrEqual(1000);
+      expect(duration).toBeLessThanOrEqual(5000);
+    }
+  });
+
+  it('waits for a full level cycle with the level cycle schedule', () => {
+    const onChange = vi.fn();
+    const scheduler = new OrbitScheduler({ ...options, schedule: 'levelCycle' }, 3, onChange);
+    scheduler.tick(100000);
+    scheduler.levelPassed();
+    scheduler.levelPassed();
+    expect(onChange).not.toHaveBeenCalled();
+    scheduler.levelPassed();
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('changes theme before the orbit when one is due', () => {
+    const calls: string[] = [];
+    const scheduler = new OrbitScheduler(
+      { ...options, themeEvery: 2 },
+      7,
+      () => calls.push('orbit'),
+      () => calls.push('theme')
+    );
+    scheduler.trigger();
+    scheduler.trigger();
+    expect(calls).toEqual(['orbit', 'theme', 'orbit']);
+  });
+});
@@ -0,0 +1,148 @@
+import autoBind from 'auto-bind';
+import { OrbitSchedule } from '@/types/hopalong';
+import { Random } from './random';
+
+export type SchedulerOptions = {
+  schedule: OrbitSchedule;
+  /** Time each orbit is shown for with the interval schedule, in ms */
+  interval: number;
+  /** Range the time is picked from with the random schedule, in ms */
+  intervalMin: number;
+  intervalMax: number;
+  /** How many orbits to show before moving on to the next theme, 0 to stay on one */
+  themeEvery: number;
+};
+
+/**
+ * Decides when to move on to the next orbit. It's ticked by the render loop, so time only passes
+ * while frames are being drawn, and stops while paused or the tab is hidden.
+ */
+export default class OrbitScheduler {
+  options: SchedulerOptions;
+  /** How many levels make up a full cycle, for the level cycle schedule */
+  levelCount: number;
+  onChange: () => unknown;
+  onThemeChange?: () => unknown;
+  /** Picks the times for the random schedule, seeded so a replayed sequence changes on cue */
+  random: Random;
+  /** Time the current orbit has been shown for, in ms */
+  elapsed = 0;
+  /** How long to show the current orbit for, infinite when it waits for a level cycle or trigger */
+  duration: number;
+  levelsPassed = 0;
+  /** Orbits shown in the current theme, counting the one on screen */
+  orbitsShown = 1;
+  paused = false;
+  hidden = false;
+  /** Set once the simulation is destroyed, after which nothing is triggered */
+  stopped = false;
+
+  constructor(
+    options: SchedulerOptions,
+    levelCount: number,
+    onChange: () => unknown,
+    onThemeChange?: () => unknown,
+    random: Random = Math.random
+  ) {
+    autoBind(this);
+    this.options = options;
+    this.levelCount = levelCount;
+    this.onChange = onChange;
+    this.onThemeChange = onThemeChange;
+    this.random = random;
+    this.duration = this.pickDuration();
+  }
+
+  get active() {
+    return !this.paused && !this.hidden && !this.stopped;
+  }
+
+  configure(options: Partial<SchedulerOptions>) {
+    this.options = { ...this.options, ...options };
+    // Keep the time already spent on the current orbit
+    this.duration = this.pickDuration();
+  }
+
+  pickDuration(): number {
+    const { schedule, interval, intervalMin, intervalMax } = this.options;
+    switch (schedule) {
+      case 'interval':
+        return interval;
+      case 'random':
+        return intervalMin + this.random() * Math.max(0, intervalMax - intervalMin);
+      default:
+        return Infinity;
+    }
+  }
+
+  /**
+   * Shows the current orbit for a set time instead, e.g. from a playlist entry. The manual
+   * schedule still waits for a trigger.
+   */
+  setDuration(duration: number) {
+    if (this.options.schedule !== 'manual') {
+      this.duration = duration;
+    }
+  }
+
+  tick(delta: number) {
+    if (!this.active) {
+      return;
+    }
+    this.elapsed += delta;
+    if (this.elapsed >= this.duration) {
+      this.trigger();
+    }
+  }
+
+  /**
+   * Counts a level passing the camera, for the level cycle schedule
+   */
+  levelPassed() {
+    if (!this.active || this.options.schedule !== 'levelCycle') {
+      return;
+    }
+    this.levelsPassed++;
+    if (this.levelsPassed >= this.levelCount) {
+      this.trigger();
+    }
+  }
+
+  /**
+   * Moves on to the next orbit now, whatever the schedule, and starts timing it afresh. The theme
+   * changes first when it's due, so the new orbit is shown in it.
+   */
+  trigger() {
+    if (this.stopped) {
+      return;
+    }
+    this.elapsed = 0;
+    this.levelsPassed = 0;
+    this.duration = this.pickDuration();
+    if (this.options.themeEvery > 0 && this.orbitsShown >= this.options.themeEvery) {
+      this.orbitsShown = 0;
+      this.onThemeChange?.();
+    }
+    this.orbitsShown++;
+    this.onChange();
+  }
+
+  /**
+   * Starts counting towards the next theme change afresh, for when the theme is picked by hand
+   */
+  resetThemeCount() {
+    this.orbitsShown = 0;
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  setHidden(hidden: boolean) {
+    this.hidden = hidden;
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Playlist } from '@/types/hopalong';
+import PlaylistPlayer from './PlaylistPlayer';
+import { createRandom } from './random';
+
+const params = { a: 1, b: 2, c: 3, d: 4, e: 5, choice: 0.5, xPreset: 0, yPreset: 0 };
+
+const playlist: Playlist = {
+  id: 'test',
+  name: 'Test',
+  entries: [1, 2, 3, 4].map((rating) => ({ title: `Entry ${rating}`, params, rating })),
+};
+
+const play = (player: PlaylistPlayer, count: number) =>
+  Array.from({ length: count }, () => player.next()?.title);
+
+describe('PlaylistPlayer', () => {
+  it('plays the entries in order and starts again', () => {
+    const player = new PlaylistPlayer(playlist, 'sequential', Math.random);
+    expect(play(player, 6)).toEqual([
+      'Entry 1',
+      'Entry 2',
+      'Entry 3',
+      'Entry 4',
+      'Entry 1',
+      'Entry 2',
+    ]);
+  });
+
+  it('plays every entry once before shuffling again', () => {
+    const player = new PlaylistPlayer(playlist, 'shuffle', createRandom(3));
+    const titles = playlist.entries.map(({ title }) => title);
+    expect([...play(player, 4)].sort()).toEqual(titles);
+    expect([...play(player, 4)].sort()).toEqual(titles);
+  });
+
+  it('shuffles the same way from the same seed', () => {
+    const shuffled = (seed: number) =>
+      play(new PlaylistPlayer(playlist, 'shuffle', createRandom(seed)), 8);
+    expect(shuffled(11)).toEqual(shuffled(11));
+  });
+
+  it('picks higher rated entries more often', () => {
+    const player = new PlaylistPlayer(playlist, 'weighted', createRandom(5));
+    const counts: Record<string, number> = {};
+    for (const title of play(player, 4000)) {
+      counts[title as string] = (counts[title as string] || 0) + 1;
+    }
+    // Weights are 1 to 4 as the lowest rating counts as 1
+    expect(counts['Entry 1'] / 4000).toBeCloseTo(0.1, 1);
+    expect(counts['Entry 4'] / 4000).toBeCloseTo(0.4, 1);
+    expect(counts['Entry 4']).toBeGreaterThan(counts['Entry 3']);
+    expect(counts['Entry 3']).toBeGreaterThan(counts['Entry 2']);
+    expect(counts['Entry 2']).toBeGreaterThan(counts['Entry 1']);
+  });
+
+  it('treats unrated entries as the lowest rated', () => {
+    const unrated: Playlist = {
+      ...playlist,
+      entries: [{ params }, { params, rating: 2 }, { params, rating: 3 }],
+    };
+    const player = new PlaylistPlayer(unrated, 'weighted', () => 0);
+    expect(player.pickWeighted()).toBe(0);
+    player.random = () => 0.99;
+    expect(player.pickWeighted()).toBe(2);
+  });
+
+  it('has nothing to play from an empty playlist', () => {
+    const empty: Playlist = { ...playlist, entries: [] };
+    for (const mode of ['sequential', 'shuffle', 'weighted'] as const) {
+      expect(new PlaylistPlayer(empty, mode, Math.random).next()).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { Playlist, PlaylistEntry, PlaylistMode } from '@/types/hopalong';
+import { Random } from './random';
+
+/**
+ * Steps through the entries of a playlist according to the playback mode
+ */
+export default class PlaylistPlayer {
+  playlist: Playlist;
+  mode: PlaylistMode;
+  random: Random;
+  /** Order the entries are played in this time round, only used when shuffling */
+  order: number[] = [];
+  position = -1;
+
+  constructor(playlist: Playlist, mode: PlaylistMode, random: Random) {
+    this.playlist = playlist;
+    this.mode = mode;
+    this.random = random;
+  }
+
+  /**
+   * Undefined when the playlist has no entries, so the caller can pick an orbit some other way
+   */
+  next(): PlaylistEntry | undefined {
+    const { entries } = this.playlist;
+    if (!entries.length) {
+      return undefined;
+    }
+    switch (this.mode) {
+      case 'weighted':
+        return entries[this.pickWeighted()];
+      case 'shuffle':
+        this.position++;
+        if (this.position >= this.order.length) {
+          this.reshuffle();
+          this.position = 0;
+        }
+        return entries[this.order[this.position]];
+      case 'sequential':
+      default:
+        this.position = (this.position + 1) % entries.length;
+        return entries[this.position];
+    }
+  }
+
+  /**
+   * Fisher-Yates shuffle of the entry indexes
+   */
+  reshuffle() {
+    const order = this.playlist.entries.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    this.order = order;
+  }
+
+  /**
+   * Picks an entry with probability proportional to its rating. Ratings are shifted so the
+   * lowest rated entry still has a small chance, and unrated entries count as the lowest.
+   */
+  pickWeighted(): number {
+    const { entries } = this.playlist;
+    const ratings = entries.map(({ rating }) => rating);
+    const known = ratings.filter((rating): rating is number => typeof rating === 'number');
+    const lowest = known.length ? Math.min(...known) : 0;
+    const weights = ratings.map(
+      (rating) => (typeof rating === 'number' ? rating : lowest) - lowest + 1
+    );
+    let target = this.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        return i;
+      }
+    }
+    return weights.length - 1;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import RatingModel, { RatingModelWeights } from './RatingModel';
+import { attractors, randomParams } from './attractors';
+
+const params = { ...randomParams(attractors[0]), a: 2, b: -1, c: 5 };
+
+const weights: RatingModelWeights = {
+  inputs: ['a', 'b', 'c'],
+  scaler: { mean: [0, 0, 1], scale: [2, 1, 2] },
+  layers: [
+    {
+      weights: [
+        [1, 0],
+        [0, 1],
+        [1, -1],
+      ],
+      bias: [0, 1],
+      activation: 'relu',
+    },
+    { weights: [[2], [3]], bias: [0.5], activation: 'linear' },
+  ],
+};
+
+describe('RatingModel', () => {
+  it('scales the inputs and runs them through each layer', () => {
+    // Scaled inputs are [1, -1, 2], the hidden layer gives relu([3, -2]) = [3, 0]
+    expect(new RatingModel(weights).predict(params)).toBe(6.5);
+  });
+
+  it('uses the inputs as they are without a scaler', () => {
+    // Hidden layer gives relu([7, -6]) = [7, 0]
+    expect(new RatingModel({ ...weights, scaler: undefined }).predict(params)).toBe(14.5);
+  });
+
+  it('applies the activation of each layer', () => {
+    const model = new RatingModel({
+      inputs: ['a'],
+      layers: [{ weights: [[1]], bias: [0], activation: 'sigmoid' }],
+    });
+    expect(model.predict({ ...params, a: 0 })).toBe(0.5);
+  });
+
+  it('rejects weights that do not fit together', () => {
+    expect(() => new RatingModel({ ...weights, inputs: [] })).toThrow(
+      'Rating model has no inputs.'
+    );
+    expect(() => new RatingModel({ ...weights, scaler: { mean: [0], scale: [1] } })).toThrow(
+      'Rating model scaler does not match its inputs.'
+    );
+    expect(() => new RatingModel({ ...weights, layers: [] })).toThrow(
+      'Rating model has no layers.'
+    );
+    expect(
+      () => new RatingModel({ ...weights, layers: [weights.layers[1], weights.layers[0]] })
+    ).toThrow('Rating model layer 0 expects 3 inputs.');
+    expect(() => new RatingModel({ ...weights, layers: [weights.layers[0]] })).toThrow(
+      'Rating model must output a single rating.'
+    );
+    const [hidden, output] = weights.layers;
+    expect(
+      () =>
+        new RatingModel({
+          ...weights,
+          layers: [hidden, { ...output, activation: 'softmax' as 'linear' }],
+        })
+    ).toThrow("Rating model layer 1 has unknown activation 'softmax'.");
+  });
+
+  it('rejects model files that are malformed', () => {
+    const load = (data: unknown) => () => new RatingModel(data as RatingModelWeights);
+    expect(load(null)).toThrow('Rating model must be an object.');
+    expect(load({ ...weights, inputs: ['a', 'b', 'radius'] })).toThrow(
+      "Rating model has unknown input 'radius'."
+    );
+    expect(load({ ...weights, scaler: { mean: [0, 0, '1'], scale: [2, 1, 2] } })).toThrow(
+      'Rating model scaler does not match its inputs.'
+    );
+    expect(load({ ...weights, scaler: { mean: [0, 0, 1], scale: [2, 0, 2] } })).toThrow(
+      'Rating model scaler has a scale of 0.'
+    );
+    const [hidden, output] = weights.layers;
+    expect(load({ ...weights, layers: [hidden, { ...output, bias: [null] }] })).toThrow(
+      "Rating model layer 1 has weights or biases that aren't numbers."
+    );
+    expect(
+      load({ ...weights, layers: [{ ...hidden, weights: [[1, 0], [0, 1], 'x'] }, output] })
+    ).toThrow("Rating model layer 0 has weights or biases that aren't numbers.");
+    expect(
+      load({ ...weights, layers: [{ ...hidden, weights: [[1, 0], [0, 1], [1]] }, output] })
+    ).toThrow('Rating model layer 0 expects 3 inputs.');
+    expect(load({ ...weights, layers: [hidden, { ...output, activation: 'toString' }] })).toThrow(
+      "Rating model layer 1 has unknown activation 'toString'."
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { OrbitParams } from '@/types/hopalong';
+import { NUMERIC_PARAMS, isObject } from './validation';
+
+type NumericParam = Exclude<keyof OrbitParams<number>, 'attractor' | 'palette' | 'paletteMode'>;
+type Activation = 'relu' | 'linear' | 'sigmoid' | 'tanh';
+
+export type RatingModelLayer = {
+  /** Kernel in Keras layout, weights[input][output] */
+  weights: number[][];
+  bias: number[];
+  activation: Activation;
+};
+
+/**
+ * Weights exported from the sandbox notebook, see the export cell in sandbox/main.ipynb
+ */
+export type RatingModelWeights = {
+  /** The params fed to the model, in order */
+  inputs: NumericParam[];
+  /** StandardScaler fitted in the notebook, applied to the inputs before the first layer */
+  scaler?: {
+    mean: number[];
+    scale: number[];
+  };
+  layers: RatingModelLayer[];
+};
+
+const activations: Record<Activation, (value: number) => number> = {
+  relu: (value) => Math.max(0, value),
+  linear: (value) => value,
+  sigmoid: (value) => 1 / (1 + Math.exp(-value)),
+  tanh: (value) => Math.tanh(value),
+};
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'number' && isFinite(item));
+
+/**
+ * A small dense network predicting how good an orbit looks, as trained in the sandbox
+ */
+export default class RatingModel {
+  weights: RatingModelWeights;
+
+  constructor(weights: RatingModelWeights) {
+    RatingModel.validate(weights);
+    this.weights = weights;
+  }
+
+  /**
+   * Throws if the weights are malformed, e.g. from a hand edited or truncated export
+   */
+  static validate(data: unknown): asserts data is RatingModelWeights {
+    if (!isObject(data)) {
+      throw new Error('Rating model must be an object.');
+    }
+    const { inputs, scaler, layers } = data;
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      throw new Error('Rating model has no inputs.');
+    }
+    const unknownInput = inputs.find(
+      (input) => !(NUMERIC_PARAMS as readonly unknown[]).includes(input)
+    );
+    if (typeof unknownInput !== 'undefined') {
+      throw new Error(`Rating model has unknown input '${unknownInput}'.`);
+    }
+    if (typeof scaler !== 'undefined' && scaler !== null) {
+      if (
+        !isObject(scaler) ||
+        !isNumberList(scaler.mean) ||
+        !isNumberList(scaler.scale) ||
+        scaler.mean.length !== inputs.length ||
+        scaler.scale.length !== inputs.length
+      ) {
+        throw new Error('Rating model scaler does not match its inputs.');
+      }
+      if (scaler.scale.includes(0)) {
+        throw new Error('Rating model scaler has a scale of 0.');
+      }
+    }
+    if (!Array.isArray(layers) || layers.length === 0) {
+      throw new Error('Rating model has no layers.');
+    }
+    let size = inputs.length;
+    layers.forEach((layer: unknown, i) => {
+      if (
+        !isObject(layer) ||
+        !Array.isArray(layer.weights) ||
+        !layer.weights.every(isNumberList) ||
+        !isNumberList(layer.bias)
+      ) {
+        throw new Error(`Rating model layer ${i} has weights or biases that aren't numbers.`);
+      }
+      const { weights, bias, activation } = layer;
+      if (weights.length !== size || weights.some((row: number[]) => row.length !== bias.length)) {
+        throw new Error(`Rating model layer ${i} expects ${size} inputs.`);
+      }
+      if (typeof activation !== 'string' || !Object.keys(activations).includes(activation)) {
+        throw new Error(`Rating model layer ${i} has unknown activation '${activation}'.`);
+      }
+      size = bias.length;
+    });
+    if (size !== 1) {
+      throw new Error('Rating model must output a single rating.');
+    }
+  }
+
+  predict(params: OrbitParams<number>): number {
+    const { inputs, scaler, layers } = this.weights;
+    let values = inputs.map((key, i) => {
+      const value = params[key] || 0;
+      return scaler ? (value - scaler.mean[i]) / scaler.scale[i] : value;
+    });
+    for (const { weights, bias, activation } of layers) {
+      const activate = activations[activation];
+      values = bias.map((b, j) => {
+        let sum = b;
+        for (let i = 0; i < values.length; i++) {
+          sum += values[i] * weights[i][j];
+        }
+        return activate(sum);
+      });
+    }
+    return values[0];
+  }
+}
+
+/**
+ * Fetches and validates exported model weights
+ */
+export async function loadRatingModel(url: string): Promise<RatingModel> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Unable to load rating model from ${url} (${response.status}).`);
+  }
+  return new RatingModel(await response.json());
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Rating } from '@/types/hopalong';
+import ActiveLearner from './ActiveLearner';
+import RatingSession from './RatingSession';
+import RatingStore from './RatingStore';
+import RatingUploader from './RatingUploader';
+import { attractors, randomParams } from './attractors';
+
+const params = randomParams(attractors[0]);
+const visibility = { level: 0, subset: 2, distance: 120, visibleFor: 3000, nearestFor: 800 };
+
+function createSession() {
+  let nextId = 1;
+  const store = {
+    add: vi.fn(async (rating: Rating) => ({ ...rating, id: nextId++ })),
+    remove: vi.fn(async () => undefined),
+  };
+  const uploader = {
+    enqueue: vi.fn((rating: Rating) => `upload-${rating.id}`),
+    cancel: vi.fn(() => true),
+  };
+  const learner = { learn: vi.fn() };
+  const session = new RatingSession({
+    store: store as unknown as RatingStore,
+    uploader: uploader as unknown as RatingUploader,
+    learner: learner as unknown as ActiveLearner,
+    getViewedOrbit: () => ({ params, visibility }),
+    captureThumbnail: () => 'data:image/jpeg;base64,',
+  });
+  return { session, store, uploader, learner };
+}
+
+describe('RatingSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('saves, uploads and learns from each rating', async () => {
+    const { session, store, uploader, learner } = createSession();
+    const saved = await session.rate(7);
+    expect(saved).toMatchObject({ id: 1, rating: 7, params, visibility, timeRated: Date.now() });
+    expect(store.add).toHaveBeenCalledWith(expect.objectContaining({ rating: 7 }));
+    expect(learner.learn).toHaveBeenCalledWith(saved);
+    expect(uploader.enqueue).toHaveBeenCalledWith(saved);
+    expect(session.state).toEqual({ last: saved, count: 1, message: undefined });
+  });
+
+  it('ignores ratings made too soon after the last one', async () => {
+    const { session, store } = createSession();
+    await session.rate(7);
+    vi.advanceTimersByTime(500);
+    expect(await session.rate(2)).toBeUndefined();
+    expect(store.add).toHaveBeenCalledTimes(1);
+    expect(session.state).toMatchObject({
+      count: 1,
+      message: 'Slow down, that rating was ignored',
+    });
+
+    vi.advanceTimersByTime(250);
+    expect(await session.rate(2)).toMatchObject({ rating: 2 });
+    expect(session.state.count).toBe(2);
+  });
+
+  it('undoes the last rating, removing it and cancelling its upload', async () => {
+    const { session, store, uploader } = createSession();
+    const first = await session.rate(7);
+    vi.advanceTimersByTime(1000);
+    await session.rate(3);
+
+    expect(await session.undo()).toMatchObject({ id: 2, rating: 3 });
+    expect(store.remove).toHaveBeenCalledWith(2);
+    expect(uploader.cancel).toHaveBeenCalledWith('upload-2');
+    expect(session.state).toEqual({ last: first, count: 1, message: 'Undid rating 3' });
+
+    uploader.cancel.mockReturnValue(false);
+    await session.undo();
+    expect(store.remove).toHaveBeenLastCalledWith(1);
+    expect(session.state).toEqual({
+      last: undefined,
+      count: 0,
+      message: 'Undid rating 7, it was already uploaded',
+    });
+
+    expect(await session.undo()).toBeUndefined();
+    expect(session.state.message).toBe('Nothing to undo');
+  });
+
+  it('keeps a rating it was unable to undo', async () => {
+    const { session, store, uploader } = createSession();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const saved = await session.rate(7);
+    store.remove.mockRejectedValueOnce(new Error('Database closed'));
+    expect(await session.undo()).toBeUndefined();
+    expect(uploader.cancel).not.toHaveBeenCalled();
+    expect(session.state).toEqual({
+      last: saved,
+      count: 1,
+      message: 'Unable to undo that rating',
+    });
+    expect(await session.undo()).toEqual(saved);
+  });
+});
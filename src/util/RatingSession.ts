@@ -0,0 +1,119 @@
+import autoBind from 'auto-bind';
+import { Rating, ViewedOrbit } from '@/types/hopalong';
+import ActiveLearner from './ActiveLearner';
+import Observable from './Observable';
+import RatingStore from './RatingStore';
+import RatingUploader from './RatingUploader';
+
+// Ratings closer together than this are ignored, so a held or mashed key doesn't flood the data
+const MIN_RATING_INTERVAL = 750;
+// How many ratings can be undone
+const UNDO_LIMIT = 20;
+
+export type RatingSessionState = {
+  /** The most recent rating still standing, shown in the rating HUD */
+  last?: Rating;
+  /** Ratings made this session, minus any undone */
+  count: number;
+  /** Feedback on the last key press, e.g. when a rating was ignored */
+  message?: string;
+};
+
+type SessionProps = {
+  store: RatingStore;
+  uploader: RatingUploader;
+  learner: ActiveLearner;
+  getViewedOrbit: () => ViewedOrbit;
+  /** A small image of the screen as a data URL, saved with the rating */
+  captureThumbnail: () => string | undefined;
+};
+
+type HistoryEntry = {
+  rating: Rating;
+  uploadId: string;
+};
+
+/**
+ * Records ratings from the keyboard or the toolbar, saving, uploading and learning from each
+ */
+export default class RatingSession extends Observable<RatingSessionState> {
+  props: SessionProps;
+  history: HistoryEntry[] = [];
+  lastRatedAt = 0;
+  undoing = false;
+
+  constructor(props: SessionProps) {
+    super({ count: 0 });
+    autoBind(this);
+    this.props = props;
+  }
+
+  async rate(value: number): Promise<Rating | undefined> {
+    const now = Date.now();
+    if (now - this.lastRatedAt < MIN_RATING_INTERVAL) {
+      this.updateState({ message: 'Slow down, that rating was ignored' });
+      return undefined;
+    }
+    this.lastRatedAt = now;
+
+    const { store, uploader, learner, getViewedOrbit, captureThumbnail } = this.props;
+    const rating: Rating = {
+      rating: value,
+      ...getViewedOrbit(),
+      timeRated: now,
+      thumbnail: captureThumbnail(),
+    };
+    try {
+      const saved = await store.add(rating);
+      learner.learn(saved);
+      const uploadId = uploader.enqueue(saved);
+      this.history = [...this.history, { rating: saved, uploadId }].slice(-UNDO_LIMIT);
+      this.updateState({ last: saved, count: this.state.count + 1, message: undefined });
+      return saved;
+    } catch (e) {
+      console.error('Unable to save rating.', e);
+      this.updateState({ message: 'Unable to save that rating' });
+      return undefined;
+    }
+  }
+
+  /**
+   * Removes the last rating. It stays in the active learner until the page is reloaded, and it
+   * can't be taken back if it's already been uploaded.
+   */
+  async undo(): Promise<Rating | undefined> {
+    const entry = this.history[this.history.length - 1];
+    if (!entry) {
+      this.updateState({ message: 'Nothing to undo' });
+      return undefined;
+    }
+    // Another undo would pick the same entry until this one's removed
+    if (this.undoing) {
+      return undefined;
+    }
+    const { rating, uploadId } = entry;
+    this.undoing = true;
+    try {
+      if (typeof rating.id !== 'undefined') {
+        await this.props.store.remove(rating.id);
+      }
+    } catch (e) {
+      console.error('Unable to undo rating.', e);
+      this.updateState({ message: 'Unable to undo that rating' });
+      return undefined;
+    } finally {
+      this.undoing = false;
+    }
+    // Ratings made while it was being removed stay in the history
+    this.history = this.history.filter((item) => item !== entry);
+    const cancelled = this.props.uploader.cancel(uploadId);
+    this.updateState({
+      last: this.history[this.history.length - 1]?.rating,
+      count: this.state.count - 1,
+      message: cancelled
+        ? `Undid rating ${rating.rating}`
+        : `Undid rating ${rating.rating}, it was already uploaded`,
+    });
+    return rating;
+  }
+}
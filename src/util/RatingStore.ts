@@ -0,0 +1,148 @@
+import { omit } from 'lodash';
+import { Rating } from '@/types/hopalong';
+import { Store, getAll, openDatabase, putAll, remove } from './db';
+import { NUMERIC_PARAMS, isObject, toNumber, validateParams } from './validation';
+
+const STORAGE_KEY = 'hopalong-ratings';
+
+/** A rating as saved in sandbox/data.json, which the notebooks train on */
+export type DatasetRating = Pick<Rating, 'rating' | 'params'>;
+
+export type DatasetValidation = {
+  ratings: Rating[];
+  /** Why ratings in the file were skipped, numbered by their position in it */
+  errors: string[];
+};
+
+/**
+ * Identifies ratings of the same orbit with the same score, so merging sessions doesn't count
+ * them twice. Different scores for the same orbit are kept, they're all useful for training.
+ */
+export function ratingKey({ rating, params }: Rating): string {
+  return JSON.stringify([
+    rating,
+    params.attractor || 'hopalong',
+    ...NUMERIC_PARAMS.map((key) => params[key]),
+  ]);
+}
+
+export function toDataset(ratings: Rating[]): DatasetRating[] {
+  return ratings.map(({ rating, params }) => ({ rating, params }));
+}
+
+/**
+ * Checks a `[{ rating, params }]` dataset loaded from JSON. Bad entries are left out and reported.
+ */
+export function validateDataset(data: unknown): DatasetValidation {
+  if (!Array.isArray(data)) {
+    return { ratings: [], errors: ['Ratings must be a list of { rating, params }'] };
+  }
+  const ratings: Rating[] = [];
+  const errors: string[] = [];
+  data.forEach((value, i) => {
+    const entryErrors: string[] = [];
+    if (!isObject(value)) {
+      entryErrors.push('must be an object with a rating and params');
+    } else {
+      const rating = toNumber(value.rating);
+      if (typeof rating === 'undefined') {
+        entryErrors.push('rating must be a number');
+      }
+      const params = validateParams(value.params, entryErrors);
+      if (typeof rating !== 'undefined' && params) {
+        ratings.push({ rating, params });
+      }
+    }
+    errors.push(...entryErrors.map((error) => `Rating ${i + 1}: ${error}`));
+  });
+  return { ratings, errors };
+}
+
+function loadLocalRatings(): Rating[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    console.warn('Unable to load saved ratings.', e);
+    return [];
+  }
+}
+
+function saveLocalRatings(ratings: Rating[]) {
+  // Thumbnails are data URLs, a few of them would fill localStorage
+  window.localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(ratings.map((rating) => omit(rating, 'thumbnail')))
+  );
+}
+
+/**
+ * Keeps ratings between visits. Uses IndexedDB, or localStorage where that isn't available.
+ */
+export default class RatingStore {
+  useIndexedDb: Promise<boolean>;
+
+  constructor() {
+    this.useIndexedDb = openDatabase().then(
+      () => true,
+      (e) => {
+        console.warn('Saving ratings to localStorage instead of IndexedDB.', e);
+        return false;
+      }
+    );
+  }
+
+  async getAll(): Promise<Rating[]> {
+    if (await this.useIndexedDb) {
+      return getAll<Rating>(Store.RATINGS);
+    }
+    return loadLocalRatings();
+  }
+
+  async add(rating: Rating): Promise<Rating> {
+    const [saved] = await this.addAll([rating]);
+    return saved;
+  }
+
+  async addAll(ratings: Rating[]): Promise<Rating[]> {
+    if (await this.useIndexedDb) {
+      // Let IndexedDB pick the ids
+      const ids = await putAll(
+        Store.RATINGS,
+        ratings.map((rating) => omit(rating, 'id'))
+      );
+      return ratings.map((rating, i) => ({ ...rating, id: ids[i] }));
+    }
+    const existing = loadLocalRatings();
+    let lastId = existing.reduce((max, { id = 0 }) => Math.max(max, id), 0);
+    const saved = ratings.map((rating) => ({ ...rating, id: ++lastId }));
+    saveLocalRatings([...existing, ...saved]);
+    return saved;
+  }
+
+  async remove(id: number) {
+    if (await this.useIndexedDb) {
+      return remove(Store.RATINGS, id);
+    }
+    saveLocalRatings(loadLocalRatings().filter((rating) => rating.id !== id));
+  }
+
+  /**
+   * Adds the ratings that aren't already saved, returning how many were new
+   */
+  async import(ratings: Rating[]): Promise<number> {
+    const keys = new Set((await this.getAll()).map(ratingKey));
+    const newRatings = ratings.filter((rating) => {
+      const key = ratingKey(rating);
+      if (keys.has(key)) {
+        return false;
+      }
+      keys.add(key);
+      return true;
+    });
+    if (newRatings.length) {
+      await this.addAll(newRatings);
+    }
+    return newRatings.length;
+  }
+}
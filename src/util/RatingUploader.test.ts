@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Rating } from '@/types/hopalong';
+import RatingUploader from './RatingUploader';
+import { attractors, randomParams } from './attractors';
+
+const rating: Rating = { rating: 5, params: randomParams(attractors[0]), thumbnail: 'data:' };
+
+/**
+ * Lets the awaited fetch in an upload settle
+ */
+const settle = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('RatingUploader', () => {
+  let storage: Map<string, string>;
+  let fetch: ReturnType<typeof vi.fn>;
+  let network: { onLine: boolean };
+
+  const sentBatches = () => fetch.mock.calls.map(([, { body }]) => JSON.parse(body).ratings.length);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    storage = new Map();
+    fetch = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetch);
+    network = { onLine: true };
+    vi.stubGlobal('navigator', network);
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+      },
+      setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+      clearTimeout: (key: number) => clearTimeout(key),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    // Otherwise the next stubs would go on the stubbed window
+    Reflect.deleteProperty(globalThis, 'window');
+  });
+
+  it('waits for more ratings, then uploads them in batches', async () => {
+    const uploader = new RatingUploader('http://localhost/ratings');
+    for (let i = 0; i < 60; i++) {
+      uploader.enqueue(rating);
+    }
+    vi.advanceTimersByTime(4999);
+    expect(fetch).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    await settle();
+    vi.advanceTimersByTime(0);
+    await settle();
+    expect(sentBatches()).toEqual([50, 10]);
+    expect(uploader.state).toEqual({ state: 'idle', queued: 0, uploaded: 60 });
+    expect(JSON.parse(storage.get('hopalong-upload-queue') as string)).toEqual([]);
+    uploader.destroy();
+  });
+
+  it('leaves thumbnails out of uploads', async () => {
+    const uploader = new RatingUploader('http://localhost/ratings');
+    const uploadId = uploader.enqueue(rating);
+    vi.advanceTimersByTime(5000);
+    await settle();
+    const [sent] = JSON.parse(fetch.mock.calls[0][1].body).ratings;
+    expect(sent).toEqual({ rating: 5, params: rating.params, uploadId });
+    uploader.destroy();
+  });
+
+  it('backs off after each failed upload, then sends the queue once it works', async () => {
+    fetch.mockResolvedValue({ ok: false, status: 503 });
+    const uploader = new RatingUploader('http://localhost/ratings');
+    uploader.enqueue(rating);
+    vi.advanceTimersByTime(5000);
+    await settle();
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(uploader.state).toMatchObject({
+      state: 'error',
+      queued: 1,
+      lastError: 'Upload to http://localhost/ratings failed (503).',
+    });
+
+    vi.advanceTimersByTime(4999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    await settle();
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // The second failure doubles the delay
+    fetch.mockResolvedValue({ ok: true });
+    vi.advanceTimersByTime(9999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    await settle();
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(uploader.state).toEqual({ state: 'idle', queued: 0, uploaded: 1 });
+    uploader.destroy();
+  });
+
+  it('keeps the queue for later when offline or without an endpoint', () => {
+    const uploader = new RatingUploader('');
+    uploader.enqueue(rating);
+    expect(uploader.state.state).toBe('disabled');
+    network.onLine = false;
+    uploader.setEndpoint('http://localhost/ratings');
+    expect(uploader.state).toMatchObject({ state: 'offline', queued: 1 });
+    vi.advanceTimersByTime(60000);
+    expect(fetch).not.toHaveBeenCalled();
+    uploader.destroy();
+
+    // Picks up the saved queue
+    network.onLine = true;
+    const reloaded = new RatingUploader();
+    expect(reloaded.state).toMatchObject({ state: 'waiting', queued: 1 });
+    reloaded.destroy();
+  });
+
+  it('only cancels ratings that have not been sent', async () => {
+    const uploader = new RatingUploader('http://localhost/ratings');
+    const first = uploader.enqueue(rating);
+    const second = uploader.enqueue(rating);
+    expect(uploader.cancel(first)).toBe(true);
+    expect(uploader.state.queued).toBe(1);
+    vi.advanceTimersByTime(5000);
+    expect(uploader.cancel(second)).toBe(false);
+    await settle();
+    expect(sentBatches()).toEqual([1]);
+    uploader.destroy();
+  });
+});
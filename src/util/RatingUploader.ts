@@ -0,0 +1,203 @@
+import autoBind from 'auto-bind';
+import { omit } from 'lodash';
+import { v4 } from 'uuid';
+import { Rating } from '@/types/hopalong';
+import Observable from './Observable';
+
+const QUEUE_KEY = 'hopalong-upload-queue';
+const ENDPOINT_KEY = 'hopalong-upload-endpoint';
+
+// Most ratings uploaded in one request
+const BATCH_SIZE = 50;
+// How long to wait for more ratings before uploading a batch (in ms)
+const BATCH_DELAY = 5000;
+// Retry delays double after each failure, up to the maximum (in ms)
+const RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export type QueuedRating = Omit<Rating, 'id' | 'thumbnail'> & {
+  /** Lets the server skip ratings it already saved, if the response to an upload got lost */
+  uploadId: string;
+};
+
+export type UploadState = 'disabled' | 'idle' | 'waiting' | 'uploading' | 'offline' | 'error';
+
+export type UploadStatus = {
+  state: UploadState;
+  /** Ratings still to be uploaded */
+  queued: number;
+  /** Total ratings uploaded since the page loaded */
+  uploaded: number;
+  lastError?: string;
+};
+
+function loadQueue(): QueuedRating[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    console.warn('Unable to load the rating upload queue.', e);
+    return [];
+  }
+}
+
+/**
+ * Sends ratings to a collection endpoint in batches. The queue is saved to localStorage, so
+ * ratings made offline or before a reload are sent once the endpoint can be reached again.
+ */
+export default class RatingUploader extends Observable<UploadStatus> {
+  endpoint: string;
+  queue: QueuedRating[];
+  /** Failed uploads in a row, used for the retry delay */
+  failures = 0;
+  timeoutKey?: number;
+  /** Upload ids of the batch being sent */
+  sending = new Set<string>();
+
+  /**
+   * @param endpoint Replaces the saved endpoint if given
+   */
+  constructor(endpoint?: string) {
+    const queue = loadQueue();
+    super({ state: 'idle', queued: queue.length, uploaded: 0 });
+    autoBind(this);
+    this.endpoint = window.localStorage.getItem(ENDPOINT_KEY) || '';
+    this.queue = queue;
+    window.addEventListener('online', this.onOnline);
+    if (typeof endpoint !== 'undefined') {
+      this.setEndpoint(endpoint);
+    } else {
+      this.schedule(0);
+    }
+  }
+
+  destroy() {
+    window.clearTimeout(this.timeoutKey);
+    window.removeEventListener('online', this.onOnline);
+    this.listeners.clear();
+  }
+
+  setEndpoint(endpoint: string) {
+    this.endpoint = endpoint.trim();
+    window.localStorage.setItem(ENDPOINT_KEY, this.endpoint);
+    this.failures = 0;
+    this.updateState({ state: 'waiting', lastError: undefined });
+    this.schedule(0);
+  }
+
+  /**
+   * Adds a rating to the queue, returning its upload id
+   */
+  enqueue(rating: Rating): string {
+    const uploadId = v4();
+    // Thumbnails are only for showing ratings in this browser, they'd make uploads much bigger
+    this.queue.push({ ...omit(rating, 'id', 'thumbnail'), uploadId });
+    this.saveQueue();
+    this.updateState({ queued: this.queue.length });
+    if (this.state.state !== 'uploading' && this.state.state !== 'error') {
+      this.schedule(BATCH_DELAY);
+    }
+    return uploadId;
+  }
+
+  /**
+   * Takes a rating out of the queue, returning false if it has already been sent
+   */
+  cancel(uploadId: string): boolean {
+    if (this.sending.has(uploadId) || !this.queue.some((rating) => rating.uploadId === uploadId)) {
+      return false;
+    }
+    this.queue = this.queue.filter((rating) => rating.uploadId !== uploadId);
+    this.saveQueue();
+    this.updateState({ queued: this.queue.length });
+    return true;
+  }
+
+  saveQueue() {
+    try {
+      window.localStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (e) {
+      console.warn('Unable to save the rating upload queue.', e);
+    }
+  }
+
+  schedule(delay: number) {
+    window.clearTimeout(this.timeoutKey);
+    if (!this.endpoint) {
+      this.updateState({ state: 'disabled' });
+      return;
+    }
+    if (!this.queue.length) {
+      this.updateState({ state: 'idle' });
+      return;
+    }
+    if (!navigator.onLine) {
+      // Picked up again by onOnline
+      this.updateState({ state: 'offline' });
+      return;
+    }
+    this.updateState({ state: 'waiting' });
+    this.timeoutKey = window.setTimeout(this.upload, delay);
+  }
+
+  onOnline() {
+    this.failures = 0;
+    this.schedule(0);
+  }
+
+  async upload() {
+    const batch = this.queue.slice(0, BATCH_SIZE);
+    const endpoint = this.endpoint;
+    this.sending = new Set(batch.map(({ uploadId }) => uploadId));
+    this.updateState({ state: 'uploading' });
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ratings: batch }),
+      });
+      if (!response.ok) {
+        throw new Error(`Upload to ${endpoint} failed (${response.status}).`);
+      }
+    } catch (e) {
+      this.sending.clear();
+      this.failures++;
+      const delay = Math.min(RETRY_DELAY * 2 ** (this.failures - 1), MAX_RETRY_DELAY);
+      this.schedule(delay * (0.5 + Math.random() / 2));
+      this.updateState({ state: 'error', lastError: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+
+    // Ratings may have been added while uploading, so only remove the ones that were sent
+    const sent = this.sending;
+    this.sending = new Set();
+    this.queue = this.queue.filter(({ uploadId }) => !sent.has(uploadId));
+    this.failures = 0;
+    this.saveQueue();
+    this.updateState({
+      state: 'waiting',
+      queued: this.queue.length,
+      uploaded: this.state.uploaded + batch.length,
+      lastError: undefined,
+    });
+    this.schedule(0);
+  }
+}
+
+export function describeUploadStatus({ state, queued, uploaded, lastError }: UploadStatus): string {
+  switch (state) {
+    case 'disabled':
+      return 'Uploads are off, set an endpoint in the Ratings tab';
+    case 'offline':
+      return `Offline, ${queued} ratings will upload when back online`;
+    case 'error':
+      return `Upload failed (${lastError}), retrying ${queued} ratings soon`;
+    case 'uploading':
+      return `Uploading ${queued} ratings`;
+    case 'waiting':
+      return `${queued} ratings waiting to upload`;
+    case 'idle':
+    default:
+      return `All ratings uploaded (${uploaded} this session)`;
+  }
+}
@@ -0,0 +1,384 @@
+import autoBind from 'auto-bind';
+import Hopalong from '@/hopalong';
+import { OutputSize } from '@/types/hopalong';
+import Observable from './Observable';
+import { downloadBlob } from './download';
+import { getOutputSize } from './stills';
+import { isObject } from './validation';
+import WebmMuxer from './webm';
+
+const STORAGE_KEY = 'hopalong-recording';
+
+// Containers MediaRecorder is asked for, best first
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+// Codecs tried for offline rendering, as WebCodecs and Matroska know them
+const CODECS = [
+  { codec: 'vp09.00.51.08', id: 'V_VP9' },
+  { codec: 'vp8', id: 'V_VP8' },
+];
+// Bits spent on each pixel of each frame, about 12 Mbit/s for 1080p at 60 fps
+const BITS_PER_PIXEL = 0.1;
+// How often offline rendering asks for a keyframe, so the video can be seeked (in s)
+const KEYFRAME_INTERVAL = 2;
+// Frames left waiting for the encoder before offline rendering waits for it to catch up
+const MAX_ENCODE_QUEUE = 8;
+// How often MediaRecorder hands over what it has recorded (in ms)
+const RECORDER_TIMESLICE = 1000;
+
+export type RecordingMode = 'realtime' | 'offline';
+
+export type RecordingOptions = {
+  mode: RecordingMode;
+  /** In s */
+  duration: number;
+  /** Id of one of the recording sizes */
+  size: string;
+  frameRate: number;
+};
+
+export type RecordingState = 'idle' | 'recording' | 'rendering' | 'saving' | 'error';
+
+export type RecordingStatus = {
+  state: RecordingState;
+  options: RecordingOptions;
+  /** How much of the duration has been recorded, from 0 to 1 */
+  progress: number;
+  /** Whether offline frames are being paced in real time, as WebCodecs can't encode them */
+  fallback: boolean;
+  lastError?: string;
+};
+
+type RecorderProps = {
+  /** The simulation on screen when a recording starts, which is then used until it ends */
+  getHopalong: () => Hopalong;
+};
+
+type VideoCodec = { config: VideoEncoderConfig; id: string };
+
+export const recordingSizes: OutputSize[] = [
+  { id: 'screen', name: 'Screen size' },
+  { id: '720p', name: '720p (1280 × 720)', width: 1280, height: 720 },
+  { id: '1080p', name: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+  { id: 'square', name: 'Square (1080 × 1080)', width: 1080, height: 1080 },
+  { id: 'portrait', name: 'Portrait (1080 × 1920)', width: 1080, height: 1920 },
+  { id: '4k', name: '4K (3840 × 2160)', width: 3840, height: 2160 },
+];
+
+export const defaultRecordingOptions: RecordingOptions = {
+  mode: 'realtime',
+  duration: 10,
+  size: '1080p',
+  frameRate: 60,
+};
+
+function loadOptions(): RecordingOptions {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    return isObject(saved) ? { ...defaultRecordingOptions, ...saved } : defaultRecordingOptions;
+  } catch (e) {
+    console.warn('Unable to load the recording options.', e);
+    return defaultRecordingOptions;
+  }
+}
+
+function saveOptions(options: RecordingOptions) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.warn('Unable to save the recording options.', e);
+  }
+}
+
+function getBitrate(width: number, height: number, frameRate: number): number {
+  return Math.round(width * height * frameRate * BITS_PER_PIXEL);
+}
+
+function wait(time: number): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, time));
+}
+
+/**
+ * The first codec WebCodecs can encode at this size, if it's there at all
+ */
+async function findVideoCodec(
+  width: number,
+  height: number,
+  frameRate: number
+): Promise<VideoCodec | undefined> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+    return undefined;
+  }
+  for (const { codec, id } of CODECS) {
+    const config = {
+      codec,
+      width,
+      height,
+      bitrate: getBitrate(width, height, frameRate),
+      framerate: frameRate,
+    };
+    try {
+      if ((await VideoEncoder.isConfigSupported(config)).supported) {
+        return { config, id };
+      }
+    } catch (e) {
+      console.warn(`Unable to check for the ${codec} encoder.`, e);
+    }
+  }
+  return undefined;
+}
+
+function createMediaRecorder(
+  stream: MediaStream,
+  width: number,
+  height: number,
+  frameRate: number
+): MediaRecorder {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("This browser can't record video");
+  }
+  return new MediaRecorder(stream, {
+    mimeType: MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)),
+    videoBitsPerSecond: getBitrate(width, height, frameRate),
+  });
+}
+
+/**
+ * Records the canvas to WebM. In real time MediaRecorder captures the frames as they're shown.
+ * Offline, the simulation is stepped a fixed time per frame and every frame is encoded with
+ * WebCodecs however long it takes, so the video plays smoothly even from a slow machine.
+ * Where WebCodecs can't encode, the stepped frames are fed to MediaRecorder in real time.
+ */
+export default class Recorder extends Observable<RecordingStatus> {
+  props: RecorderProps;
+  /** Ends the recording in progress, if there is one */
+  stopCurrent?: () => void;
+  /** Whether offline rendering was stopped, and should be thrown away */
+  cancelled = false;
+
+  constructor(props: RecorderProps) {
+    super({ state: 'idle', options: loadOptions(), progress: 0, fallback: false });
+    autoBind(this);
+    this.props = props;
+  }
+
+  configure(options: Partial<RecordingOptions>) {
+    const newOptions = { ...this.state.options, ...options };
+    saveOptions(newOptions);
+    this.updateState({ options: newOptions });
+  }
+
+  isBusy(): boolean {
+    const { state } = this.state;
+    return state === 'recording' || state === 'rendering' || state === 'saving';
+  }
+
+  /**
+   * Size of the video in px, rounded to even numbers as the encoders need
+   */
+  getSize(hopalong: Hopalong): { width: number; height: number } {
+    const pixelRatio = hopalong.renderer.getPixelRatio();
+    const { width, height } = getOutputSize(
+      recordingSizes,
+      this.state.options.size,
+      window.innerWidth * pixelRatio,
+      window.innerHeight * pixelRatio
+    );
+    return { width: Math.round(width / 2) * 2, height: Math.round(height / 2) * 2 };
+  }
+
+  async start() {
+    if (this.isBusy()) {
+      return;
+    }
+    const hopalong = this.props.getHopalong();
+    const { mode, frameRate } = this.state.options;
+    const { width, height } = this.getSize(hopalong);
+    this.cancelled = false;
+    this.updateState({ progress: 0, fallback: false, lastError: undefined });
+    try {
+      hopalong.setOutputSize({ width, height });
+      const blob =
+        mode === 'offline'
+          ? await this.renderOffline(hopalong, width, height)
+          : await this.recordRealtime(hopalong, width, height);
+      if (blob) {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadBlob(blob, `hopalong-${date}-${width}x${height}-${frameRate}fps.webm`);
+      }
+      this.updateState({ state: 'idle' });
+    } catch (e) {
+      console.error('Unable to record.', e);
+      this.updateState({ state: 'error', lastError: e.message });
+    } finally {
+      this.stopCurrent = undefined;
+      hopalong.setOutputSize();
+    }
+  }
+
+  /**
+   * Ends a real time recording early and saves it, or throws away offline rendering
+   */
+  stop() {
+    this.stopCurrent?.();
+  }
+
+  recordRealtime(hopalong: Hopalong, width: number, height: number): Promise<Blob> {
+    const { duration, frameRate } = this.state.options;
+    const canvas = hopalong.renderer.domElement;
+    const recorder = createMediaRecorder(canvas.captureStream(frameRate), width, height, frameRate);
+    const chunks: Blob[] = [];
+    const startedAt = performance.now();
+
+    return new Promise((resolve, reject) => {
+      const stopRecording = () => {
+        unsubscribe();
+        if (recorder.state !== 'inactive') {
+          recorder.stop();
+        }
+      };
+      // Follows the render loop, the video is as long as it took in real time
+      const unsubscribe = hopalong.onFrame(() => {
+        const progress = (performance.now() - startedAt) / (duration * 1000);
+        if (progress >= 1) {
+          stopRecording();
+        } else {
+          this.updateState({ progress });
+        }
+      });
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorder.onerror = () => {
+        unsubscribe();
+        reject(new Error('The recording failed'));
+      };
+      this.stopCurrent = stopRecording;
+      recorder.start(RECORDER_TIMESLICE);
+      this.updateState({ state: 'recording' });
+    });
+  }
+
+  /**
+   * Steps the simulation on its manual clock for every frame, then puts the clock back
+   */
+  async renderOffline(
+    hopalong: Hopalong,
+    width: number,
+    height: number
+  ): Promise<Blob | undefined> {
+    const { frameRate } = this.state.options;
+    const codec = await findVideoCodec(width, height, frameRate);
+    const clock = hopalong.clock.options;
+    this.stopCurrent = () => {
+      this.cancelled = true;
+    };
+    // The manual clock also makes orbits on the main thread, so each one lands on the same frame
+    hopalong.applySettings({ clockMode: 'manual', frameRate });
+    hopalong.setSuspended(true);
+    this.updateState({ state: 'rendering', fallback: !codec });
+    try {
+      return codec
+        ? await this.encodeFrames(hopalong, codec, width, height)
+        : await this.recordSteppedFrames(hopalong, width, height);
+    } finally {
+      hopalong.setSuspended(false);
+      hopalong.applySettings({ clockMode: clock.mode, frameRate: clock.frameRate });
+    }
+  }
+
+  getTotalFrames(): number {
+    const { duration, frameRate } = this.state.options;
+    return Math.max(1, Math.round(duration * frameRate));
+  }
+
+  async encodeFrames(
+    hopalong: Hopalong,
+    { config, id }: VideoCodec,
+    width: number,
+    height: number
+  ): Promise<Blob | undefined> {
+    const { frameRate } = this.state.options;
+    const canvas = hopalong.renderer.domElement;
+    const totalFrames = this.getTotalFrames();
+    const keyframeInterval = Math.max(1, Math.round(frameRate * KEYFRAME_INTERVAL));
+    // WebCodecs times are in µs
+    const frameTime = 1e6 / frameRate;
+    const muxer = new WebmMuxer({ codec: id, width, height, frameRate });
+    let encodeError: Error | undefined;
+    const encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        muxer.addFrame(data, chunk.timestamp / 1000, chunk.type === 'key');
+      },
+      error: (e) => {
+        encodeError = e;
+      },
+    });
+    encoder.configure(config);
+
+    try {
+      for (let i = 0; i < totalFrames && !this.cancelled; i++) {
+        if (encodeError) {
+          throw encodeError;
+        }
+        hopalong.step();
+        // The canvas still has the frame, as the animation loop is suspended
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(i * frameTime),
+          duration: Math.round(frameTime),
+        });
+        encoder.encode(frame, { keyFrame: i % keyframeInterval === 0 });
+        frame.close();
+        this.updateState({ progress: (i + 1) / totalFrames });
+        // Let the page update, and the encoder catch up so frames don't pile up in memory
+        do {
+          await wait(0);
+        } while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !encodeError);
+      }
+      if (this.cancelled) {
+        return undefined;
+      }
+      this.updateState({ state: 'saving' });
+      await encoder.flush();
+      if (encodeError) {
+        throw encodeError;
+      }
+      return muxer.finish();
+    } finally {
+      if (encoder.state !== 'closed') {
+        encoder.close();
+      }
+    }
+  }
+
+  /**
+   * Feeds each stepped frame to MediaRecorder a frame's time apart, so the video's timing is
+   * right even though it's timed by the clock
+   */
+  async recordSteppedFrames(
+    hopalong: Hopalong,
+    width: number,
+    height: number
+  ): Promise<Blob | undefined> {
+    const { frameRate } = this.state.options;
+    const stream = hopalong.renderer.domElement.captureStream(0);
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+    const recorder = createMediaRecorder(stream, width, height, frameRate);
+    const chunks: Blob[] = [];
+    const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.start(RECORDER_TIMESLICE);
+
+    const totalFrames = this.getTotalFrames();
+    for (let i = 0; i < totalFrames && !this.cancelled; i++) {
+      hopalong.step();
+      track.requestFrame();
+      this.updateState({ progress: (i + 1) / totalFrames });
+      await wait(1000 / frameRate);
+    }
+    this.updateState({ state: 'saving' });
+    recorder.stop();
+    await stopped;
+    return this.cancelled ? undefined : new Blob(chunks, { type: recorder.mimeType });
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import SubsetBuffer from './SubsetBuffer';
+
+// Two points of x, y and z
+const levelPositions = new Float32Array([1, 2, 0, 3, 4, 0]);
+
+describe('SubsetBuffer', () => {
+  it('starts every level with the same positions', () => {
+    const buffer = new SubsetBuffer(levelPositions, 3);
+    expect(Array.from(buffer.positions)).toEqual([
+      ...levelPositions,
+      ...levelPositions,
+      ...levelPositions,
+    ]);
+    expect(buffer.attribute.count).toBe(6);
+  });
+
+  it('copies positions into the range of their level', () => {
+    const buffer = new SubsetBuffer(levelPositions, 3);
+    buffer.setLevel(1, new Float32Array([5, 6, 0, 7, 8, 0]));
+    expect(Array.from(buffer.positions.subarray(6, 12))).toEqual([5, 6, 0, 7, 8, 0]);
+    expect(Array.from(buffer.positions.subarray(0, 6))).toEqual(Array.from(levelPositions));
+  });
+
+  it('uploads only the range that changed, once', () => {
+    const buffer = new SubsetBuffer(levelPositions, 4);
+    const { attribute } = buffer;
+    const version = attribute.version;
+    buffer.setLevel(2, levelPositions);
+    buffer.setLevel(1, levelPositions);
+    buffer.upload();
+    expect(attribute.updateRange).toEqual({ offset: 6, count: 12 });
+    expect(attribute.version).toBe(version + 1);
+
+    buffer.upload();
+    expect(attribute.version).toBe(version + 1);
+  });
+
+  it('covers every changed level between uploads', () => {
+    const buffer = new SubsetBuffer(levelPositions, 4);
+    buffer.setLevel(0, levelPositions);
+    buffer.setLevel(3, levelPositions);
+    buffer.upload();
+    expect(buffer.attribute.updateRange).toEqual({ offset: 0, count: 24 });
+  });
+});
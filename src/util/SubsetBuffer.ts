@@ -0,0 +1,53 @@
+import { BufferAttribute, DynamicDrawUsage } from 'three';
+
+/**
+ * Positions for every level of one subset, each level draws its own range of the buffer.
+ * Levels of the same subset share it, so a frame's changes only need uploading once.
+ */
+export default class SubsetBuffer {
+  positions: Float32Array;
+  attribute: BufferAttribute;
+  /** Range of `positions` changed since the last upload, empty when dirtyEnd <= dirtyStart */
+  dirtyStart = 0;
+  dirtyEnd = 0;
+
+  /**
+   * @param levelPositions Positions every level starts with
+   */
+  constructor(levelPositions: Float32Array, numLevels: number) {
+    this.positions = new Float32Array(numLevels * levelPositions.length);
+    for (let k = 0; k < numLevels; k++) {
+      this.positions.set(levelPositions, k * levelPositions.length);
+    }
+    this.attribute = new BufferAttribute(this.positions, 3).setUsage(DynamicDrawUsage);
+  }
+
+  /**
+   * Copies positions into the level's range, to be uploaded with the rest of the frame's changes
+   */
+  setLevel(level: number, levelPositions: Float32Array) {
+    const start = level * levelPositions.length;
+    const end = start + levelPositions.length;
+    this.positions.set(levelPositions, start);
+    if (this.dirtyEnd <= this.dirtyStart) {
+      this.dirtyStart = start;
+      this.dirtyEnd = end;
+    } else {
+      this.dirtyStart = Math.min(this.dirtyStart, start);
+      this.dirtyEnd = Math.max(this.dirtyEnd, end);
+    }
+  }
+
+  /**
+   * Uploads only the range which changed since the last upload
+   */
+  upload() {
+    if (this.dirtyEnd <= this.dirtyStart) {
+      return;
+    }
+    this.attribute.updateRange.offset = this.dirtyStart;
+    this.attribute.updateRange.count = this.dirtyEnd - this.dirtyStart;
+    this.attribute.needsUpdate = true;
+    this.dirtyStart = this.dirtyEnd = 0;
+  }
+}
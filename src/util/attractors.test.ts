@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { attractors, getAttractor, randomParams } from './attractors';
+
+describe('attractors', () => {
+  it('have unique ids and at least one param each', () => {
+    const ids = attractors.map(({ id }) => id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const { params } of attractors) {
+      expect(params.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('iterate the formula they show', () => {
+    const hopalong = getAttractor('hopalong');
+    const step = hopalong.createStep({ ...randomParams(hopalong), a: 1, b: 1, c: 1, d: 0, e: 0 });
+    const point = { x: 0, y: 0 };
+    step(point);
+    expect(point).toEqual({ x: 0, y: 1 });
+    step(point);
+    expect(point).toEqual({ x: 1, y: 1 });
+
+    const clifford = getAttractor('clifford');
+    const cliffordPoint = { x: 0, y: 0 };
+    clifford.createStep({ ...randomParams(clifford), a: 1, b: 1, c: 0.5, d: -0.5 })(cliffordPoint);
+    expect(cliffordPoint).toEqual({ x: 0.5, y: -0.5 });
+  });
+});
+
+describe('getAttractor', () => {
+  it('looks attractors up by id', () => {
+    expect(getAttractor('tinkerbell').name).toBe('Tinkerbell');
+  });
+
+  it('falls back to Hopalong', () => {
+    expect(getAttractor('lorenz').id).toBe('hopalong');
+    expect(getAttractor().id).toBe('hopalong');
+  });
+});
+
+describe('randomParams', () => {
+  it('picks each param within its range and leaves the rest at 0', () => {
+    for (const attractor of attractors) {
+      const params = randomParams(attractor);
+      expect(params.attractor).toBe(attractor.id);
+      for (const key of ['a', 'b', 'c', 'd', 'e'] as const) {
+        const range = attractor.params.find((param) => param.key === key);
+        if (range) {
+          expect(params[key]).toBeGreaterThanOrEqual(range.min);
+          expect(params[key]).toBeLessThanOrEqual(range.max);
+        } else {
+          expect(params[key]).toBe(0);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { Attractor, OrbitParams } from '@/types/hopalong';
+
+const hopalong: Attractor = {
+  id: 'hopalong',
+  name: "Barry Martin's Hopalong",
+  description: "This is known as the 'Hopalong Attractor'.",
+  params: [
+    { key: 'a', min: -30, max: 30 },
+    { key: 'b', min: 0.2, max: 1.8 },
+    { key: 'c', min: 5, max: 17 },
+    { key: 'd', min: 0, max: 10 },
+    { key: 'e', min: 0, max: 12 },
+  ],
+  formula: ['(x, y) -> (y - sign(x)*(d + f(abs(b*x - c))) + e, a - x)'],
+  createStep({ a, b, c, d, e, choice }) {
+    // Generalization of the Barry Martin's original formula, f is picked by choice
+    let f: (value: number) => number;
+    if (choice < 0.5) {
+      f = (value) => Math.sqrt(value);
+    } else if (choice < 0.75) {
+      f = (value) => Math.sqrt(Math.sqrt(value));
+    } else {
+      f = (value) => Math.log(2 + Math.sqrt(value));
+    }
+    return (point) => {
+      const { x, y } = point;
+      const z = d + f(Math.abs(b * x - c));
+      let x1;
+      if (x > 0) {
+        x1 = y - z;
+      } else if (x == 0) {
+        x1 = y;
+      } else {
+        x1 = y + z;
+      }
+      point.y = a - x;
+      point.x = x1 + e;
+    };
+  },
+};
+
+const clifford: Attractor = {
+  id: 'clifford',
+  name: 'Clifford',
+  description: "Discovered by Clifford Pickover, this is known as the 'Clifford Attractor'.",
+  params: [
+    { key: 'a', min: -2, max: 2 },
+    { key: 'b', min: -2, max: 2 },
+    { key: 'c', min: -2, max: 2 },
+    { key: 'd', min: -2, max: 2 },
+  ],
+  formula: ['(x, y) -> (sin(a*y) + c*cos(a*x), sin(b*x) + d*cos(b*y))'],
+  createStep({ a, b, c, d }) {
+    return (point) => {
+      const { x, y } = point;
+      point.x = Math.sin(a * y) + c * Math.cos(a * x);
+      point.y = Math.sin(b * x) + d * Math.cos(b * y);
+    };
+  },
+};
+
+const deJong: Attractor = {
+  id: 'dejong',
+  name: 'Peter de Jong',
+  description: "This is known as the 'Peter de Jong Attractor'.",
+  params: [
+    { key: 'a', min: -3, max: 3 },
+    { key: 'b', min: -3, max: 3 },
+    { key: 'c', min: -3, max: 3 },
+    { key: 'd', min: -3, max: 3 },
+  ],
+  formula: ['(x, y) -> (sin(a*y) - cos(b*x), sin(c*x) - cos(d*y))'],
+  createStep({ a, b, c, d }) {
+    return (point) => {
+      const { x, y } = point;
+      point.x = Math.sin(a * y) - Math.cos(b * x);
+      point.y = Math.sin(c * x) - Math.cos(d * y);
+    };
+  },
+};
+
+const gumowskiMira: Attractor = {
+  id: 'gumowski-mira',
+  name: 'Gumowski–Mira',
+  description:
+    "Modelled on particle trajectories in accelerators, this is the 'Gumowski–Mira map'.",
+  params: [
+    { key: 'a', label: 'α', min: 0, max: 0.01 },
+    { key: 'b', label: 'σ', min: 0, max: 0.1 },
+    { key: 'c', label: 'μ', min: -1, max: 1 },
+  ],
+  formula: [
+    'f(x) = μ*x + 2*(1 - μ)*x² / (1 + x²)',
+    '(x, y) -> (y + α*(1 - σ*y²)*y + f(x), f(x′) - x)',
+  ],
+  origin: { x: 0.5, y: 0.5 },
+  createStep({ a, b, c }) {
+    const f = (x: number) => c * x + (2 * (1 - c) * x * x) / (1 + x * x);
+    return (point) => {
+      const { x, y } = point;
+      const x1 = y + a * (1 - b * y * y) * y + f(x);
+      point.x = x1;
+      point.y = f(x1) - x;
+    };
+  },
+};
+
+const bedhead: Attractor = {
+  id: 'bedhead',
+  name: 'Bedhead',
+  description: "Named after its messy look, this is known as the 'Bedhead Attractor'.",
+  params: [
+    { key: 'a', min: -1, max: 1 },
+    { key: 'b', min: -1, max: -0.1 },
+  ],
+  formula: ['(x, y) -> (sin(x*y/b)*y + cos(a*x - y), x + sin(y)/b)'],
+  origin: { x: 1, y: 1 },
+  createStep({ a, b }) {
+    return (point) => {
+      const { x, y } = point;
+      point.x = Math.sin((x * y) / b) * y + Math.cos(a * x - y);
+      point.y = x + Math.sin(y) / b;
+    };
+  },
+};
+
+const tinkerbell: Attractor = {
+  id: 'tinkerbell',
+  name: 'Tinkerbell',
+  description: "This is known as the 'Tinkerbell Map'.",
+  params: [
+    { key: 'a', min: 0.7, max: 0.95 },
+    { key: 'b', min: -0.65, max: -0.55 },
+    { key: 'c', min: 1.8, max: 2.2 },
+    { key: 'd', min: 0.4, max: 0.55 },
+  ],
+  formula: ['(x, y) -> (x² - y² + a*x + b*y, 2*x*y + c*x + d*y)'],
+  // (0, 0) is a fixed point, so start from the classic seed instead
+  origin: { x: -0.72, y: -0.64 },
+  createStep({ a, b, c, d }) {
+    return (point) => {
+      const { x, y } = point;
+      point.x = x * x - y * y + a * x + b * y;
+      point.y = 2 * x * y + c * x + d * y;
+    };
+  },
+};
+
+export const attractors: Attractor[] = [
+  hopalong,
+  clifford,
+  deJong,
+  gumowskiMira,
+  bedhead,
+  tinkerbell,
+];
+
+/**
+ * Looks up an attractor by id, falling back to Hopalong for unknown ids
+ */
+export function getAttractor(id?: string): Attractor {
+  return attractors.find((attractor) => attractor.id === id) || hopalong;
+}
+
+/**
+ * Picks a random value for each of the attractor's parameters within its range
+ */
+export function randomParams(
+  attractor: Attractor,
+  random: () => number = Math.random
+): OrbitParams<number> {
+  const params: OrbitParams<number> = {
+    attractor: attractor.id,
+    a: 0,
+    b: 0,
+    c: 0,
+    d: 0,
+    e: 0,
+    choice: 0,
+    xPreset: 0,
+    yPreset: 0,
+  };
+  for (const { key, min, max } of attractor.params) {
+    params[key] = min + random() * (max - min);
+  }
+  params.choice = random();
+  params.xPreset = random();
+  params.yPreset = random();
+  params.timeCreated = Date.now();
+  return params;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { validateCameraPath } from './cameraPaths';
+
+describe('validateCameraPath', () => {
+  it('reads a path and sorts its keyframes by time', () => {
+    const { path, errors } = validateCameraPath(
+      {
+        name: 'Sweep',
+        loop: false,
+        keyframes: [
+          { time: 4, x: 1, y: -1, roll: 45 },
+          { time: '0', x: 0, y: 0 },
+        ],
+      },
+      'Imported'
+    );
+    expect(errors).toEqual([]);
+    expect(path).toEqual({
+      name: 'Sweep',
+      loop: false,
+      keyframes: [
+        { time: 0, x: 0, y: 0 },
+        { time: 4, x: 1, y: -1, roll: 45 },
+      ],
+    });
+  });
+
+  it('reads just a list of keyframes as a loop', () => {
+    const keyframes = [
+      { time: 0, x: 0, y: 0 },
+      { time: 1, x: 0.5, y: 0.5 },
+    ];
+    expect(validateCameraPath(keyframes, 'path.json')).toEqual({
+      path: { name: 'path.json', loop: true, keyframes },
+      errors: [],
+    });
+  });
+
+  it('leaves out bad keyframes and says why', () => {
+    const { path, errors } = validateCameraPath(
+      [
+        { time: 0, x: 0, y: 0 },
+        { time: -1, x: 2, y: 0 },
+        'keyframe',
+        { time: 2, x: 0, y: 0, roll: 'left' },
+        { time: 3, x: 0, y: 0 },
+      ],
+      'Imported'
+    );
+    expect(path?.keyframes).toEqual([
+      { time: 0, x: 0, y: 0 },
+      { time: 3, x: 0, y: 0 },
+    ]);
+    expect(errors).toEqual([
+      'Keyframe 2: time must be a number of seconds, 0 or more',
+      'Keyframe 2: x must be a number from -1 to 1',
+      'Keyframe 3: must be an object with time, x and y',
+      'Keyframe 4: roll must be a number of degrees',
+    ]);
+  });
+
+  it('keeps only the first keyframe at each time', () => {
+    const { path, errors } = validateCameraPath(
+      [
+        { time: 0, x: 0, y: 0 },
+        { time: 2, x: 0.5, y: 0 },
+        { time: 2, x: -0.5, y: 0 },
+      ],
+      'Imported'
+    );
+    expect(path?.keyframes).toEqual([
+      { time: 0, x: 0, y: 0 },
+      { time: 2, x: 0.5, y: 0 },
+    ]);
+    expect(errors).toEqual(['More than one keyframe at 2s, only the first is used']);
+  });
+
+  it('rejects paths without two keyframes at different times', () => {
+    expect(
+      validateCameraPath(
+        [
+          { time: 1, x: 0, y: 0 },
+          { time: 1, x: 1, y: 1 },
+        ],
+        'Imported'
+      )
+    ).toEqual({
+      errors: [
+        'More than one keyframe at 1s, only the first is used',
+        'Camera path needs at least two keyframes at different times',
+      ],
+    });
+    expect(validateCameraPath({ keyframes: 'none' }, 'Imported')).toEqual({
+      errors: ['Camera path must be a list of keyframes, or an object with a keyframes list'],
+    });
+  });
+
+  it('checks loop is a boolean', () => {
+    const { errors } = validateCameraPath(
+      {
+        loop: 'yes',
+        keyframes: [
+          { time: 0, x: 0, y: 0 },
+          { time: 1, x: 0, y: 0 },
+        ],
+      },
+      'Imported'
+    );
+    expect(errors).toEqual(['loop must be true or false']);
+  });
+});
@@ -0,0 +1,112 @@
+import { CameraKeyframe, CameraPath } from '@/types/hopalong';
+import { isObject, toNumber } from './validation';
+
+const STORAGE_KEY = 'hopalong-camera-path';
+
+export type CameraPathValidation = {
+  /** The path made from the valid keyframes, if there were enough */
+  path?: CameraPath;
+  /** Why keyframes were dropped or the whole path was rejected */
+  errors: string[];
+};
+
+function validateKeyframe(value: unknown, errors: string[]): CameraKeyframe | undefined {
+  if (!isObject(value)) {
+    errors.push('must be an object with time, x and y');
+    return undefined;
+  }
+  const keyframe: Partial<CameraKeyframe> = {};
+  const time = toNumber(value.time);
+  if (typeof time === 'undefined' || time < 0) {
+    errors.push('time must be a number of seconds, 0 or more');
+  } else {
+    keyframe.time = time;
+  }
+  for (const key of ['x', 'y'] as const) {
+    const number = toNumber(value[key]);
+    if (typeof number === 'undefined' || Math.abs(number) > 1) {
+      errors.push(`${key} must be a number from -1 to 1`);
+    } else {
+      keyframe[key] = number;
+    }
+  }
+  if (typeof value.roll !== 'undefined') {
+    keyframe.roll = toNumber(value.roll);
+    if (typeof keyframe.roll === 'undefined') {
+      errors.push('roll must be a number of degrees');
+    }
+  }
+  return errors.length === 0 ? (keyframe as CameraKeyframe) : undefined;
+}
+
+/**
+ * Checks a camera path loaded from JSON, either `{ name, loop, keyframes }` or just the list
+ * of keyframes. Bad keyframes are left out and reported, and the rest are sorted by time.
+ */
+export function validateCameraPath(data: unknown, fallbackName: string): CameraPathValidation {
+  const errors: string[] = [];
+  let name = fallbackName;
+  let loop = true;
+  let rawKeyframes: unknown = data;
+  if (isObject(data)) {
+    rawKeyframes = data.keyframes;
+    if (typeof data.name === 'string' && data.name.trim()) {
+      name = data.name.trim();
+    }
+    if (typeof data.loop !== 'undefined') {
+      if (typeof data.loop !== 'boolean') {
+        errors.push('loop must be true or false');
+      } else {
+        loop = data.loop;
+      }
+    }
+  }
+  if (!Array.isArray(rawKeyframes)) {
+    return {
+      errors: ['Camera path must be a list of keyframes, or an object with a keyframes list'],
+    };
+  }
+
+  const validKeyframes: CameraKeyframe[] = [];
+  rawKeyframes.forEach((rawKeyframe, i) => {
+    const keyframeErrors: string[] = [];
+    const keyframe = validateKeyframe(rawKeyframe, keyframeErrors);
+    if (keyframe) {
+      validKeyframes.push(keyframe);
+    } else {
+      errors.push(...keyframeErrors.map((error) => `Keyframe ${i + 1}: ${error}`));
+    }
+  });
+  validKeyframes.sort((a, b) => a.time - b.time);
+  // The camera can't be in two places at once, so only the first keyframe at each time is kept
+  const keyframes = validKeyframes.filter((keyframe, i) => {
+    if (i > 0 && keyframe.time === validKeyframes[i - 1].time) {
+      errors.push(`More than one keyframe at ${keyframe.time}s, only the first is used`);
+      return false;
+    }
+    return true;
+  });
+  if (keyframes.length < 2) {
+    errors.push('Camera path needs at least two keyframes at different times');
+    return { errors };
+  }
+  return { path: { name, loop, keyframes }, errors };
+}
+
+export function loadCameraPath(): CameraPath | undefined {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? validateCameraPath(JSON.parse(saved), 'Saved path').path : undefined;
+  } catch (e) {
+    console.warn('Unable to load the camera path.', e);
+    return undefined;
+  }
+}
+
+export function saveCameraPath(path: CameraPath) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(path));
+  } catch (e) {
+    console.warn('Unable to save the camera path.', e);
+  }
+}
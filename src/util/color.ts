@@ -1,5 +1,16 @@
 import chroma from 'chroma-js';
 
+/** Hue, saturation and value, each from 0 to 1 */
+export type Hsv = [number, number, number];
+
 export function hsvToHsl(h: number, s: number, v: number) {
   return chroma(h, s, v, 'hsv').hsl();
 }
+
+/**
+ * A CSS colour or chroma colour as HSV from 0 to 1, greys count as red
+ */
+export function toHsv(colour: string | chroma.Color): Hsv {
+  const [h, s, v] = chroma(colour).hsv();
+  return [isNaN(h) ? 0 : h / 360, s, v];
+}
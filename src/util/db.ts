@@ -0,0 +1,99 @@
+/**
+ * Small promise wrappers around the IndexedDB database the app keeps its data in
+ */
+const DB_NAME = 'hopalong';
+const DB_VERSION = 2;
+
+export enum Store {
+  RATINGS = 'ratings',
+  TRACKS = 'tracks',
+}
+
+let database: Promise<IDBDatabase> | undefined;
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Opens the database once, creating any stores that are missing. Rejects if IndexedDB isn't
+ * available, e.g. in some private browsing modes.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not supported.');
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of Object.values(Store)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer version is opened in another tab, the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          database = undefined;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // An older tab still has the database open. Opening carries on once it closes, rather than
+      // failing and leaving this tab's data somewhere else.
+      request.onblocked = () => console.warn('Waiting for the database to close in another tab.');
+    });
+    // Let a later call try again
+    database.catch(() => (database = undefined));
+  }
+  return database;
+}
+
+export async function getAll<T>(store: Store): Promise<T[]> {
+  const db = await openDatabase();
+  return requestResult(db.transaction(store).objectStore(store).getAll());
+}
+
+/**
+ * Adds or replaces values in a single transaction, returning their keys
+ */
+export async function putAll<T>(store: Store, values: T[]): Promise<number[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  const keys = Promise.all(
+    values.map((value) => requestResult(objectStore.put(value)) as Promise<number>)
+  );
+  await transactionDone(transaction);
+  return keys;
+}
+
+export async function remove(store: Store, key: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  await transactionDone(transaction);
+}
+
+export async function clear(store: Store) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).clear();
+  await transactionDone(transaction);
+}
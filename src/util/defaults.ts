@@ -2,11 +2,35 @@ export default {
   brightness: 1,
   saturation: 1,
   sprite_size: 5,
-  speed: 8,
-  rotation_speed: 0.005,
+  sprite: 'amoongus',
+  sprite_params: { size: 0.8, falloff: 0.5 },
+  hue_shift: 0,
+  // Units per second and radians per second, what 8 and 0.005 a frame used to be at 60 fps
+  speed: 480,
+  rotation_speed: 0.3,
+  clock_mode: 'realtime' as const,
+  frame_rate: 60,
   fov: 120,
+  camera_mode: 'mouse' as const,
+  camera_bound: 200,
+  camera_easing: 0.05,
+  camera_roll: 0,
   points_subset: 4000,
   subsets: 7,
   levels: 7,
+  attractor: 'hopalong',
+  morph: false,
+  morph_duration: 2000,
+  orbit_schedule: 'interval' as const,
+  orbit_interval: 3000,
+  orbit_interval_min: 2000,
+  orbit_interval_max: 8000,
+  theme: 'classic',
+  theme_rotation: 0,
+  still_size: '4k',
+  active_learning: false,
+  palette: 'random',
+  palette_mode: 'subsets' as const,
+  playlist_mode: 'sequential' as const,
   isPlaying: false,
 };
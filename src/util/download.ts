@@ -0,0 +1,18 @@
+/**
+ * Saves a blob as a file through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the url goes away
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadJson(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
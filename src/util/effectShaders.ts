@@ -0,0 +1,126 @@
+/**
+ * Full screen shaders for the retro effects, in the format three's ShaderPass takes. Each one
+ * reads the frame so far from tDiffuse and scales itself by `amount`, from 0 to 1.
+ */
+
+const vertexShader = `
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+/**
+ * Splits the colour channels apart towards the edges of the screen, like a cheap lens
+ */
+export const ChromaticAberrationShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0.5 },
+  },
+  vertexShader,
+  fragmentShader: `
+uniform sampler2D tDiffuse;
+uniform float amount;
+varying vec2 vUv;
+
+void main() {
+  vec2 offset = (vUv - 0.5) * amount * 0.03;
+  gl_FragColor = vec4(
+    texture2D(tDiffuse, vUv + offset).r,
+    texture2D(tDiffuse, vUv).g,
+    texture2D(tDiffuse, vUv - offset).b,
+    1.0
+  );
+}
+`,
+};
+
+/**
+ * Scanlines, a curved screen and darkened corners. The resolution is in CSS pixels, so the
+ * scanlines are the same size on every display.
+ */
+export const CrtShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0.5 },
+    resolution: { value: null },
+  },
+  vertexShader,
+  fragmentShader: `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform vec2 resolution;
+varying vec2 vUv;
+
+const float PI = 3.14159265;
+// Height of each scanline, in CSS pixels
+const float SCANLINE_HEIGHT = 3.0;
+
+vec2 curve(vec2 uv) {
+  uv = uv * 2.0 - 1.0;
+  vec2 offset = abs(uv.yx) * amount * 0.5;
+  uv += uv * offset * offset;
+  return uv * 0.5 + 0.5;
+}
+
+void main() {
+  vec2 uv = curve(vUv);
+  if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  vec3 colour = texture2D(tDiffuse, uv).rgb;
+  float scanline = 0.5 + 0.5 * sin(uv.y * resolution.y * 2.0 * PI / SCANLINE_HEIGHT);
+  colour *= 1.0 - amount * 0.5 * (1.0 - scanline);
+  vec2 edges = uv * (1.0 - uv.yx);
+  colour *= mix(1.0, pow(clamp(edges.x * edges.y * 15.0, 0.0, 1.0), 0.25), amount);
+  gl_FragColor = vec4(colour, 1.0);
+}
+`,
+};
+
+/**
+ * Worn tape: lines jittering sideways, a tracking band rolling up the screen, colour bleeding
+ * along the lines and noise. Time is in seconds.
+ */
+export const VhsShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0.5 },
+    time: { value: 0 },
+    resolution: { value: null },
+  },
+  vertexShader,
+  fragmentShader: `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform float time;
+uniform vec2 resolution;
+varying vec2 vUv;
+
+float random(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  vec2 uv = vUv;
+  float line = floor(uv.y * resolution.y / 2.0);
+  float jitter = (random(vec2(line, floor(time * 30.0))) - 0.5) * 0.004;
+  float band = 1.0 - smoothstep(0.0, 0.04, abs(uv.y - fract(time * 0.07)));
+  uv.x += (jitter + band * 0.02) * amount;
+
+  float bleed = 0.004 * amount;
+  vec3 colour = vec3(
+    texture2D(tDiffuse, uv + vec2(bleed, 0.0)).r,
+    texture2D(tDiffuse, uv).g,
+    texture2D(tDiffuse, uv - vec2(bleed, 0.0)).b
+  );
+  float noise = random(uv * resolution + fract(time));
+  colour += (noise - 0.5) * 0.25 * amount + band * noise * 0.3 * amount;
+  gl_FragColor = vec4(colour, 1.0);
+}
+`,
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { attractors, randomParams } from './attractors';
+import { canMorph, easeMorph, lerpColours, lerpParams } from './morph';
+
+const [hopalong, clifford] = attractors;
+
+describe('easeMorph', () => {
+  it('starts and ends slowly', () => {
+    expect([easeMorph(0), easeMorph(0.5), easeMorph(1)]).toEqual([0, 0.5, 1]);
+    expect(easeMorph(0.1)).toBeLessThan(0.1);
+    expect(easeMorph(0.9)).toBeGreaterThan(0.9);
+  });
+});
+
+describe('canMorph', () => {
+  it('only morphs between orbits of the same attractor', () => {
+    expect(canMorph(randomParams(hopalong), randomParams(hopalong))).toBe(true);
+    expect(canMorph(randomParams(hopalong), randomParams(clifford))).toBe(false);
+  });
+});
+
+describe('lerpParams', () => {
+  it('moves the numbers and takes everything else from the orbit being morphed to', () => {
+    // Whole numbers, so the end of the morph is exactly where it's going
+    const from = {
+      ...randomParams(hopalong),
+      a: 0,
+      b: 10,
+      c: 0,
+      d: 0,
+      e: 0,
+      choice: 0,
+      xPreset: 0,
+      yPreset: 0,
+      seed: 1,
+    };
+    const to = {
+      ...randomParams(hopalong),
+      a: 4,
+      b: 20,
+      c: 8,
+      d: 1,
+      e: 2,
+      choice: 1,
+      xPreset: 1,
+      yPreset: 1,
+      seed: 2,
+    };
+    expect(lerpParams(from, to, 0.25)).toMatchObject({ a: 1, b: 12.5, choice: 0.25, seed: 2 });
+    expect(lerpParams(from, to, 1)).toEqual(to);
+  });
+});
+
+describe('lerpColours', () => {
+  it('turns hues the short way round the colour wheel', () => {
+    const [[hue]] = lerpColours([[[0.9, 1, 1]]], [[[0.1, 1, 1]]], 0.5);
+    expect(hue[0]).toBeCloseTo(0);
+    const [[back]] = lerpColours([[[0.1, 1, 1]]], [[[0.9, 1, 1]]], 0.25);
+    expect(back[0]).toBeCloseTo(0.05);
+  });
+
+  it('moves saturation and brightness, keeping new subsets as they are', () => {
+    const colours = lerpColours(
+      [[[0.5, 0, 1]]],
+      [
+        [
+          [0.5, 1, 0],
+          [0.25, 0.5, 0.5],
+        ],
+      ],
+      0.5
+    );
+    expect(colours).toEqual([
+      [
+        [0.5, 0.5, 0.5],
+        [0.25, 0.5, 0.5],
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { OrbitParams } from '@/types/hopalong';
+import { getAttractor } from './attractors';
+import { Hsv } from './color';
+
+const MORPHED_KEYS = ['a', 'b', 'c', 'd', 'e', 'choice', 'xPreset', 'yPreset'] as const;
+
+function lerp(from: number, to: number, t: number) {
+  return from + (to - from) * t;
+}
+
+/**
+ * Eases in and out so the shape doesn't lurch at the start and end of a morph
+ */
+export function easeMorph(t: number) {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Only orbits of the same attractor can be morphed between, otherwise the params mean
+ * different things
+ */
+export function canMorph(from: OrbitParams<number>, to: OrbitParams<number>) {
+  return getAttractor(from.attractor).id === getAttractor(to.attractor).id;
+}
+
+/**
+ * Interpolates the orbit params, everything that isn't a number to morph comes from `to`
+ */
+export function lerpParams(
+  from: OrbitParams<number>,
+  to: OrbitParams<number>,
+  t: number
+): OrbitParams<number> {
+  const params = { ...to };
+  for (const key of MORPHED_KEYS) {
+    params[key] = lerp(from[key], to[key], t);
+  }
+  return params;
+}
+
+/**
+ * Interpolates a hue in [0, 1) the short way round the colour wheel
+ */
+function lerpHue(from: number, to: number, t: number) {
+  let delta = to - from;
+  if (delta > 0.5) {
+    delta -= 1;
+  } else if (delta < -0.5) {
+    delta += 1;
+  }
+  return (from + delta * t + 1) % 1;
+}
+
+/**
+ * Interpolates the colours of every level and subset, see createColours
+ */
+export function lerpColours(from: Hsv[][], to: Hsv[][], t: number): Hsv[][] {
+  return to.map((row, level) =>
+    row.map((toColour, subset) => {
+      const fromColour = from[level]?.[subset] || toColour;
+      return [
+        lerpHue(fromColour[0], toColour[0], t),
+        lerp(fromColour[1], toColour[1], t),
+        lerp(fromColour[2], toColour[2], t),
+      ];
+    })
+  );
+}
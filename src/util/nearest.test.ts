@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { findNearestSet } from './nearest';
+
+const placeAt = (z: number, level = 0) => ({ myLevel: level, particles: { position: { z } } });
+
+describe('findNearestSet', () => {
+  it('finds the set furthest towards the camera', () => {
+    const sets = [placeAt(-900, 0), placeAt(-100, 1), placeAt(-500, 2)];
+    expect(findNearestSet(sets)).toBe(sets[1]);
+  });
+
+  it('moves on once the nearest set goes back to the far end', () => {
+    const sets = [placeAt(-900, 0), placeAt(-100, 1), placeAt(-500, 2)];
+    const nearest = findNearestSet(sets);
+    sets[1].particles.position.z = -1000;
+    expect(findNearestSet(sets, nearest)).toBe(sets[2]);
+  });
+
+  it('stays with the current set when others are as near', () => {
+    const sets = [placeAt(-100, 0), placeAt(-100, 0), placeAt(-100, 0)];
+    expect(findNearestSet(sets, sets[2])).toBe(sets[2]);
+  });
+
+  it('finds nothing without any sets', () => {
+    expect(findNearestSet([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,18 @@
+type PlacedSet = {
+  particles: { position: { z: number } };
+};
+
+/**
+ * The particle set closest in front of the camera. Levels move towards the camera and go back to
+ * the far end once they pass it, so that's the one furthest along. Ties stay with `current`, so
+ * the nearest set doesn't flicker between the subsets of a level.
+ */
+export function findNearestSet<T extends PlacedSet>(particleSets: T[], current?: T): T | undefined {
+  let nearest = current;
+  for (const particleSet of particleSets) {
+    if (!nearest || particleSet.particles.position.z > nearest.particles.position.z) {
+      nearest = particleSet;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,88 @@
+import { Orbit, OrbitParams } from '@/types/hopalong';
+import { getAttractor } from './attractors';
+import { RandomStream, createOrbitRandom } from './random';
+
+export const SCALE_FACTOR = 1500;
+
+export type OrbitRequest = {
+  params: OrbitParams<number>;
+  numSubsets: number;
+  numPointsSubset: number;
+};
+
+/**
+ * Scale to stretch the range across the tunnel, flattening it if the range is degenerate
+ * rather than filling the buffers with NaN
+ */
+function getScale(range: number): number {
+  return range > 0 && isFinite(range) ? (2 * SCALE_FACTOR) / range : 0;
+}
+
+/**
+ * Iterates the attractor for every subset and normalises the points to fit the tunnel.
+ * This has no dependencies on the DOM or three.js so it can run in a worker.
+ */
+export function computeOrbit({ params, numSubsets, numPointsSubset }: OrbitRequest): Orbit<number> {
+  const attractor = getAttractor(params.attractor);
+  const { xPreset, yPreset, seed } = params;
+  const random = createOrbitRandom(seed, RandomStream.START_POINTS);
+  const step = attractor.createStep(params);
+  const origin = attractor.origin || { x: 0, y: 0 };
+  const point = { x: 0, y: 0 };
+  const subsets: Float32Array[] = [];
+
+  let xMin = 0,
+    xMax = 0,
+    yMin = 0,
+    yMax = 0;
+
+  for (let s = 0; s < numSubsets; s++) {
+    // Use a different starting point for each orbit subset
+    point.x = origin.x + s * 0.005 * (0.5 - xPreset * (random() / 2));
+    point.y = origin.y + s * 0.005 * (0.5 - yPreset * (random() / 2));
+
+    const positions = new Float32Array(numPointsSubset * 3);
+
+    for (let i = 0; i < numPointsSubset; i++) {
+      step(point);
+      const { x, y } = point;
+
+      positions[i * 3] = x;
+      positions[i * 3 + 1] = y;
+
+      if (x < xMin) {
+        xMin = x;
+      } else if (x > xMax) {
+        xMax = x;
+      }
+      if (y < yMin) {
+        yMin = y;
+      } else if (y > yMax) {
+        yMax = y;
+      }
+    }
+    subsets.push(positions);
+  }
+
+  const scaleX = getScale(xMax - xMin);
+  const scaleY = getScale(yMax - yMin);
+
+  // Normalize in place, z is left at 0
+  for (const positions of subsets) {
+    for (let i = 0; i < positions.length; i += 3) {
+      positions[i] = scaleX * (positions[i] - xMin) - SCALE_FACTOR;
+      positions[i + 1] = scaleY * (positions[i + 1] - yMin) - SCALE_FACTOR;
+    }
+  }
+
+  return {
+    params,
+    subsets,
+    xMin,
+    xMax,
+    yMin,
+    yMax,
+    scaleX,
+    scaleY,
+  };
+}
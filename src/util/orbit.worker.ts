@@ -0,0 +1,16 @@
+import { computeOrbit } from './orbit';
+import { OrbitWorkerRequest, OrbitWorkerResponse } from './OrbitGenerator';
+
+// The DOM lib types `self` as a Window, but in here it is the worker scope
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = ({ data }: MessageEvent<OrbitWorkerRequest>) => {
+  const { id, request } = data;
+  const orbit = computeOrbit(request);
+  const response: OrbitWorkerResponse = { id, orbit };
+  // Hand the position buffers over rather than copying them
+  ctx.postMessage(
+    response,
+    orbit.subsets.map((positions) => positions.buffer)
+  );
+};
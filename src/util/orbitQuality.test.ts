@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THRESHOLDS, OrbitMetrics, checkOrbit, measureOrbit } from './orbitQuality';
+
+const params = {
+  attractor: 'hopalong',
+  a: 5,
+  b: 1.2,
+  c: 12,
+  d: 1,
+  e: 4,
+  choice: 0.6,
+  xPreset: 0,
+  yPreset: 0,
+};
+
+const goodMetrics: OrbitMetrics = {
+  finite: true,
+  width: 100,
+  height: 80,
+  coverage: 0.2,
+  dimension: 1.4,
+};
+
+describe('measureOrbit', () => {
+  it('measures a spread out orbit as good enough to show', () => {
+    const metrics = measureOrbit(params, DEFAULT_THRESHOLDS.sampleSize);
+    expect(metrics.finite).toBe(true);
+    expect(metrics.width).toBeGreaterThan(1);
+    expect(metrics.height).toBeGreaterThan(1);
+    expect(checkOrbit(metrics, DEFAULT_THRESHOLDS)).toBeUndefined();
+  });
+
+  it('measures an orbit stuck on one point as having no size', () => {
+    const metrics = measureOrbit({ ...params, a: 0, c: 0, e: 0 }, 500);
+    expect(metrics).toEqual({ finite: true, width: 0, height: 0, coverage: 0, dimension: 0 });
+    expect(checkOrbit(metrics, DEFAULT_THRESHOLDS)).toBe('tooSmall');
+  });
+
+  it('measures an orbit cycling through a few points as covering too little', () => {
+    const metrics = measureOrbit({ ...params, a: 10, b: 1, c: 10, d: 0, e: 0 }, 2000);
+    expect(metrics.width).toBeGreaterThan(1);
+    expect(checkOrbit(metrics, DEFAULT_THRESHOLDS)).toBe('lowCoverage');
+  });
+
+  it('gives the same metrics for the same params', () => {
+    expect(measureOrbit(params, 1000)).toEqual(measureOrbit(params, 1000));
+  });
+});
+
+describe('checkOrbit', () => {
+  it('gives the first reason the orbit fails', () => {
+    expect(checkOrbit(goodMetrics, DEFAULT_THRESHOLDS)).toBeUndefined();
+    expect(checkOrbit({ ...goodMetrics, finite: false, width: 0 }, DEFAULT_THRESHOLDS)).toBe(
+      'nonFinite'
+    );
+    expect(checkOrbit({ ...goodMetrics, height: 1e-9 }, DEFAULT_THRESHOLDS)).toBe('tooSmall');
+    expect(checkOrbit({ ...goodMetrics, width: 1e7 }, DEFAULT_THRESHOLDS)).toBe('tooLarge');
+    expect(checkOrbit({ ...goodMetrics, coverage: 0.001 }, DEFAULT_THRESHOLDS)).toBe('lowCoverage');
+    expect(checkOrbit({ ...goodMetrics, dimension: 0.2 }, DEFAULT_THRESHOLDS)).toBe('lowDimension');
+  });
+
+  it('follows the thresholds it is given', () => {
+    expect(checkOrbit(goodMetrics, { ...DEFAULT_THRESHOLDS, minDimension: 1.5 })).toBe(
+      'lowDimension'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { OrbitParams } from '@/types/hopalong';
+import { getAttractor } from './attractors';
+
+export type OrbitMetrics = {
+  /** Whether every sampled point was a real number */
+  finite: boolean;
+  /** Size of the bounding box of the sampled points, before normalising */
+  width: number;
+  height: number;
+  /** Fraction of the occupancy grid's cells containing at least one point */
+  coverage: number;
+  /** Box-counting estimate of the fractal dimension, ~0 for a few points, ~1 for a line */
+  dimension: number;
+};
+
+export type QualityThresholds = {
+  /** How many points of the orbit to sample when measuring it */
+  sampleSize: number;
+  minSize: number;
+  maxSize: number;
+  minCoverage: number;
+  minDimension: number;
+  /** How many candidates to try before giving up and using the last one */
+  maxAttempts: number;
+};
+
+export type QualityRejection =
+  | 'nonFinite'
+  | 'tooSmall'
+  | 'tooLarge'
+  | 'lowCoverage'
+  | 'lowDimension';
+
+export type QualityStats = {
+  accepted: number;
+  rejected: number;
+  /** How many times no candidate passed within maxAttempts */
+  exhausted: number;
+  reasons: Record<QualityRejection, number>;
+};
+
+export const DEFAULT_THRESHOLDS: QualityThresholds = {
+  sampleSize: 2000,
+  minSize: 1e-6,
+  maxSize: 1e6,
+  minCoverage: 0.01,
+  minDimension: 0.5,
+  maxAttempts: 20,
+};
+
+// Grid sizes used for box counting, the largest is also used for coverage
+const GRID_SIZES = [8, 16, 32, 64];
+
+export function createQualityStats(): QualityStats {
+  return {
+    accepted: 0,
+    rejected: 0,
+    exhausted: 0,
+    reasons: { nonFinite: 0, tooSmall: 0, tooLarge: 0, lowCoverage: 0, lowDimension: 0 },
+  };
+}
+
+/**
+ * Iterates a sample of the orbit's first subset and computes cheap metrics on it
+ */
+export function measureOrbit(params: OrbitParams<number>, sampleSize: number): OrbitMetrics {
+  const attractor = getAttractor(params.attractor);
+  const step = attractor.createStep(params);
+  const point = { ...(attractor.origin || { x: 0, y: 0 }) };
+  const xs = new Float64Array(sampleSize);
+  const ys = new Float64Array(sampleSize);
+
+  let xMin = Infinity,
+    xMax = -Infinity,
+    yMin = Infinity,
+    yMax = -Infinity;
+
+  for (let i = 0; i < sampleSize; i++) {
+    step(point);
+    const { x, y } = point;
+    if (!isFinite(x) || !isFinite(y)) {
+      return { finite: false, width: Infinity, height: Infinity, coverage: 0, dimension: 0 };
+    }
+    xs[i] = x;
+    ys[i] = y;
+    xMin = Math.min(xMin, x);
+    xMax = Math.max(xMax, x);
+    yMin = Math.min(yMin, y);
+    yMax = Math.max(yMax, y);
+  }
+
+  const width = xMax - xMin;
+  const height = yMax - yMin;
+  if (width <= 0 || height <= 0) {
+    return { finite: true, width, height, coverage: 0, dimension: 0 };
+  }
+
+  // Count occupied cells at each grid size, then fit log(count) against log(size)
+  const counts = GRID_SIZES.map((size) => {
+    const occupied = new Set<number>();
+    for (let i = 0; i < sampleSize; i++) {
+      const cellX = Math.min(size - 1, Math.floor(((xs[i] - xMin) / width) * size));
+      const cellY = Math.min(size - 1, Math.floor(((ys[i] - yMin) / height) * size));
+      occupied.add(cellY * size + cellX);
+    }
+    return occupied.size;
+  });
+  const largest = GRID_SIZES[GRID_SIZES.length - 1];
+
+  return {
+    finite: true,
+    width,
+    height,
+    coverage: counts[counts.length - 1] / (largest * largest),
+    dimension: fitSlope(
+      GRID_SIZES.map((size) => Math.log(size)),
+      counts.map((count) => Math.log(count))
+    ),
+  };
+}
+
+/**
+ * Returns why the orbit should be rejected, or undefined if it's good enough to show
+ */
+export function checkOrbit(
+  metrics: OrbitMetrics,
+  thresholds: QualityThresholds
+): QualityRejection | undefined {
+  if (!metrics.finite) {
+    return 'nonFinite';
+  }
+  if (Math.min(metrics.width, metrics.height) < thresholds.minSize) {
+    return 'tooSmall';
+  }
+  if (Math.max(metrics.width, metrics.height) > thresholds.maxSize) {
+    return 'tooLarge';
+  }
+  if (metrics.coverage < thresholds.minCoverage) {
+    return 'lowCoverage';
+  }
+  if (metrics.dimension < thresholds.minDimension) {
+    return 'lowDimension';
+  }
+  return undefined;
+}
+
+/**
+ * Least squares slope of y against x
+ */
+function fitSlope(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < n; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  }
+  return numerator / denominator;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { OrbitParams } from '@/types/hopalong';
+import { attractors, randomParams } from './attractors';
+import { toHsv } from './color';
+import { createColours, getCycleOffset, getPalette, palettes } from './palettes';
+
+const params: OrbitParams<number> = { ...randomParams(attractors[0]), seed: 42 };
+const synthwave = getPalette('synthwave', []).colours;
+
+describe('getPalette', () => {
+  it('looks palettes up by id, falling back to random hues', () => {
+    expect(getPalette('vaporwave', []).name).toBe('Vaporwave');
+    expect(getPalette('sepia', [])).toBe(palettes[0]);
+  });
+
+  it('makes the custom palette from the custom colours', () => {
+    expect(getPalette('custom', ['#000', '#fff']).colours).toEqual(['#000', '#fff']);
+  });
+});
+
+describe('createColours', () => {
+  it('gives random hues without a palette, the same for each level', () => {
+    const colours = createColours(params, 3, 4);
+    expect(colours).toHaveLength(3);
+    expect(colours[0]).toHaveLength(4);
+    for (const [h, s, v] of colours[0]) {
+      expect(h).toBeGreaterThanOrEqual(0);
+      expect(h).toBeLessThan(1);
+      expect([s, v]).toEqual([1, 1]);
+    }
+    expect(colours[2]).toEqual(colours[0]);
+  });
+
+  it('gives each level its own band of the colour wheel in levels mode without a palette', () => {
+    const colours = createColours({ ...params, paletteMode: 'levels' }, 4, 3);
+    colours.forEach((level, i) => {
+      for (const [h, s, v] of level) {
+        expect(h).toBeGreaterThanOrEqual(i / 4);
+        expect(h).toBeLessThan((i + 1) / 4);
+        expect([s, v]).toEqual([1, 1]);
+      }
+    });
+    // The subsets keep their place within each band
+    const [first, second] = colours;
+    first.forEach(([h], subset) => expect(second[subset][0] - h).toBeCloseTo(0.25));
+  });
+
+  it('starts cycle mode from the same random hues as subsets mode', () => {
+    expect(createColours({ ...params, paletteMode: 'cycle' }, 2, 5)).toEqual(
+      createColours({ ...params, paletteMode: 'subsets' }, 2, 5)
+    );
+    expect(createColours({ ...params, paletteMode: 'cycle' }, 2, 5)).toEqual(
+      createColours(params, 2, 5)
+    );
+  });
+
+  it('draws the same hues from the same seed', () => {
+    expect(createColours(params, 2, 5)).toEqual(createColours({ ...params }, 2, 5));
+    expect(createColours(params, 2, 5)).not.toEqual(createColours({ ...params, seed: 43 }, 2, 5));
+  });
+
+  it('picks colours along the palette gradient in subsets mode', () => {
+    const palette = ['#000000', '#ffffff'];
+    const colours = createColours({ ...params, palette, paletteMode: 'subsets' }, 2, 3);
+    for (const [, s] of colours[0]) {
+      expect(s).toBeCloseTo(0);
+    }
+    expect(new Set(colours[0].map(([, , v]) => v)).size).toBe(3);
+    expect(colours[1]).toEqual(colours[0]);
+  });
+
+  it('gives each level its own band of the gradient in levels mode', () => {
+    const palette = ['#000000', '#ffffff'];
+    const colours = createColours({ ...params, palette, paletteMode: 'levels' }, 2, 4);
+    // Brightness goes up the gradient, so every subset of the first level is darker
+    const firstLevel = Math.max(...colours[0].map(([, , v]) => v));
+    const secondLevel = Math.min(...colours[1].map(([, , v]) => v));
+    expect(firstLevel).toBeLessThanOrEqual(secondLevel);
+  });
+
+  it('colours subsets in order with palettes from playlists', () => {
+    const colours = createColours({ ...params, palette: synthwave }, 1, 7);
+    expect(colours[0]).toEqual([0, 1, 2, 3, 4, 0, 1].map((i) => toHsv(synthwave[i])));
+  });
+});
+
+describe('getCycleOffset', () => {
+  it('goes round once a minute', () => {
+    expect(getCycleOffset(0)).toBe(0);
+    expect(getCycleOffset(15000)).toBe(0.25);
+    expect(getCycleOffset(75000)).toBe(0.25);
+  });
+});
@@ -0,0 +1,106 @@
+import chroma from 'chroma-js';
+import { OrbitParams, Palette } from '@/types/hopalong';
+import { Hsv, toHsv } from './color';
+import { RandomStream, createOrbitRandom } from './random';
+
+const STORAGE_KEY = 'hopalong-custom-palette';
+
+export const RANDOM_PALETTE = 'random';
+export const CUSTOM_PALETTE = 'custom';
+const DEFAULT_CUSTOM_COLOURS = ['#ff0000', '#ffff00', '#0000ff'];
+
+// How long the hues take to go all the way round the colour wheel in cycle mode (in ms)
+const CYCLE_PERIOD = 60000;
+
+export const palettes: Palette[] = [
+  { id: RANDOM_PALETTE, name: 'Random hues', colours: [] },
+  {
+    id: 'synthwave',
+    name: 'Synthwave',
+    colours: ['#ff2a6d', '#d300c5', '#7700ff', '#05d9e8', '#f9c80e'],
+  },
+  {
+    id: 'vaporwave',
+    name: 'Vaporwave',
+    colours: ['#ff71ce', '#b967ff', '#01cdfe', '#05ffa1', '#fffb96'],
+  },
+  {
+    id: 'y2k-chrome',
+    name: 'Y2K chrome',
+    colours: ['#8e9eab', '#c0c0c0', '#e0f7ff', '#8fd3fe', '#b6a8ff'],
+  },
+  { id: 'monochrome', name: 'Monochrome', colours: ['#404040', '#ffffff'] },
+];
+
+/**
+ * Looks up a palette by id, the user-defined one is made from `customColours`
+ */
+export function getPalette(id: string, customColours: string[]): Palette {
+  if (id === CUSTOM_PALETTE) {
+    return { id, name: 'Custom', colours: customColours };
+  }
+  return palettes.find((palette) => palette.id === id) || palettes[0];
+}
+
+export function loadCustomPalette(): string[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(saved) && saved.length && saved.every((colour) => chroma.valid(colour))) {
+      return saved;
+    }
+  } catch (e) {
+    console.warn('Unable to load the custom palette.', e);
+  }
+  return DEFAULT_CUSTOM_COLOURS;
+}
+
+export function saveCustomPalette(colours: string[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(colours));
+  } catch (e) {
+    console.warn('Unable to save the custom palette.', e);
+  }
+}
+
+/**
+ * The colour of each subset of each level, as `colours[level][subset]`. Random hues are drawn
+ * from the orbit's seed whether or not there is a palette, so the sequence doesn't depend on it.
+ */
+export function createColours(
+  { seed, palette, paletteMode }: OrbitParams<number>,
+  numLevels: number,
+  numSubsets: number
+): Hsv[][] {
+  const random = createOrbitRandom(seed, RandomStream.HUES);
+  const positions = Array.from({ length: numSubsets }, () => random());
+  const scale = palette && chroma.scale(palette).mode('lch');
+  const getColour = (level: number, subset: number): Hsv => {
+    if (!palette || !scale) {
+      // Levels mode spreads the random hues round the colour wheel, a band for each level
+      const hue =
+        paletteMode === 'levels' ? (level + positions[subset]) / numLevels : positions[subset];
+      return [hue, 1, 1];
+    }
+    switch (paletteMode) {
+      case 'subsets':
+      case 'cycle':
+        return toHsv(scale(positions[subset]));
+      case 'levels':
+        // Each level gets its own band of the gradient, with the subsets spread within it
+        return toHsv(scale((level + positions[subset]) / numLevels));
+      default:
+        // Palettes from playlists colour the subsets in order
+        return toHsv(palette[subset % palette.length]);
+    }
+  };
+  return Array.from({ length: numLevels }, (_, level) =>
+    Array.from({ length: numSubsets }, (_, subset) => getColour(level, subset))
+  );
+}
+
+/**
+ * How far round the colour wheel cycle mode has turned, from 0 to 1
+ */
+export function getCycleOffset(time: number): number {
+  return (time % CYCLE_PERIOD) / CYCLE_PERIOD;
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Playlist } from '@/types/hopalong';
+import {
+  bestFramesPlaylist,
+  deletePlaylist,
+  getPlaylists,
+  savePlaylist,
+  validatePlaylist,
+} from './playlists';
+
+const params = { a: 1, b: 2, c: 3, d: 4, e: 5, choice: 0.5, xPreset: 0, yPreset: 0 };
+
+describe('validatePlaylist', () => {
+  it('reads a playlist with a name and entries', () => {
+    const { playlist, errors } = validatePlaylist(
+      {
+        id: 'favourites',
+        name: ' Favourites ',
+        entries: [
+          { title: 'Spiral', params, duration: 5000, palette: ['#ff0000'], paletteMode: 'cycle' },
+          { params: { ...params, a: '7' }, rating: '4.5' },
+        ],
+      },
+      'Imported'
+    );
+    expect(errors).toEqual([]);
+    expect(playlist).toEqual({
+      id: 'favourites',
+      name: 'Favourites',
+      entries: [
+        { title: 'Spiral', params, duration: 5000, palette: ['#ff0000'], paletteMode: 'cycle' },
+        { params: { ...params, a: 7 }, rating: 4.5 },
+      ],
+    });
+  });
+
+  it('reads just a list of entries like the sandbox files', () => {
+    const { playlist, errors } = validatePlaylist([{ rating: 3, params }], 'best.json');
+    expect(errors).toEqual([]);
+    expect(playlist?.name).toBe('best.json');
+    expect(playlist?.id).toBe('imported-best.json');
+    expect(playlist?.entries).toEqual([{ rating: 3, params }]);
+  });
+
+  it('leaves out bad entries and says why', () => {
+    const { playlist, errors } = validatePlaylist(
+      [
+        { params },
+        'entry',
+        { params: { ...params, b: undefined }, duration: -1 },
+        { params, title: 5, rating: 'good' },
+      ],
+      'Imported'
+    );
+    expect(playlist?.entries).toEqual([{ params }]);
+    expect(errors).toEqual([
+      'Entry 2: must be an object with params',
+      'Entry 3: params.b must be a number',
+      'Entry 3: duration must be a positive number of ms',
+      'Entry 4: title must be text',
+      'Entry 4: rating must be a number',
+    ]);
+  });
+
+  it('rejects playlists without any valid entries', () => {
+    expect(validatePlaylist({ entries: [{}] }, 'Imported')).toEqual({
+      errors: ['Entry 1: params must be an object', 'Playlist has no valid entries'],
+    });
+    expect(validatePlaylist([], 'Imported')).toEqual({
+      errors: ['Playlist has no valid entries'],
+    });
+    expect(validatePlaylist({ name: 'Empty' }, 'Imported')).toEqual({
+      errors: ['Playlist must be a list of entries, or an object with an entries list'],
+    });
+  });
+
+  it('accepts the built in playlist', () => {
+    const { errors } = validatePlaylist(bestFramesPlaylist, 'Best frames');
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('savePlaylist', () => {
+  let storage: Map<string, string>;
+  let full: boolean;
+
+  beforeEach(() => {
+    storage = new Map();
+    full = false;
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          if (full) {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+          }
+          storage.set(key, value);
+        },
+      },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(globalThis, 'window');
+  });
+
+  const importPlaylist = () => validatePlaylist([{ params }], 'favourites').playlist as Playlist;
+  const savedNames = () => getPlaylists().map(({ name }) => name);
+
+  it('replaces a playlist imported again rather than adding a copy', () => {
+    expect(savePlaylist(importPlaylist())).toBe(true);
+    expect(savePlaylist(importPlaylist())).toBe(true);
+    expect(savedNames()).toEqual(['Best frames', 'favourites']);
+  });
+
+  it('reports playlists it was unable to save or delete', () => {
+    const playlist = importPlaylist();
+    savePlaylist(playlist);
+    full = true;
+    expect(savePlaylist({ ...playlist, id: 'other', name: 'Other' })).toBe(false);
+    expect(deletePlaylist(playlist.id)).toBe(false);
+    expect(savedNames()).toEqual(['Best frames', 'favourites']);
+    full = false;
+    expect(deletePlaylist(playlist.id)).toBe(true);
+    expect(savedNames()).toEqual(['Best frames']);
+  });
+});
@@ -0,0 +1,162 @@
+import { Playlist, PlaylistEntry } from '@/types/hopalong';
+import best_frames from './best_frames.json';
+import {
+  isObject,
+  toNumber,
+  validatePalette,
+  validatePaletteMode,
+  validateParams,
+} from './validation';
+
+const STORAGE_KEY = 'hopalong-playlists';
+
+export type PlaylistValidation = {
+  /** The playlist made from the valid entries, if there were any */
+  playlist?: Playlist;
+  /** Why entries were left out, e.g. `Entry 2: rating must be a number` */
+  errors: string[];
+};
+
+function validateEntry(value: unknown, errors: string[]): PlaylistEntry | undefined {
+  if (!isObject(value)) {
+    errors.push('must be an object with params');
+    return undefined;
+  }
+  const params = validateParams(value.params, errors);
+  const entry: Partial<PlaylistEntry> = { params };
+  if (typeof value.title !== 'undefined') {
+    if (typeof value.title !== 'string') {
+      errors.push('title must be text');
+    } else {
+      entry.title = value.title;
+    }
+  }
+  if (typeof value.duration !== 'undefined') {
+    const duration = toNumber(value.duration);
+    if (typeof duration === 'undefined' || duration <= 0) {
+      errors.push('duration must be a positive number of ms');
+    } else {
+      entry.duration = duration;
+    }
+  }
+  if (typeof value.palette !== 'undefined') {
+    entry.palette = validatePalette(value.palette, 'palette', errors);
+  }
+  if (typeof value.paletteMode !== 'undefined') {
+    entry.paletteMode = validatePaletteMode(value.paletteMode, 'paletteMode', errors);
+  }
+  if (typeof value.rating !== 'undefined') {
+    entry.rating = toNumber(value.rating);
+    if (typeof entry.rating === 'undefined') {
+      errors.push('rating must be a number');
+    }
+  }
+  return errors.length === 0 ? (entry as PlaylistEntry) : undefined;
+}
+
+/**
+ * Checks a playlist loaded from JSON. This accepts either `{ name, entries }` or just the list
+ * of entries, so `[{ rating, params }]` files from the sandbox work as they are.
+ * Bad entries are left out and reported, the rest of the playlist is still usable.
+ */
+export function validatePlaylist(data: unknown, fallbackName: string): PlaylistValidation {
+  const errors: string[] = [];
+  let name = fallbackName;
+  let id: string | undefined;
+  let rawEntries: unknown = data;
+  if (isObject(data)) {
+    rawEntries = data.entries;
+    if (typeof data.name === 'string' && data.name.trim()) {
+      name = data.name.trim();
+    }
+    if (typeof data.id === 'string' && data.id.trim()) {
+      id = data.id.trim();
+    }
+  }
+  if (!Array.isArray(rawEntries)) {
+    return { errors: ['Playlist must be a list of entries, or an object with an entries list'] };
+  }
+
+  const entries: PlaylistEntry[] = [];
+  rawEntries.forEach((rawEntry, i) => {
+    const entryErrors: string[] = [];
+    const entry = validateEntry(rawEntry, entryErrors);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      errors.push(...entryErrors.map((error) => `Entry ${i + 1}: ${error}`));
+    }
+  });
+  if (!entries.length) {
+    errors.push('Playlist has no valid entries');
+    return { errors };
+  }
+  // Importing the same playlist again replaces it, rather than adding a copy
+  return { playlist: { id: id || `imported-${name}`, name, entries }, errors };
+}
+
+export const bestFramesPlaylist: Playlist = {
+  id: 'best-frames',
+  name: 'Best frames',
+  entries: best_frames.map(({ rating, params }) => ({
+    params: { attractor: 'hopalong', ...params },
+    rating: Number(rating),
+  })),
+};
+
+export const builtInPlaylists = [bestFramesPlaylist];
+
+function loadSavedPlaylists(): Playlist[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(saved)) {
+      return [];
+    }
+    return saved
+      .map((data) => validatePlaylist(data, 'Saved playlist').playlist)
+      .filter((playlist): playlist is Playlist => !!playlist);
+  } catch (e) {
+    console.warn('Unable to load saved playlists.', e);
+    return [];
+  }
+}
+
+/**
+ * Every playlist that can be picked, the built-in ones first
+ */
+export function getPlaylists(): Playlist[] {
+  return [...builtInPlaylists, ...loadSavedPlaylists()];
+}
+
+export function getPlaylist(id?: string): Playlist | undefined {
+  return id ? getPlaylists().find((playlist) => playlist.id === id) : undefined;
+}
+
+/**
+ * Saves an imported playlist so it's still there after a reload, replacing any with the same id.
+ * Returns false if it couldn't be saved.
+ */
+export function savePlaylist(playlist: Playlist): boolean {
+  const saved = loadSavedPlaylists().filter(({ id }) => id !== playlist.id);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify([...saved, playlist]));
+    return true;
+  } catch (e) {
+    console.warn('Unable to save the playlist.', e);
+    return false;
+  }
+}
+
+/**
+ * Returns false if the playlist couldn't be deleted
+ */
+export function deletePlaylist(id: string): boolean {
+  const saved = loadSavedPlaylists().filter((playlist) => playlist.id !== id);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return true;
+  } catch (e) {
+    console.warn('Unable to delete the playlist.', e);
+    return false;
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { addPngText, crc32, readPngText } from './pngText';
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(4 + 4 + data.length + 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(ascii(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+/**
+ * A 1 × 1 PNG, only the header and end chunks matter here
+ */
+function createPng(): ArrayBuffer {
+  const header = new Uint8Array(13);
+  new DataView(header.buffer).setUint32(0, 1);
+  new DataView(header.buffer).setUint32(4, 1);
+  header.set([8, 6, 0, 0, 0], 8);
+  const parts = [
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', Uint8Array.from([0x78, 0x9c, 0x63, 0x60, 0x00, 0x00, 0x00, 0x02, 0x00, 0x01])),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    png.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return png.buffer;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(ascii('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('addPngText', () => {
+  it('reads back the text it adds', () => {
+    const text = JSON.stringify({ params: { a: 1.5 }, name: 'spiral' });
+    const png = addPngText(createPng(), 'hopalong', text);
+    expect(readPngText(png.buffer)).toEqual({ hopalong: text });
+  });
+
+  it('keeps the rest of the PNG as it was', () => {
+    const original = new Uint8Array(createPng());
+    const png = addPngText(original.buffer, 'hopalong', 'text');
+    expect(png.length).toBeGreaterThan(original.length);
+    expect(png.subarray(0, 33)).toEqual(original.subarray(0, 33));
+    expect(png.subarray(png.length - 12)).toEqual(original.subarray(original.length - 12));
+  });
+
+  it('reads every text chunk', () => {
+    const png = addPngText(addPngText(createPng(), 'first', 'one').buffer, 'second', 'two');
+    expect(readPngText(png.buffer)).toEqual({ first: 'one', second: 'two' });
+  });
+
+  it('replaces anything outside ASCII', () => {
+    const png = addPngText(createPng(), 'hopalong', 'café');
+    expect(readPngText(png.buffer)).toEqual({ hopalong: 'caf?' });
+  });
+
+  it("doesn't accept files which aren't PNGs", () => {
+    expect(() =>
+      addPngText(ascii('GIF89a plus some more bytes to be long').buffer, 'a', 'b')
+    ).toThrow('Not a PNG file');
+  });
+});
+
+describe('readPngText', () => {
+  it('skips chunks with a bad CRC', () => {
+    const png = addPngText(createPng(), 'hopalong', 'text');
+    // The last byte of the added chunk's CRC, which comes straight after the header
+    png[33 + 4 + 4 + 'hopalong\0text'.length + 3] ^= 0xff;
+    expect(readPngText(png.buffer)).toEqual({});
+  });
+
+  it('finds nothing in a PNG without text', () => {
+    expect(readPngText(createPng())).toEqual({});
+  });
+});
@@ -0,0 +1,107 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Signature, then the IHDR chunk's length, type, 13 bytes of data and CRC
+const IHDR_END = 8 + 4 + 4 + 13 + 4;
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * The CRC-32 each PNG chunk ends with, over the chunk's type and data
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= IHDR_END && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * tEXt chunks are Latin-1, so anything outside ASCII is left out of the keyword and text
+ */
+function toAscii(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code < 0x80 ? code : 0x3f;
+  });
+}
+
+/**
+ * Copies the PNG with a tEXt chunk added after its header. The text must be ASCII, which JSON
+ * can always be escaped to
+ */
+export function addPngText(png: ArrayBuffer, keyword: string, text: string): Uint8Array {
+  const bytes = new Uint8Array(png);
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+  const keywordBytes = toAscii(keyword);
+  const textBytes = toAscii(text);
+  const dataLength = keywordBytes.length + 1 + textBytes.length;
+
+  // Length, type, keyword, null separator, text, CRC
+  const chunk = new Uint8Array(4 + 4 + dataLength + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, dataLength);
+  chunk.set(toAscii('tEXt'), 4);
+  chunk.set(keywordBytes, 8);
+  chunk.set(textBytes, 8 + keywordBytes.length + 1);
+  view.setUint32(8 + dataLength, crc32(chunk.subarray(4, 8 + dataLength)));
+
+  const result = new Uint8Array(bytes.length + chunk.length);
+  result.set(bytes.subarray(0, IHDR_END));
+  result.set(chunk, IHDR_END);
+  result.set(bytes.subarray(IHDR_END), IHDR_END + chunk.length);
+  return result;
+}
+
+/**
+ * Reads every tEXt chunk of the PNG, keyed by keyword. Chunks with a bad CRC are skipped
+ */
+export function readPngText(png: ArrayBuffer): Record<string, string> {
+  const bytes = new Uint8Array(png);
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+  const view = new DataView(png);
+  const decoder = new TextDecoder('latin1');
+  const texts: Record<string, string> = {};
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const dataEnd = offset + 8 + length;
+    if (dataEnd + 4 > bytes.length || type === 'IEND') {
+      break;
+    }
+    if (type === 'tEXt' && view.getUint32(dataEnd) === crc32(bytes.subarray(offset + 4, dataEnd))) {
+      const data = bytes.subarray(offset + 8, dataEnd);
+      const separator = data.indexOf(0);
+      if (separator > 0) {
+        texts[decoder.decode(data.subarray(0, separator))] = decoder.decode(
+          data.subarray(separator + 1)
+        );
+      }
+    }
+    offset = dataEnd + 4;
+  }
+  return texts;
+}
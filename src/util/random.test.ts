@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { attractors, randomParams } from './attractors';
+import { computeOrbit } from './orbit';
+import { RandomStream, createOrbitRandom, createRandom, randomSeed } from './random';
+
+const take = (random: () => number, count: number) => Array.from({ length: count }, random);
+
+describe('createRandom', () => {
+  it('gives the same numbers from the same seed', () => {
+    expect(take(createRandom(42), 100)).toEqual(take(createRandom(42), 100));
+  });
+
+  it('gives different numbers from different seeds and streams', () => {
+    const numbers = take(createRandom(42), 10);
+    expect(take(createRandom(43), 10)).not.toEqual(numbers);
+    expect(take(createRandom(42, RandomStream.PARAMS), 10)).not.toEqual(numbers);
+    expect(take(createRandom(42, RandomStream.PARAMS), 10)).not.toEqual(
+      take(createRandom(42, RandomStream.HUES), 10)
+    );
+  });
+
+  it('returns numbers in [0, 1) spread across the range', () => {
+    const numbers = take(createRandom(7), 10000);
+    for (const number of numbers) {
+      expect(number).toBeGreaterThanOrEqual(0);
+      expect(number).toBeLessThan(1);
+    }
+    const mean = numbers.reduce((sum, number) => sum + number, 0) / numbers.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+
+  it('treats seeds as 32-bit', () => {
+    expect(take(createRandom(2 ** 32 + 5), 10)).toEqual(take(createRandom(5), 10));
+  });
+});
+
+describe('randomSeed', () => {
+  it('picks whole 32-bit numbers', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('createOrbitRandom', () => {
+  it('falls back to Math.random without a seed', () => {
+    expect(createOrbitRandom(undefined, RandomStream.HUES)).toBe(Math.random);
+  });
+});
+
+describe('seed replay', () => {
+  it('picks the same params from the same seed', () => {
+    for (const attractor of attractors) {
+      const first = randomParams(attractor, createRandom(99, RandomStream.PARAMS));
+      const second = randomParams(attractor, createRandom(99, RandomStream.PARAMS));
+      expect({ ...second, timeCreated: 0 }).toEqual({ ...first, timeCreated: 0 });
+    }
+  });
+
+  it('draws the same orbit from the same params and seed', () => {
+    const params = { ...randomParams(attractors[0], createRandom(5)), seed: 5 };
+    const request = { params, numSubsets: 3, numPointsSubset: 200 };
+    const first = computeOrbit(request);
+    const second = computeOrbit(request);
+    expect(second.subsets).toEqual(first.subsets);
+    const reseeded = computeOrbit({ ...request, params: { ...params, seed: 6 } });
+    expect(reseeded.subsets).not.toEqual(first.subsets);
+  });
+});
@@ -0,0 +1,55 @@
+export type Random = () => number;
+
+/**
+ * Independent streams drawn from the same seed, so that changing how many numbers
+ * one part uses doesn't shift the others
+ */
+export enum RandomStream {
+  PARAMS = 1,
+  START_POINTS = 2,
+  HUES = 3,
+  /** How long each orbit is shown for, drawn from the sequence seed */
+  SCHEDULE = 4,
+  /** Where the camera's autopilot heads, also from the sequence seed */
+  CAMERA = 5,
+}
+
+/**
+ * Picks a fresh 32-bit seed
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Mixes a seed with a stream id into a new 32-bit seed
+ */
+function mixSeed(seed: number, stream: number): number {
+  let h = Math.imul(seed ^ Math.imul(stream, 0x9e3779b9), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Creates a seeded PRNG (Mulberry32) returning numbers in [0, 1), like Math.random
+ */
+export function createRandom(seed: number, stream = 0): Random {
+  let state = mixSeed(seed >>> 0, stream);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Creates the PRNG for one part of an orbit, falling back to Math.random for params saved
+ * before seeds were recorded
+ */
+export function createOrbitRandom(seed: number | undefined, stream: RandomStream): Random {
+  return typeof seed === 'undefined' ? Math.random : createRandom(seed, stream);
+}
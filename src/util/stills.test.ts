@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+import { defaultEffects } from './EffectPipeline';
+import {
+  STILL_VERSION,
+  getOutputSize,
+  stillSizes,
+  validateStill,
+  validateStillSettings,
+} from './stills';
+
+const params = {
+  attractor: 'hopalong',
+  a: 1,
+  b: 2,
+  c: 3,
+  d: 4,
+  e: 5,
+  choice: 0.5,
+  xPreset: 0,
+  yPreset: 0,
+};
+
+describe('validateStill', () => {
+  it('reads back a complete still', () => {
+    const still = {
+      version: STILL_VERSION,
+      params,
+      seed: 42,
+      time: 1500,
+      settings: { speed: 8, palette: 'custom', customPalette: ['#ff0000', '#00ff00'] },
+      camera: { x: 0.1, y: -0.2, roll: 0.3 },
+      levels: [
+        { z: -100, rotation: 0.5, params: { ...params, a: 7 }, colour: [0.2, 0.8, 1] },
+        { z: -200, rotation: 1 },
+      ],
+    };
+    expect(validateStill(still)).toEqual(still);
+  });
+
+  it('needs complete params and a whole number seed', () => {
+    expect(() => validateStill({ params: { ...params, a: 'one' }, seed: 1.5 })).toThrow(
+      'The saved frame is broken: params.a must be a number, seed must be a whole number'
+    );
+    expect(() => validateStill([])).toThrow('The saved frame is not an object');
+  });
+
+  it('falls back to where things are now for missing numbers', () => {
+    const still = validateStill({ params, seed: 1 });
+    expect(still).toMatchObject({
+      version: STILL_VERSION,
+      time: 0,
+      settings: {},
+      camera: { x: 0, y: 0, roll: 0 },
+      levels: [],
+    });
+  });
+
+  it('drops all the levels if any are broken, and orbits and colours that are', () => {
+    const still = validateStill({
+      params,
+      seed: 1,
+      levels: [{ z: -100, rotation: 0, params: { a: 1 }, colour: [1, 2] }],
+    });
+    expect(still.levels).toEqual([{ z: -100, rotation: 0 }]);
+    expect(validateStill({ params, seed: 1, levels: [{ z: -100 }, 'level'] }).levels).toEqual([]);
+  });
+
+  it('leaves out broken settings and warns about them', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const still = validateStill({ params, seed: 1, settings: { speed: -1, brightness: 0.5 } });
+    expect(still.settings).toEqual({ brightness: 0.5 });
+    expect(warn).toHaveBeenCalledWith('Left out broken settings from the still.', [
+      'settings.speed must be a number of at least 0',
+    ]);
+    warn.mockRestore();
+  });
+});
+
+describe('validateStillSettings', () => {
+  it('keeps valid settings and only the ones saved with stills', () => {
+    const errors: string[] = [];
+    const settings = validateStillSettings(
+      {
+        cameraFov: 60,
+        attractor: 'hopalong',
+        paletteMode: 'levels',
+        spriteParams: { size: 0.5, falloff: 0.2 },
+        cameraMode: 'orbit',
+        seed: 5,
+        clockMode: 'manual',
+      },
+      errors
+    );
+    expect(errors).toEqual([]);
+    expect(settings).toEqual({
+      cameraFov: 60,
+      attractor: 'hopalong',
+      paletteMode: 'levels',
+      spriteParams: { size: 0.5, falloff: 0.2 },
+      cameraMode: 'orbit',
+    });
+  });
+
+  it('reports each broken setting', () => {
+    const errors: string[] = [];
+    const settings = validateStillSettings(
+      {
+        rotationSpeed: 'fast',
+        cameraFov: 180,
+        attractor: 'lorenz',
+        customPalette: ['not a colour'],
+        spriteParams: { size: 2 },
+        customSprite: 'javascript:alert(1)',
+      },
+      errors
+    );
+    expect(settings).toEqual({});
+    expect(errors).toEqual([
+      'settings.rotationSpeed must be a number',
+      'settings.cameraFov must be a number from 1 to 179',
+      expect.stringMatching(/^settings\.attractor must be one of /),
+      expect.stringMatching(/^settings\.customPalette /),
+      'settings.spriteParams.size must be a number from 0 to 1',
+      'settings.spriteParams.falloff must be a number from 0 to 1',
+      'settings.customSprite must be a PNG data URL',
+    ]);
+  });
+
+  it('accepts custom sprites saved as PNG data URLs', () => {
+    const errors: string[] = [];
+    const customSprite = 'data:image/png;base64,iVBORw0KGgo=';
+    expect(validateStillSettings({ customSprite }, errors)).toEqual({ customSprite });
+    expect(errors).toEqual([]);
+  });
+
+  it('fills in effects missing from older stills', () => {
+    const errors: string[] = [];
+    const { effects } = validateStillSettings(
+      { effects: { bloom: { enabled: true, amount: 0.8 } } },
+      errors
+    );
+    expect(errors).toEqual([]);
+    expect(effects).toEqual({ ...defaultEffects, bloom: { enabled: true, amount: 0.8 } });
+  });
+
+  it('checks the camera path', () => {
+    const errors: string[] = [];
+    const cameraPath = {
+      name: 'Saved',
+      loop: false,
+      keyframes: [
+        { time: 0, x: 0, y: 0 },
+        { time: 2, x: 0.5, y: -0.5 },
+      ],
+    };
+    expect(validateStillSettings({ cameraPath }, errors)).toEqual({ cameraPath });
+    expect(validateStillSettings({ cameraPath: { keyframes: [] } }, errors)).toEqual({});
+    expect(errors).toEqual([
+      'settings.cameraPath is broken: Camera path needs at least two keyframes at different times',
+    ]);
+  });
+
+  it("doesn't accept anything other than an object", () => {
+    const errors: string[] = [];
+    expect(validateStillSettings('settings', errors)).toEqual({});
+    expect(errors).toEqual(['settings must be an object']);
+  });
+});
+
+describe('getOutputSize', () => {
+  it('uses the screen size for the screen and the fixed sizes otherwise', () => {
+    expect(getOutputSize(stillSizes, 'screen', 1280.4, 719.6)).toEqual({
+      width: 1280,
+      height: 720,
+    });
+    expect(getOutputSize(stillSizes, '4k', 1280, 720)).toEqual({ width: 3840, height: 2160 });
+    expect(getOutputSize(stillSizes, 'missing', 800, 600)).toEqual({ width: 800, height: 600 });
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  EffectId,
+  EffectSettings,
+  OutputSize,
+  SimpleSettings,
+  StillLevel,
+  StillMetadata,
+} from '@/types/hopalong';
+import { CAMERA_MODES } from './CameraController';
+import { defaultEffects } from './EffectPipeline';
+import { attractors } from './attractors';
+import { validateCameraPath } from './cameraPaths';
+import { CUSTOM_PALETTE, palettes } from './palettes';
+import { addPngText, readPngText } from './pngText';
+import { CUSTOM_SPRITE, sprites } from './textures';
+import { themes } from './themes';
+import {
+  PALETTE_MODES,
+  isFiniteNumber,
+  isObject,
+  toNumber,
+  validatePalette,
+  validateParams,
+} from './validation';
+
+// Keyword of the PNG text chunk the frame is saved in
+const STILL_KEYWORD = 'hopalong';
+export const STILL_VERSION = 2;
+
+export const stillSizes: OutputSize[] = [
+  { id: 'screen', name: 'Screen size' },
+  { id: '1080p', name: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+  { id: '4k', name: '4K (3840 × 2160)', width: 3840, height: 2160 },
+  { id: '8k', name: '8K (7680 × 4320)', width: 7680, height: 4320 },
+];
+
+/** Settings saved with a still, the rest are about what comes next rather than how it looks */
+export const STILL_SETTINGS = [
+  'speed',
+  'rotationSpeed',
+  'cameraFov',
+  'attractor',
+  'palette',
+  'paletteMode',
+  'customPalette',
+  'saturation',
+  'brightness',
+  'spriteSize',
+  'sprite',
+  'spriteParams',
+  'customSprite',
+  'hueShift',
+  'effects',
+  'cameraMode',
+  'cameraBound',
+  'cameraEasing',
+  'cameraRoll',
+  'cameraPath',
+  'theme',
+] as const;
+
+type StillSetting = typeof STILL_SETTINGS[number];
+
+/** Checks one saved setting, pushing a message to `errors` and returning undefined if it's bad */
+type SettingValidator = (value: unknown, field: string, errors: string[]) => unknown;
+
+// Custom sprites are always redrawn to a PNG before they're saved, so nothing else is loaded
+const CUSTOM_SPRITE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+
+function numberIn(min = -Infinity, max = Infinity): SettingValidator {
+  let range = '';
+  if (max < Infinity) {
+    range = ` from ${min} to ${max}`;
+  } else if (min > -Infinity) {
+    range = ` of at least ${min}`;
+  }
+  return (value, field, errors) => {
+    if (!isFiniteNumber(value) || value < min || value > max) {
+      errors.push(`${field} must be a number${range}`);
+      return undefined;
+    }
+    return value;
+  };
+}
+
+function oneOf(ids: string[]): SettingValidator {
+  return (value, field, errors) => {
+    if (typeof value !== 'string' || !ids.includes(value)) {
+      errors.push(`${field} must be one of ${ids.join(', ')}`);
+      return undefined;
+    }
+    return value;
+  };
+}
+
+/**
+ * Effects missing from the still are left off, as it was saved before they were added
+ */
+function validateEffects(value: unknown, field: string, errors: string[]): unknown {
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+  const effects: EffectSettings = { ...defaultEffects };
+  for (const id of Object.keys(defaultEffects) as EffectId[]) {
+    const effect = value[id];
+    if (typeof effect === 'undefined') {
+      continue;
+    }
+    if (
+      !isObject(effect) ||
+      typeof effect.enabled !== 'boolean' ||
+      !isFiniteNumber(effect.amount) ||
+      effect.amount < 0 ||
+      effect.amount > 1
+    ) {
+      errors.push(`${field}.${id} must have enabled and an amount from 0 to 1`);
+      return undefined;
+    }
+    effects[id] = { enabled: effect.enabled, amount: effect.amount };
+  }
+  return effects;
+}
+
+const settingValidators: Record<StillSetting, SettingValidator> = {
+  speed: numberIn(0),
+  rotationSpeed: numberIn(),
+  cameraFov: numberIn(1, 179),
+  attractor: oneOf(attractors.map(({ id }) => id)),
+  palette: oneOf(palettes.map(({ id }) => id).concat(CUSTOM_PALETTE)),
+  paletteMode: oneOf(PALETTE_MODES),
+  customPalette: validatePalette,
+  saturation: numberIn(0, 1),
+  brightness: numberIn(0, 1),
+  spriteSize: numberIn(0),
+  sprite: oneOf(sprites.map(({ id }) => id).concat(CUSTOM_SPRITE)),
+  spriteParams: (value, field, errors) => {
+    const size = numberIn(0, 1)(isObject(value) ? value.size : undefined, `${field}.size`, errors);
+    const falloff = numberIn(0, 1)(
+      isObject(value) ? value.falloff : undefined,
+      `${field}.falloff`,
+      errors
+    );
+    return typeof size === 'undefined' || typeof falloff === 'undefined'
+      ? undefined
+      : { size, falloff };
+  },
+  customSprite: (value, field, errors) => {
+    if (typeof value !== 'string' || !CUSTOM_SPRITE_PATTERN.test(value)) {
+      errors.push(`${field} must be a PNG data URL`);
+      return undefined;
+    }
+    return value;
+  },
+  hueShift: numberIn(0, 1),
+  effects: validateEffects,
+  cameraMode: oneOf(CAMERA_MODES),
+  cameraBound: numberIn(0),
+  cameraEasing: numberIn(0, 1),
+  cameraRoll: numberIn(0, 90),
+  cameraPath: (value, field, errors) => {
+    const { path, errors: pathErrors } = validateCameraPath(value, 'Saved path');
+    if (!path || pathErrors.length) {
+      errors.push(`${field} is broken: ${pathErrors.join(', ')}`);
+      return undefined;
+    }
+    return path;
+  },
+  theme: oneOf(themes.map(({ id }) => id)),
+};
+
+/**
+ * Keeps the saved settings which are valid, anything else stays as it is now
+ */
+export function validateStillSettings(value: unknown, errors: string[]): Partial<SimpleSettings> {
+  if (!isObject(value)) {
+    errors.push('settings must be an object');
+    return {};
+  }
+  const settings: Partial<Record<StillSetting, unknown>> = {};
+  for (const key of STILL_SETTINGS) {
+    if (typeof value[key] !== 'undefined') {
+      const setting = settingValidators[key](value[key], `settings.${key}`, errors);
+      if (typeof setting !== 'undefined') {
+        settings[key] = setting;
+      }
+    }
+  }
+  return settings as Partial<SimpleSettings>;
+}
+
+/**
+ * Width and height of one of the sizes in px, `screenWidth` and `screenHeight` for the screen's
+ */
+export function getOutputSize(
+  sizes: OutputSize[],
+  id: string,
+  screenWidth: number,
+  screenHeight: number
+): { width: number; height: number } {
+  const { width, height } = sizes.find((size) => size.id === id) || sizes[0];
+  return width && height
+    ? { width, height }
+    : { width: Math.round(screenWidth), height: Math.round(screenHeight) };
+}
+
+/**
+ * Saves the canvas as a PNG with the frame in a text chunk, escaped to ASCII as tEXt needs
+ */
+export function encodeStill(canvas: HTMLCanvasElement, still: StillMetadata): Promise<Blob> {
+  const text = JSON.stringify(still).replace(
+    /[\u0080-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('The image is too big to save'))),
+      'image/png'
+    )
+  )
+    .then((blob) => blob.arrayBuffer())
+    .then((png) => new Blob([addPngText(png, STILL_KEYWORD, text)], { type: 'image/png' }));
+}
+
+/**
+ * Checks a particle set saved with a still. Its orbit and colour are left out if they're broken,
+ * so it shows the still's instead
+ */
+function validateStillLevel(value: unknown): StillLevel | undefined {
+  if (!isObject(value) || !isFiniteNumber(value.z) || !isFiniteNumber(value.rotation)) {
+    return undefined;
+  }
+  const level: StillLevel = { z: value.z, rotation: value.rotation };
+  if (typeof value.params !== 'undefined') {
+    level.params = validateParams(value.params, []);
+  }
+  const { colour } = value;
+  if (Array.isArray(colour) && colour.length === 3 && colour.every(isFiniteNumber)) {
+    level.colour = [colour[0], colour[1], colour[2]];
+  }
+  return level;
+}
+
+/**
+ * Checks a frame read back from a still. Numbers which are missing for the camera and levels
+ * fall back to where things are now and broken settings are left out, but the orbit has to be
+ * complete
+ */
+export function validateStill(data: unknown): StillMetadata {
+  if (!isObject(data)) {
+    throw new Error('The saved frame is not an object');
+  }
+  const errors: string[] = [];
+  const params = validateParams(data.params, errors);
+  if (!Number.isInteger(data.seed)) {
+    errors.push('seed must be a whole number');
+  }
+  if (!params || errors.length) {
+    throw new Error(`The saved frame is broken: ${errors.join(', ')}`);
+  }
+  const camera = isObject(data.camera) ? data.camera : {};
+  const levels = Array.isArray(data.levels) ? data.levels.map(validateStillLevel) : [];
+  const settingErrors: string[] = [];
+  const settings =
+    typeof data.settings === 'undefined' ? {} : validateStillSettings(data.settings, settingErrors);
+  if (settingErrors.length) {
+    console.warn('Left out broken settings from the still.', settingErrors);
+  }
+  return {
+    version: toNumber(data.version) || STILL_VERSION,
+    params,
+    seed: data.seed as number,
+    time: toNumber(data.time) || 0,
+    settings,
+    camera: {
+      x: toNumber(camera.x) || 0,
+      y: toNumber(camera.y) || 0,
+      roll: toNumber(camera.roll) || 0,
+    },
+    levels: levels.every((level) => level) ? (levels as StillLevel[]) : [],
+  };
+}
+
+/**
+ * Reads the frame saved in a still dropped back onto the page
+ */
+export async function readStill(file: File): Promise<StillMetadata> {
+  const text = readPngText(await file.arrayBuffer())[STILL_KEYWORD];
+  if (typeof text === 'undefined') {
+    throw new Error('This PNG was not saved from Hopalong');
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The saved frame is not valid JSON');
+  }
+  return validateStill(data);
+}
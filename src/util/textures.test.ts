@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SpriteShape } from '@/types/hopalong';
+import { drawShape, getSprite, sprites } from './textures';
+import { themes } from './themes';
+
+/**
+ * A canvas with a 2D context that records what's drawn on it
+ */
+function createCanvas() {
+  const gradient = { addColorStop: vi.fn() };
+  const context = {
+    clearRect: vi.fn(),
+    fillRect: vi.fn(),
+    createRadialGradient: vi.fn(() => gradient),
+    beginPath: vi.fn(),
+    arc: vi.fn(),
+    stroke: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    fill: vi.fn(),
+    fillStyle: '' as unknown,
+    shadowBlur: 0,
+    lineWidth: 1,
+  };
+  const canvas = { width: 0, height: 0, getContext: () => context };
+  const draw = (shape: SpriteShape, size: number, falloff: number) =>
+    drawShape(canvas as unknown as HTMLCanvasElement, shape, { size, falloff });
+  return { canvas, context, gradient, draw };
+}
+
+describe('sprites', () => {
+  it('include every sprite the themes use', () => {
+    const ids = sprites.map(({ id }) => id);
+    for (const { sprite } of themes) {
+      expect(ids).toContain(sprite);
+    }
+  });
+});
+
+describe('getSprite', () => {
+  it('looks sprites up by id, falling back to the first', () => {
+    expect(getSprite('ring')).toEqual({ id: 'ring', name: 'Ring', shape: 'ring' });
+    expect(getSprite('custom')).toBe(sprites[0]);
+  });
+});
+
+describe('drawShape', () => {
+  it('draws on a 64px square canvas', () => {
+    const { canvas, context, draw } = createCanvas();
+    draw('square', 1, 0);
+    expect([canvas.width, canvas.height]).toEqual([64, 64]);
+    expect(context.clearRect).toHaveBeenCalledWith(0, 0, 64, 64);
+  });
+
+  it('fades the glow out from the size, over the falloff', () => {
+    const { context, gradient, draw } = createCanvas();
+    draw('glow', 0.5, 0.25);
+    expect(context.createRadialGradient).toHaveBeenCalledWith(32, 32, 12, 32, 32, 16);
+    expect(gradient.addColorStop).toHaveBeenCalledWith(1, 'rgba(255, 255, 255, 0)');
+    expect(context.fillStyle).toBe(gradient);
+  });
+
+  it('shrinks hard edged shapes to leave room for a softer edge', () => {
+    const { context, draw } = createCanvas();
+    draw('square', 1, 0);
+    expect(context.fillRect).toHaveBeenLastCalledWith(0, 0, 64, 64);
+    expect(context.shadowBlur).toBe(0);
+
+    draw('square', 1, 0.5);
+    expect(context.shadowBlur).toBe(8);
+    expect(context.fillRect).toHaveBeenLastCalledWith(8, 8, 48, 48);
+  });
+
+  it('draws a five pointed star within the size', () => {
+    const { context, draw } = createCanvas();
+    draw('star', 0.5, 0);
+    expect(context.lineTo).toHaveBeenCalledTimes(10);
+    // The first point is straight up
+    expect(context.lineTo.mock.calls[0][0]).toBeCloseTo(32);
+    expect(context.lineTo.mock.calls[0][1]).toBeCloseTo(16);
+    expect(context.fill).toHaveBeenCalled();
+  });
+
+  it('draws the ring with a line that scales with the size', () => {
+    const { context, draw } = createCanvas();
+    draw('ring', 1, 0);
+    expect(context.lineWidth).toBeCloseTo(6.4);
+    expect(context.arc.mock.calls[0][2]).toBeCloseTo(28.8);
+    expect(context.stroke).toHaveBeenCalled();
+  });
+});
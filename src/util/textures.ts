@@ -0,0 +1,183 @@
+import { CanvasTexture, NearestFilter, Texture, TextureLoader } from 'three';
+import { Sprite, SpriteParams, SpriteShape } from '@/types/hopalong';
+import amoongusUrl from '@/images/amoongus.png';
+import galaxyUrl from '@/images/galaxy.png';
+
+const STORAGE_KEY = 'hopalong-custom-sprite';
+
+export const CUSTOM_SPRITE = 'custom';
+// Width and height of the sprites drawn from shapes (in px)
+const SPRITE_RESOLUTION = 64;
+// Uploaded images are scaled down to fit this, so they stay small enough to save (in px)
+const MAX_CUSTOM_RESOLUTION = 128;
+
+export const sprites: Sprite[] = [
+  { id: 'amoongus', name: 'Amoongus', url: amoongusUrl },
+  { id: 'galaxy', name: 'Galaxy', url: galaxyUrl },
+  { id: 'glow', name: 'Soft glow', shape: 'glow' },
+  { id: 'star', name: 'Star', shape: 'star' },
+  { id: 'ring', name: 'Ring', shape: 'ring' },
+  { id: 'square', name: 'Pixel square', shape: 'square' },
+];
+
+const loader = new TextureLoader();
+const cache = new Map<string, Texture>();
+/** One texture per shape, redrawn in place when the params change */
+const shapeTextures = new Map<SpriteShape, CanvasTexture>();
+
+/**
+ * Loads the image at the URL into a texture, once, so switching back to a sprite is instant
+ */
+export function loadTexture(url: string): Texture {
+  let texture = cache.get(url);
+  if (!texture) {
+    texture = loader.load(url, undefined, undefined, (e) =>
+      console.error(`Unable to load texture ${url}.`, e)
+    );
+    cache.set(url, texture);
+  }
+  return texture;
+}
+
+export function getSprite(id: string): Sprite {
+  return sprites.find((sprite) => sprite.id === id) || sprites[0];
+}
+
+/**
+ * Draws a white shape on a transparent background, the particle colour tints it
+ */
+export function drawShape(
+  canvas: HTMLCanvasElement,
+  shape: SpriteShape,
+  { size, falloff }: SpriteParams
+) {
+  canvas.width = canvas.height = SPRITE_RESOLUTION;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  const centre = SPRITE_RESOLUTION / 2;
+  const radius = centre * size;
+  // Leave room for the soft edge inside the sprite
+  const blur = centre * falloff * 0.5;
+  context.clearRect(0, 0, SPRITE_RESOLUTION, SPRITE_RESOLUTION);
+  context.fillStyle = 'white';
+  context.shadowColor = 'white';
+
+  if (shape === 'glow') {
+    const gradient = context.createRadialGradient(
+      centre,
+      centre,
+      radius * (1 - falloff),
+      centre,
+      centre,
+      radius
+    );
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, SPRITE_RESOLUTION, SPRITE_RESOLUTION);
+  } else if (shape === 'ring') {
+    context.shadowBlur = blur;
+    context.strokeStyle = 'white';
+    context.lineWidth = Math.max(1, radius * 0.2);
+    context.beginPath();
+    context.arc(centre, centre, Math.max(0, radius - blur - context.lineWidth / 2), 0, Math.PI * 2);
+    context.stroke();
+  } else if (shape === 'star') {
+    const points = 5;
+    const outer = Math.max(0, radius - blur);
+    context.shadowBlur = blur;
+    context.beginPath();
+    for (let i = 0; i < points * 2; i++) {
+      const r = i % 2 ? outer * 0.4 : outer;
+      const angle = (i * Math.PI) / points - Math.PI / 2;
+      context.lineTo(centre + r * Math.cos(angle), centre + r * Math.sin(angle));
+    }
+    context.closePath();
+    context.fill();
+  } else {
+    const half = Math.max(0.5, radius - blur);
+    context.shadowBlur = blur;
+    context.fillRect(centre - half, centre - half, half * 2, half * 2);
+  }
+}
+
+function getShapeTexture(shape: SpriteShape, params: SpriteParams): CanvasTexture {
+  let texture = shapeTextures.get(shape);
+  if (!texture) {
+    texture = new CanvasTexture(document.createElement('canvas'));
+    if (shape === 'square') {
+      // Keep the pixels crisp
+      texture.magFilter = texture.minFilter = NearestFilter;
+    }
+    shapeTextures.set(shape, texture);
+  }
+  drawShape(texture.image as HTMLCanvasElement, shape, params);
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * The texture for the sprite, the custom one is drawn from the uploaded image if there is one
+ */
+export function getSpriteTexture(id: string, params: SpriteParams, customSprite?: string): Texture {
+  if (id === CUSTOM_SPRITE && customSprite) {
+    return loadTexture(customSprite);
+  }
+  const sprite = getSprite(id);
+  return 'shape' in sprite ? getShapeTexture(sprite.shape, params) : loadTexture(sprite.url);
+}
+
+/**
+ * Reads an uploaded image into a square PNG data URL, scaled down to a sprite sized one
+ */
+export function readSpriteFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) {
+      reject(new Error('That file is not an image'));
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const longest = Math.max(image.width, image.height);
+      const side = Math.min(longest, MAX_CUSTOM_RESOLUTION);
+      const scale = side / longest;
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = side;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Unable to read that image'));
+        return;
+      }
+      const width = image.width * scale;
+      const height = image.height * scale;
+      context.drawImage(image, (side - width) / 2, (side - height) / 2, width, height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Unable to read that image'));
+    };
+    image.src = url;
+  });
+}
+
+export function loadCustomSprite(): string | undefined {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) || undefined;
+  } catch (e) {
+    console.warn('Unable to load the custom sprite.', e);
+    return undefined;
+  }
+}
+
+export function saveCustomSprite(dataUrl: string) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, dataUrl);
+  } catch (e) {
+    console.warn('Unable to save the custom sprite.', e);
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { palettes } from './palettes';
+import { CLASSIC_THEME, applyOverlay, getNextTheme, getTheme, themes } from './themes';
+
+describe('themes', () => {
+  it('use palettes that exist', () => {
+    const ids = palettes.map(({ id }) => id);
+    for (const { palette } of themes) {
+      expect(ids).toContain(palette);
+    }
+  });
+
+  it('have unique ids', () => {
+    expect(new Set(themes.map(({ id }) => id)).size).toBe(themes.length);
+  });
+});
+
+describe('getTheme', () => {
+  it('looks themes up by id, falling back to the classic look', () => {
+    expect(getTheme('90s-rave').name).toBe('90s rave');
+    expect(getTheme('70s-disco').id).toBe(CLASSIC_THEME);
+  });
+});
+
+describe('getNextTheme', () => {
+  it('goes through every theme and back to the first', () => {
+    let id = themes[0].id;
+    const seen = [id];
+    for (let i = 1; i < themes.length; i++) {
+      id = getNextTheme(id).id;
+      seen.push(id);
+    }
+    expect(seen).toEqual(themes.map((theme) => theme.id));
+    expect(getNextTheme(id)).toBe(themes[0]);
+  });
+});
+
+describe('applyOverlay', () => {
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, 'document');
+  });
+
+  it('sets the overlay CSS variables, and removes them without an overlay', () => {
+    const style = { setProperty: vi.fn(), removeProperty: vi.fn() };
+    vi.stubGlobal('document', { documentElement: { style } });
+    applyOverlay(getTheme('00s-y2k').overlay);
+    expect(style.setProperty).toHaveBeenCalledWith('--overlay-accent', '#8fd3fe');
+    expect(style.setProperty).toHaveBeenCalledWith('--overlay-font', 'Verdana, Tahoma, sans-serif');
+
+    applyOverlay(getTheme(CLASSIC_THEME).overlay);
+    expect(style.removeProperty).toHaveBeenCalledWith('--overlay-accent');
+    expect(style.removeProperty).toHaveBeenCalledWith('--overlay-font');
+  });
+});
@@ -0,0 +1,87 @@
+import { Theme, ThemeOverlay } from '@/types/hopalong';
+import { RANDOM_PALETTE } from './palettes';
+
+export const CLASSIC_THEME = 'classic';
+
+export const themes: Theme[] = [
+  {
+    id: CLASSIC_THEME,
+    name: 'Classic',
+    sprite: 'amoongus',
+    palette: RANDOM_PALETTE,
+    paletteMode: 'subsets',
+    background: '#000000',
+    fog: { colour: '#000000', density: 0.001 },
+    effects: {},
+  },
+  {
+    id: '80s-synthwave',
+    name: '80s synthwave',
+    sprite: 'glow',
+    palette: 'synthwave',
+    paletteMode: 'levels',
+    background: '#12002a',
+    fog: { colour: '#2b0f54', density: 0.0012 },
+    effects: {
+      bloom: { enabled: true, amount: 0.6 },
+      crt: { enabled: true, amount: 0.4 },
+    },
+    overlay: { accent: '#ff2a6d', font: "'Courier New', 'Roboto Mono', monospace" },
+  },
+  {
+    id: '90s-rave',
+    name: '90s rave',
+    sprite: 'star',
+    palette: 'vaporwave',
+    paletteMode: 'cycle',
+    background: '#000000',
+    fog: { colour: '#001a0d', density: 0.0008 },
+    effects: {
+      trails: { enabled: true, amount: 0.6 },
+      chromaticAberration: { enabled: true, amount: 0.4 },
+      vhs: { enabled: true, amount: 0.5 },
+    },
+    overlay: { accent: '#05ffa1', font: "Impact, 'Arial Black', sans-serif" },
+  },
+  {
+    id: '00s-y2k',
+    name: '00s Y2K',
+    sprite: 'ring',
+    palette: 'y2k-chrome',
+    paletteMode: 'subsets',
+    background: '#0a1a2a',
+    fog: { colour: '#1c3b57', density: 0.0009 },
+    effects: {
+      bloom: { enabled: true, amount: 0.35 },
+      pixelate: { enabled: true, amount: 0.1 },
+    },
+    overlay: { accent: '#8fd3fe', font: 'Verdana, Tahoma, sans-serif' },
+  },
+];
+
+export function getTheme(id: string): Theme {
+  return themes.find((theme) => theme.id === id) || themes[0];
+}
+
+/**
+ * The theme after the given one, for rotating through them all
+ */
+export function getNextTheme(id: string): Theme {
+  const index = themes.findIndex((theme) => theme.id === id);
+  return themes[(index + 1) % themes.length];
+}
+
+/**
+ * Styles the menu and toolbar through CSS variables, going back to the plain look without an
+ * overlay
+ */
+export function applyOverlay(overlay?: ThemeOverlay) {
+  const { style } = document.documentElement;
+  if (overlay) {
+    style.setProperty('--overlay-accent', overlay.accent);
+    style.setProperty('--overlay-font', overlay.font);
+  } else {
+    style.removeProperty('--overlay-accent');
+    style.removeProperty('--overlay-font');
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isObject,
+  toNumber,
+  validatePalette,
+  validatePaletteMode,
+  validateParams,
+} from './validation';
+
+const params = { a: 1, b: 2, c: 3, d: 4, e: 5, choice: 0.5, xPreset: 0, yPreset: 0 };
+
+describe('isObject', () => {
+  it('only accepts plain objects', () => {
+    expect(isObject({})).toBe(true);
+    expect(isObject([])).toBe(false);
+    expect(isObject(null)).toBe(false);
+    expect(isObject('object')).toBe(false);
+  });
+});
+
+describe('toNumber', () => {
+  it('accepts numbers and numeric strings', () => {
+    expect(toNumber(1.5)).toBe(1.5);
+    expect(toNumber(' -2 ')).toBe(-2);
+  });
+
+  it('rejects anything else', () => {
+    expect(toNumber('')).toBeUndefined();
+    expect(toNumber('one')).toBeUndefined();
+    expect(toNumber(NaN)).toBeUndefined();
+    expect(toNumber(Infinity)).toBeUndefined();
+    expect(toNumber(null)).toBeUndefined();
+  });
+});
+
+describe('validateParams', () => {
+  it('reads complete params, with numbers saved as strings', () => {
+    const errors: string[] = [];
+    expect(
+      validateParams(
+        { ...params, a: '1', attractor: 'hopalong', seed: 12, timeCreated: '1000' },
+        errors
+      )
+    ).toEqual({ ...params, attractor: 'hopalong', seed: 12, timeCreated: 1000 });
+    expect(errors).toEqual([]);
+  });
+
+  it('reports each bad field', () => {
+    const errors: string[] = [];
+    expect(
+      validateParams(
+        { ...params, c: undefined, e: 'five', attractor: 'lorenz', seed: -1, paletteMode: 'x' },
+        errors
+      )
+    ).toBeUndefined();
+    expect(errors).toEqual([
+      'params.c must be a number',
+      'params.e must be a number',
+      "params.attractor 'lorenz' is not a known attractor",
+      'params.seed must be a positive whole number',
+      'params.paletteMode must be one of subsets, levels, cycle',
+    ]);
+  });
+
+  it("doesn't accept anything other than an object", () => {
+    const errors: string[] = [];
+    expect(validateParams([params], errors)).toBeUndefined();
+    expect(errors).toEqual(['params must be an object']);
+  });
+
+  it("is invalid if there were errors before it's called", () => {
+    expect(validateParams(params, ['seed must be a whole number'])).toBeUndefined();
+  });
+});
+
+describe('validatePalette', () => {
+  it('accepts a list of colours', () => {
+    const errors: string[] = [];
+    expect(validatePalette(['#ff0000', 'teal'], 'palette', errors)).toEqual(['#ff0000', 'teal']);
+    expect(errors).toEqual([]);
+  });
+
+  it("lists the colours it can't read", () => {
+    const errors: string[] = [];
+    expect(validatePalette(['#ff0000', 'nope', 5], 'palette', errors)).toBeUndefined();
+    expect(validatePalette([], 'palette', errors)).toBeUndefined();
+    expect(errors).toEqual([
+      'palette has invalid colours: nope, 5',
+      'palette must be a list of colours',
+    ]);
+  });
+});
+
+describe('validatePaletteMode', () => {
+  it('accepts only the known modes', () => {
+    const errors: string[] = [];
+    expect(validatePaletteMode('levels', 'paletteMode', errors)).toBe('levels');
+    expect(validatePaletteMode('random', 'paletteMode', errors)).toBeUndefined();
+    expect(errors).toEqual(['paletteMode must be one of subsets, levels, cycle']);
+  });
+});
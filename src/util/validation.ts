@@ -0,0 +1,97 @@
+import chroma from 'chroma-js';
+import { OrbitParams, PaletteMode } from '@/types/hopalong';
+import { attractors } from './attractors';
+
+export const PALETTE_MODES: PaletteMode[] = ['subsets', 'levels', 'cycle'];
+
+export const NUMERIC_PARAMS = ['a', 'b', 'c', 'd', 'e', 'choice', 'xPreset', 'yPreset'] as const;
+
+export type UnknownObject = { [key: string]: unknown };
+
+export function isObject(value: unknown): value is UnknownObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Numbers are sometimes saved as strings by the notebooks, so accept those too
+ */
+export function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return isFiniteNumber(number) ? number : undefined;
+}
+
+/**
+ * Checks orbit params loaded from JSON, pushing a message to `errors` for each bad field
+ */
+export function validateParams(value: unknown, errors: string[]): OrbitParams<number> | undefined {
+  if (!isObject(value)) {
+    errors.push('params must be an object');
+    return undefined;
+  }
+  const params: Partial<OrbitParams<number>> = {};
+  for (const key of NUMERIC_PARAMS) {
+    const number = toNumber(value[key]);
+    if (typeof number === 'undefined') {
+      errors.push(`params.${key} must be a number`);
+    } else {
+      params[key] = number;
+    }
+  }
+  if (typeof value.attractor !== 'undefined') {
+    if (!attractors.some(({ id }) => id === value.attractor)) {
+      errors.push(`params.attractor '${value.attractor}' is not a known attractor`);
+    } else {
+      params.attractor = value.attractor as string;
+    }
+  }
+  if (typeof value.seed !== 'undefined') {
+    if (!Number.isInteger(value.seed) || (value.seed as number) < 0) {
+      errors.push('params.seed must be a positive whole number');
+    } else {
+      params.seed = value.seed as number;
+    }
+  }
+  if (typeof value.timeCreated !== 'undefined') {
+    params.timeCreated = toNumber(value.timeCreated);
+  }
+  if (typeof value.palette !== 'undefined') {
+    params.palette = validatePalette(value.palette, 'params.palette', errors);
+  }
+  if (typeof value.paletteMode !== 'undefined') {
+    params.paletteMode = validatePaletteMode(value.paletteMode, 'params.paletteMode', errors);
+  }
+  return errors.length === 0 ? (params as OrbitParams<number>) : undefined;
+}
+
+export function validatePalette(
+  value: unknown,
+  field: string,
+  errors: string[]
+): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${field} must be a list of colours`);
+    return undefined;
+  }
+  const invalid = value.filter((colour) => typeof colour !== 'string' || !chroma.valid(colour));
+  if (invalid.length) {
+    errors.push(`${field} has invalid colours: ${invalid.map(String).join(', ')}`);
+    return undefined;
+  }
+  return value;
+}
+
+export function validatePaletteMode(
+  value: unknown,
+  field: string,
+  errors: string[]
+): PaletteMode | undefined {
+  if (!PALETTE_MODES.includes(value as PaletteMode)) {
+    errors.push(`${field} must be one of ${PALETTE_MODES.join(', ')}`);
+    return undefined;
+  }
+  return value as PaletteMode;
+}
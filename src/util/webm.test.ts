@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import WebmMuxer from './webm';
+
+const options = { codec: 'V_VP9', width: 640, height: 360, frameRate: 25 };
+
+const indexOf = (bytes: Uint8Array, search: number[]) =>
+  bytes.findIndex((_, i) => search.every((byte, j) => bytes[i + j] === byte));
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+describe('WebmMuxer', () => {
+  it('starts a cluster on each keyframe', () => {
+    const muxer = new WebmMuxer(options);
+    muxer.addFrame(new Uint8Array([1]), 0, true);
+    muxer.addFrame(new Uint8Array([2]), 40, false);
+    muxer.addFrame(new Uint8Array([3]), 80.4, true);
+    muxer.addFrame(new Uint8Array([4]), 120, false);
+    expect(muxer.clusters.map(({ time, blocks }) => [time, blocks.length])).toEqual([
+      [0, 2],
+      [80, 2],
+    ]);
+  });
+
+  it('starts a cluster when block times would overflow', () => {
+    const muxer = new WebmMuxer(options);
+    muxer.addFrame(new Uint8Array([1]), 0, true);
+    muxer.addFrame(new Uint8Array([2]), 32767, false);
+    muxer.addFrame(new Uint8Array([3]), 32768, false);
+    expect(muxer.clusters.map(({ time }) => time)).toEqual([0, 32768]);
+  });
+
+  it('lasts until the end of the last frame', () => {
+    const muxer = new WebmMuxer(options);
+    muxer.addFrame(new Uint8Array([1]), 0, true);
+    muxer.addFrame(new Uint8Array([2]), 40, false);
+    expect(muxer.duration).toBe(80);
+  });
+
+  it('writes the header, track and frames in order', async () => {
+    const muxer = new WebmMuxer(options);
+    muxer.addFrame(new Uint8Array([0xaa, 0xbb]), 0, true);
+    muxer.addFrame(new Uint8Array([0xcc, 0xdd]), 40, false);
+    const blob = muxer.finish();
+    expect(blob.type).toBe('video/webm');
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0x1a, 0x45, 0xdf, 0xa3]);
+    const docType = indexOf(bytes, ascii('webm'));
+    const segment = indexOf(bytes, [0x18, 0x53, 0x80, 0x67]);
+    const codec = indexOf(bytes, ascii('V_VP9'));
+    const cluster = indexOf(bytes, [0x1f, 0x43, 0xb6, 0x75]);
+    // SimpleBlocks on track 1 with their time and keyframe flag
+    const first = indexOf(bytes, [0x81, 0x00, 0x00, 0x80, 0xaa, 0xbb]);
+    const second = indexOf(bytes, [0x81, 0x00, 0x28, 0x00, 0xcc, 0xdd]);
+    expect(docType).toBeGreaterThan(0);
+    expect(segment).toBeGreaterThan(docType);
+    expect(codec).toBeGreaterThan(segment);
+    expect(cluster).toBeGreaterThan(codec);
+    expect(first).toBeGreaterThan(cluster);
+    expect(second).toBeGreaterThan(first);
+    expect(bytes.length).toBe(second + 6);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Just enough of WebM to store one video track of VP8 or VP9 frames from WebCodecs. There are no
+ * cues, so players seek by scanning the clusters, which is fine for short loops.
+ */
+
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const DEFAULT_DURATION = 0x23e383;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+const VIDEO_TRACK_TYPE = 1;
+// Block timecodes are 16 bit offsets from their cluster's (in ms)
+const MAX_CLUSTER_TIME = 32767;
+
+type EbmlElement = {
+  id: number;
+  /** Numbers are written as unsigned integers unless `float` is set */
+  data: number | string | Uint8Array | EbmlElement[];
+  float?: boolean;
+};
+
+/** Bytes of an element, split so big frames aren't copied again */
+type Serialised = { parts: Uint8Array[]; size: number };
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Sizes are variable length integers, the number of leading zeros gives the length
+ */
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function encodeUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0 || !bytes.length; ) {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function encodeFloat(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function serialise({ id, data, float }: EbmlElement): Serialised {
+  let body: Serialised;
+  if (Array.isArray(data)) {
+    body = { parts: [], size: 0 };
+    for (const child of data.map(serialise)) {
+      child.parts.forEach((part) => body.parts.push(part));
+      body.size += child.size;
+    }
+  } else {
+    let bytes: Uint8Array;
+    if (typeof data === 'string') {
+      bytes = Uint8Array.from(data, (char) => char.charCodeAt(0));
+    } else if (typeof data === 'number') {
+      bytes = float ? encodeFloat(data) : encodeUint(data);
+    } else {
+      bytes = data;
+    }
+    body = { parts: [bytes], size: bytes.length };
+  }
+  const header = [encodeId(id), encodeSize(body.size)];
+  return {
+    parts: [...header, ...body.parts],
+    size: header[0].length + header[1].length + body.size,
+  };
+}
+
+/**
+ * A SimpleBlock on track 1, `time` is relative to the cluster in ms
+ */
+function simpleBlock(data: Uint8Array, time: number, keyframe: boolean): EbmlElement {
+  const header = new Uint8Array(4);
+  header[0] = 0x81;
+  new DataView(header.buffer).setInt16(1, time);
+  header[3] = keyframe ? 0x80 : 0;
+  const block = new Uint8Array(header.length + data.length);
+  block.set(header);
+  block.set(data, header.length);
+  return { id: SIMPLE_BLOCK, data: block };
+}
+
+export type WebmOptions = {
+  /** Matroska codec id, `V_VP8` or `V_VP9` */
+  codec: string;
+  width: number;
+  height: number;
+  frameRate: number;
+};
+
+type Cluster = { time: number; blocks: EbmlElement[] };
+
+/**
+ * Collects encoded frames and writes them out as a WebM file once they're all in
+ */
+export default class WebmMuxer {
+  options: WebmOptions;
+  clusters: Cluster[] = [];
+  /** Time of the end of the last frame, in ms */
+  duration = 0;
+
+  constructor(options: WebmOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Adds a frame, `time` is in ms. Clusters start on keyframes so each one can be decoded alone
+   */
+  addFrame(data: Uint8Array, time: number, keyframe: boolean) {
+    const roundedTime = Math.round(time);
+    let cluster = this.clusters[this.clusters.length - 1];
+    if (!cluster || keyframe || roundedTime - cluster.time > MAX_CLUSTER_TIME) {
+      cluster = { time: roundedTime, blocks: [] };
+      this.clusters.push(cluster);
+    }
+    cluster.blocks.push(simpleBlock(data, roundedTime - cluster.time, keyframe));
+    this.duration = Math.max(this.duration, time + 1000 / this.options.frameRate);
+  }
+
+  finish(): Blob {
+    const { codec, width, height, frameRate } = this.options;
+    const header = serialise({
+      id: EBML_HEADER,
+      data: [
+        { id: EBML_VERSION, data: 1 },
+        { id: EBML_READ_VERSION, data: 1 },
+        { id: EBML_MAX_ID_LENGTH, data: 4 },
+        { id: EBML_MAX_SIZE_LENGTH, data: 8 },
+        { id: DOC_TYPE, data: 'webm' },
+        { id: DOC_TYPE_VERSION, data: 2 },
+        { id: DOC_TYPE_READ_VERSION, data: 2 },
+      ],
+    });
+    const segment = serialise({
+      id: SEGMENT,
+      data: [
+        {
+          id: INFO,
+          data: [
+            // Timecodes are in ms
+            { id: TIMECODE_SCALE, data: 1000000 },
+            { id: DURATION, data: this.duration, float: true },
+            { id: MUXING_APP, data: 'hopalong' },
+            { id: WRITING_APP, data: 'hopalong' },
+          ],
+        },
+        {
+          id: TRACKS,
+          data: [
+            {
+              id: TRACK_ENTRY,
+              data: [
+                { id: TRACK_NUMBER, data: 1 },
+                { id: TRACK_UID, data: 1 },
+                { id: TRACK_TYPE, data: VIDEO_TRACK_TYPE },
+                { id: CODEC_ID, data: codec },
+                // In ns
+                { id: DEFAULT_DURATION, data: Math.round(1e9 / frameRate) },
+                {
+                  id: VIDEO,
+                  data: [
+                    { id: PIXEL_WIDTH, data: width },
+                    { id: PIXEL_HEIGHT, data: height },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        ...this.clusters.map(({ time, blocks }) => ({
+          id: CLUSTER,
+          data: [{ id: TIMECODE, data: time }, ...blocks],
+        })),
+      ],
+    });
+    return new Blob([...header.parts, ...segment.parts], { type: 'video/webm' });
+  }
+}